@@ -0,0 +1,26 @@
+import type { Env } from './env'
+import { errorJson, storageUnavailable } from './http'
+import { requestSecret, safeEqual } from './keys'
+
+/** Whether the request carries the ADMIN_KEY secret, or the response to send instead. */
+export function checkAdmin(request: Request, env: Env, what = 'Admin routes') {
+  if (!env.ADMIN_KEY) {
+    return { ok: false as const, response: errorJson({ code: 'forbidden', message: `${what} are disabled (no ADMIN_KEY secret)` }) }
+  }
+
+  const secret = requestSecret(request)
+  if (!secret || !safeEqual(secret, env.ADMIN_KEY)) {
+    return { ok: false as const, response: errorJson({ code: 'unauthorized', message: 'Missing or wrong admin key' }) }
+  }
+  return { ok: true as const }
+}
+
+/** The API_KEYS namespace when the request carries the ADMIN_KEY secret, or the response to send instead. */
+export function resolveAdmin(request: Request, env: Env) {
+  const kv = env.API_KEYS
+  if (!kv) return { ok: false as const, response: storageUnavailable('API_KEYS') }
+
+  const admin = checkAdmin(request, env)
+  if (!admin.ok) return admin
+  return { ok: true as const, kv }
+}
@@ -0,0 +1,80 @@
+import type { Curvature, DetectedLanguage, DetectorReport, LanguageCode, TimelineWindow } from '../../shared/api'
+import { detectorReport, detectorReports, ensembleOf, planDetectors, runDetectors, sharesOf, type DetectorRun } from './detectors'
+import { normalizeText } from './evasion'
+import { detectLanguage, languageInfo } from './lang'
+import { lmSignals, type LanguageModel } from './lm'
+import { DEFAULT_PERTURBATION } from './perturb'
+import { clamp01, computeSignals, heuristicComponents, tokenizeWords } from './scoring'
+import { DEFAULT_WEIGHTS, ENSEMBLE_MEMBERS, applyCalibration, type EnsembleMember } from './weights'
+
+/** Hooks for a streamed scan: partial results as they are ready, and a signal that stops the work between steps. */
+export type Progress = {
+  signal?: AbortSignal
+  /** Each detector's report on the whole text, in ensemble order, as it finishes. */
+  detector?: (report: DetectorReport) => Promise<void>
+  /** Each timeline window as it is scored. */
+  window?: (window: TimelineWindow, index: number, total: number) => Promise<void>
+}
+
+/**
+ * Everything the handler, calibration and evaluation scripts need for one text.
+ * `ensemble` is the raw weighted mix; `calibrated` is what gets reported as ai_probability.
+ * The language is detected unless `language` is given. Detectors come from the
+ * registry (see ./detectors); those missing from `only` are not run and score 0
+ * (scan profiles switch them off). `progress` hears about each detector.
+ * The text is normalised first (see ./evasion), so look-alike letters and
+ * invisible characters don't skew any signal; `evasion` reports what was undone.
+ */
+export async function analyze(
+  raw: string,
+  model: LanguageModel,
+  weights = DEFAULT_WEIGHTS,
+  perturbation = DEFAULT_PERTURBATION,
+  language?: LanguageCode,
+  only: readonly EnsembleMember[] = ENSEMBLE_MEMBERS,
+  progress: Progress = {}
+) {
+  const { text, evasion } = normalizeText(raw)
+  const detected: DetectedLanguage = language ? languageInfo(language) : detectLanguage(text)
+  const lang = detected.code
+
+  const signals = computeSignals(text, lang)
+  const lm = lmSignals(model, tokenizeWords(text))
+  const ctx = { text, lang, signals, lm, weights, perturbation }
+  const plan = planDetectors(ctx, only)
+  const planned = sharesOf(plan, weights.ensemble)
+  const onRun = progress.detector && ((run: DetectorRun) => progress.detector!(detectorReport(run, planned[run.definition.id])))
+  const runs = await runDetectors(ctx, plan, onRun, progress.signal)
+  const { values, shares, ensemble } = ensembleOf(runs, weights.ensemble)
+
+  // With DetectGPT off no copies are scored, and the curvature block reports 0 samples.
+  const curvature: Curvature = (runs.detectgpt.result?.data as Curvature | undefined) ?? {
+    samples: 0,
+    seed: perturbation.seed,
+    mean_delta: 0,
+    mean_abs_delta: 0,
+    variance: 0,
+  }
+
+  return {
+    /** The text as scored, after normalisation. */
+    text,
+    evasion,
+    language: detected,
+    signals,
+    components: heuristicComponents(signals, lang),
+    curvature,
+    lm,
+    runs,
+    /** Each member's effective weight in `ensemble`, after renormalisation. */
+    shares,
+    detectors: detectorReports(runs, shares),
+    scores: {
+      ...values,
+      ensemble,
+      calibrated: clamp01(applyCalibration(ensemble, weights.calibration)),
+    },
+  }
+}
+
+export type Analysis = Awaited<ReturnType<typeof analyze>>
@@ -0,0 +1,73 @@
+import type { Author, AuthorResponse, AuthorSummary } from '../../shared/api'
+import type { Env } from './env'
+import { errorJson, storageUnavailable } from './http'
+import { resolveOwner, type RequestData } from './owner'
+
+/**
+ * KV layout: `author:<owner>:<id>` holds the author and every sample as JSON,
+ * with the summary as key metadata so listing needs no extra reads. A
+ * comparison needs all the samples anyway, so one read loads the whole
+ * profile. The owner comes from resolveOwner, so each caller has their own authors.
+ */
+function prefix(owner: string) {
+  return `author:${owner}:`
+}
+
+export function summarizeAuthor({ samples, ...author }: Author): AuthorSummary {
+  return { ...author, samples: samples.length, words: samples.reduce((n, s) => n + s.words, 0) }
+}
+
+/** The author without sample texts, as the API returns it. */
+export function authorDetail({ samples, ...author }: Author): AuthorResponse['author'] {
+  return { ...author, samples: samples.map(({ text, ...s }) => s) }
+}
+
+export async function listAuthors(kv: KVNamespace, owner: string): Promise<AuthorSummary[]> {
+  const out: AuthorSummary[] = []
+  let cursor: string | undefined
+
+  do {
+    const page = await kv.list<AuthorSummary>({ prefix: prefix(owner), cursor })
+    for (const key of page.keys) if (key.metadata) out.push(key.metadata)
+    cursor = page.list_complete ? undefined : page.cursor
+  } while (cursor)
+
+  return out.sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id))
+}
+
+export function getAuthor(kv: KVNamespace, owner: string, id: string): Promise<Author | null> {
+  return kv.get<Author>(prefix(owner) + id, 'json')
+}
+
+export async function putAuthor(kv: KVNamespace, owner: string, author: Author): Promise<void> {
+  await kv.put(prefix(owner) + author.id, JSON.stringify(author), { metadata: summarizeAuthor(author) })
+}
+
+export async function deleteAuthor(kv: KVNamespace, owner: string, id: string): Promise<boolean> {
+  if (!(await kv.get(prefix(owner) + id))) return false
+  await kv.delete(prefix(owner) + id)
+  return true
+}
+
+/**
+ * The caller's author named by `options.author`, loaded for a comparison, or
+ * the response to send instead. Without the option there is nothing to load.
+ */
+export async function resolveAuthor(ctx: EventContext<Env, string, RequestData>, id: string | undefined) {
+  if (id === undefined) return { ok: true as const, author: undefined }
+  if (!ctx.env.AUTHORS) return { ok: false as const, response: storageUnavailable('AUTHORS') }
+  const owner = resolveOwner(ctx.request, ctx.data)
+  if (!owner.ok) return owner
+
+  const author = await getAuthor(ctx.env.AUTHORS, owner.owner, id)
+  if (!author) {
+    return { ok: false as const, response: errorJson({ code: 'not_found', message: `No author "${id}"`, field: 'options.author' }) }
+  }
+  if (!author.samples.length) {
+    return {
+      ok: false as const,
+      response: errorJson({ code: 'invalid_request', message: `Author "${id}" has no samples yet`, field: 'options.author' }),
+    }
+  }
+  return { ok: true as const, author }
+}
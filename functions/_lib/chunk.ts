@@ -0,0 +1,112 @@
+import type { LanguageCode, RuleHit, ScanRule, Timeline, TimelineWindow } from '../../shared/api'
+import { analyze, type Progress } from './analyze'
+import { applyEvasion } from './evasion'
+import type { LanguageModel } from './lm'
+import type { PerturbationConfig } from './perturb'
+import { applyRules, matchRules } from './profile'
+import { confidenceLabel, splitSentenceSpans, tokenizeWords } from './scoring'
+import type { DetectorWeights, EnsembleMember } from './weights'
+
+/** About where lengthFactor saturates, so every full window is scored at full strength. */
+export const WINDOW_WORDS = 300
+/** Texts shorter than this are a single window and get no timeline. */
+export const MIN_TIMELINE_WORDS = 450
+/** Longer texts get wider windows rather than more of them. */
+export const MAX_WINDOWS = 40
+
+/** A window may close early on a paragraph break once it holds this share of WINDOW_WORDS. */
+const PARAGRAPH_FILL = 0.75
+const PARAGRAPH_BREAK = /\n[^\S\n]*\n/
+
+export type Window = {
+  start: number
+  end: number
+  words: number
+}
+
+export type Chunks = {
+  windows: Window[]
+  size: number
+  stride: number
+}
+
+/**
+ * Overlapping windows of whole sentences, each about `size` words long and
+ * starting about half that after the previous one. `size` is WINDOW_WORDS, or
+ * more when that would take over MAX_WINDOWS windows. Windows prefer to end
+ * at a paragraph break; a single sentence longer than a window is its own window.
+ * Null for texts under MIN_TIMELINE_WORDS.
+ */
+export function chunkText(raw: string, lang: LanguageCode): Chunks | null {
+  const sentences = splitSentenceSpans(raw, lang).map((s, i, all) => ({
+    start: s.start,
+    end: s.end,
+    words: tokenizeWords(s.text).length,
+    paragraphEnd: i + 1 < all.length && PARAGRAPH_BREAK.test(raw.slice(s.end, all[i + 1].start)),
+  }))
+  const total = sentences.reduce((acc, s) => acc + s.words, 0)
+  if (total < MIN_TIMELINE_WORDS) return null
+
+  const size = Math.max(WINDOW_WORDS, Math.ceil((2 * total) / (MAX_WINDOWS + 1)))
+  const stride = Math.ceil(size / 2)
+  const windows: Window[] = []
+
+  for (let i = 0; i < sentences.length;) {
+    let j = i
+    let words = 0
+    while (j < sentences.length && words < size) {
+      words += sentences[j++].words
+      if (words >= size * PARAGRAPH_FILL && sentences[j - 1].paragraphEnd) break
+    }
+    windows.push({ start: sentences[i].start, end: sentences[j - 1].end, words })
+    if (j >= sentences.length) break
+
+    // Advance at least one sentence, and never past the end of this window.
+    let next = i
+    for (let advanced = 0; next < j - 1 && advanced < stride; next++) advanced += sentences[next].words
+    i = Math.max(next, i + 1)
+  }
+  return { windows, size, stride }
+}
+
+/**
+ * Scores every window with the same weights, detectors and rules as the whole
+ * text. Windows are scored one at a time to keep memory flat on long inputs;
+ * `progress` hears about each one, and an aborted signal stops before the next.
+ */
+export async function scoreTimeline(
+  raw: string,
+  { windows, size, stride }: Chunks,
+  model: LanguageModel,
+  weights: DetectorWeights,
+  perturbation: PerturbationConfig,
+  lang: LanguageCode,
+  only: readonly EnsembleMember[],
+  rules: ScanRule[],
+  thresholds: { high: number; medium: number },
+  progress: Progress = {}
+): Promise<Timeline> {
+  const scored: TimelineWindow[] = []
+  for (const [i, w] of windows.entries()) {
+    progress.signal?.throwIfAborted()
+    const text = raw.slice(w.start, w.end)
+    const { scores, evasion } = await analyze(text, model, weights, perturbation, lang, only, { signal: progress.signal })
+    const hits: RuleHit[] = rules.length ? matchRules(text, rules) : []
+    const p = applyRules(applyEvasion(scores.calibrated, evasion), hits)
+    scored.push({ ...w, ai_probability: p, confidence: confidenceLabel(p, thresholds) })
+    await progress.window?.(scored[i], i, windows.length)
+  }
+
+  const probs = scored.map(w => w.ai_probability)
+  return {
+    window_words: size,
+    stride_words: stride,
+    windows: scored,
+    stats: {
+      max: Math.max(...probs),
+      mean: probs.reduce((a, b) => a + b, 0) / probs.length,
+      threshold: thresholds.high,
+      above_threshold: probs.filter(p => p >= thresholds.high).length / probs.length,
+    },
+  }
+}
@@ -0,0 +1,202 @@
+import {
+  MAX_ATTRIBUTED_CHANGES,
+  type ChangeEffect,
+  type CompareChange,
+  type CompareResponse,
+  type DetectOptions,
+  type DetectResponse,
+  type DraftScore,
+  type LanguageCode,
+  type WordDiff,
+} from '../../shared/api'
+import { detectText, type DetectResult } from './detect'
+import { lcsDiff } from './diff'
+import { CJK_CHAR, detectLanguage } from './lang'
+import type { LanguageModel } from './lm'
+import {
+  MIN_ZIPPY_WORDS,
+  compressionRatio,
+  computeSignals,
+  heuristicScore,
+  splitSentenceSpans,
+  zipPyScore,
+  type SentenceSpan,
+} from './scoring'
+import { DEFAULT_WEIGHTS, type DetectorWeights } from './weights'
+
+export type CompareResult = Omit<CompareResponse, 'api_version'>
+
+/**
+ * Score two drafts with the normal pipeline and explain the difference.
+ * Sentences are aligned first; each run of differing sentences becomes one
+ * change, word-diffed inside, with the sentence scores on both sides and the
+ * document-level effect of applying that change alone to `before`.
+ * Both drafts use the language of `after` unless the options pin one.
+ */
+export async function compareDrafts(
+  before: string,
+  after: string,
+  model: LanguageModel,
+  options: DetectOptions = {},
+  weights = DEFAULT_WEIGHTS
+): Promise<CompareResult> {
+  const lang = options.language ?? detectLanguage(after.trim()).code
+  const opts: DetectOptions = { ...options, language: lang, highlightSentences: true, tokens: false, timeline: false }
+
+  const a = await detectText(before, model, opts, weights)
+  const b = await detectText(after, model, opts, weights)
+
+  const changes = await diffSentences(before, after, a, b, lang, weights)
+
+  const signals = Object.fromEntries(
+    Object.keys(b.signals).map(k => {
+      const key = k as keyof DetectResponse['signals']
+      return [key, b.signals[key] - a.signals[key]]
+    })
+  ) as Record<keyof DetectResponse['signals'], number>
+
+  return {
+    weights_version: weights.version,
+    language: b.language,
+    before: draftScore(a),
+    after: draftScore(b),
+    delta: { ai_probability: b.ai_probability - a.ai_probability, signals },
+    changes,
+  }
+}
+
+function draftScore({ ai_probability, confidence, signals }: DetectResult): DraftScore {
+  return { ai_probability, confidence, signals }
+}
+
+/* =======================
+   SENTENCE ALIGNMENT
+======================= */
+
+const normalize = (s: string) => s.replace(/\s+/g, ' ')
+
+async function diffSentences(
+  before: string,
+  after: string,
+  a: DetectResult,
+  b: DetectResult,
+  lang: LanguageCode,
+  weights: DetectorWeights
+): Promise<CompareChange[]> {
+  const spansA = splitSentenceSpans(before, lang)
+  const spansB = splitSentenceSpans(after, lang)
+  const keysA = spansA.map(s => normalize(s.text))
+  const keysB = spansB.map(s => normalize(s.text))
+
+  const ops = lcsDiff(
+    spansA.map((_, i) => i),
+    spansB.map((_, j) => j),
+    (i, j) => keysA[i] === keysB[j]
+  )
+
+  const base = await effectSignals(before.trim(), lang, weights)
+  const changes: CompareChange[] = []
+
+  // Where an insertion lands in `before`: just after the last sentence both drafts share.
+  let anchor = 0
+  let del: number[] = []
+  let ins: number[] = []
+
+  const flush = async () => {
+    if (!del.length && !ins.length) return
+    const rangeA = range(spansA, del)
+    const rangeB = range(spansB, ins)
+    const textA = rangeA ? before.slice(rangeA.start, rangeA.end) : ''
+    const textB = rangeB ? after.slice(rangeB.start, rangeB.end) : ''
+
+    let effect: ChangeEffect | null = null
+    if (changes.length < MAX_ATTRIBUTED_CHANGES) {
+      const applied = rangeA
+        ? before.slice(0, rangeA.start) + textB + before.slice(rangeA.end)
+        : before.slice(0, anchor) + ' ' + textB + before.slice(anchor)
+      const next = await effectSignals(applied.trim(), lang, weights)
+      effect = {
+        heuristic: next.heuristic - base.heuristic,
+        burstiness: next.burstiness - base.burstiness,
+        repetition: next.repetition - base.repetition,
+        zippy: next.zippy - base.zippy,
+      }
+    }
+
+    changes.push({
+      kind: !del.length ? 'added' : !ins.length ? 'removed' : 'edited',
+      before: rangeA,
+      after: rangeB,
+      words: diffWords(textA, textB),
+      sentence_score: {
+        before: meanScore(a, del),
+        after: meanScore(b, ins),
+      },
+      effect,
+    })
+    del = []
+    ins = []
+  }
+
+  for (const op of ops) {
+    if (op.op === 'delete') del.push(op.a)
+    else if (op.op === 'insert') ins.push(op.b)
+    else {
+      await flush()
+      anchor = spansA[op.a].end
+    }
+  }
+  await flush()
+
+  return changes
+}
+
+function range(spans: SentenceSpan[], idx: number[]) {
+  return idx.length ? { start: spans[idx[0]].start, end: spans[idx[idx.length - 1]].end } : null
+}
+
+/** Sentence scores come from the same splitter, so span i is sentence i. */
+function meanScore(r: DetectResult, idx: number[]) {
+  const scores = idx.map(i => r.sentences?.[i]?.ai_probability).filter((p): p is number => p != null)
+  return scores.length ? scores.reduce((x, y) => x + y, 0) / scores.length : null
+}
+
+/** The document-level signals a change is attributed against; zippy as in analyze(). */
+async function effectSignals(text: string, lang: LanguageCode, weights: DetectorWeights) {
+  const s = computeSignals(text, lang)
+  return {
+    heuristic: heuristicScore(s, weights.heuristic, lang),
+    burstiness: s.burstiness,
+    repetition: s.repetition,
+    zippy: s.length >= MIN_ZIPPY_WORDS ? zipPyScore(await compressionRatio(text)) : 0,
+  }
+}
+
+/* =======================
+   WORD DIFF
+======================= */
+
+/** Whitespace runs, single CJK characters, and everything else up to the next space or CJK character. */
+const WORD_PIECE = new RegExp(`\\s+|${CJK_CHAR}|(?:(?!${CJK_CHAR})\\S)+`, 'gu')
+
+const isSpace = (s: string) => /^\s+$/.test(s)
+
+/** Word-level diff of one change; adjacent pieces with the same op are merged. */
+export function diffWords(before: string, after: string): WordDiff[] {
+  const ops = lcsDiff(
+    before.match(WORD_PIECE) ?? [],
+    after.match(WORD_PIECE) ?? [],
+    (x, y) => x === y || (isSpace(x) && isSpace(y))
+  )
+
+  const out: WordDiff[] = []
+  for (const op of ops) {
+    const piece: WordDiff = op.op === 'equal' ? { op: 'equal', text: op.b }
+      : op.op === 'delete' ? { op: 'delete', text: op.a }
+      : { op: 'insert', text: op.b }
+    const last = out[out.length - 1]
+    if (last?.op === piece.op) last.text += piece.text
+    else out.push(piece)
+  }
+  return out
+}
@@ -0,0 +1,67 @@
+import type { CorpusSource, CorpusSourceSummary } from '../../shared/api'
+import { fingerprint } from './plagiarism/fingerprint'
+
+/**
+ * KV layout: `src:<id>` holds each reference text as JSON, and one `index` key
+ * holds every source's summary plus its winnowed fingerprints and MinHash
+ * signature, so a plagiarism check reads one key before fetching the few
+ * candidate texts. Writes rewrite the index; upload sources one at a time.
+ */
+const PREFIX = 'src:'
+const INDEX_KEY = 'index'
+
+export type IndexedSource = CorpusSourceSummary & {
+  winnowed: number[]
+  minhash: number[]
+}
+
+export type CorpusIndex = {
+  updated_at: string | null
+  sources: IndexedSource[]
+}
+
+const EMPTY_INDEX: CorpusIndex = { updated_at: null, sources: [] }
+
+export async function readIndex(kv: KVNamespace): Promise<CorpusIndex> {
+  return (await kv.get<CorpusIndex>(INDEX_KEY, 'json')) ?? EMPTY_INDEX
+}
+
+export function summarizeSource({ winnowed, minhash, ...summary }: IndexedSource): CorpusSourceSummary {
+  return summary
+}
+
+export function getSource(kv: KVNamespace, id: string): Promise<CorpusSource | null> {
+  return kv.get<CorpusSource>(PREFIX + id, 'json')
+}
+
+export async function putSource(kv: KVNamespace, source: CorpusSource): Promise<void> {
+  const { words, winnowed, minhash } = fingerprint(source.text)
+  const entry: IndexedSource = {
+    id: source.id,
+    title: source.title,
+    added_at: source.added_at,
+    words: words.length,
+    winnowed,
+    minhash,
+  }
+
+  const index = await readIndex(kv)
+  await kv.put(PREFIX + source.id, JSON.stringify(source))
+  await writeIndex(kv, [...index.sources.filter(s => s.id !== source.id), entry])
+}
+
+export async function deleteSource(kv: KVNamespace, id: string): Promise<boolean> {
+  const index = await readIndex(kv)
+  if (!index.sources.some(s => s.id === id)) return false
+  await kv.delete(PREFIX + id)
+  await writeIndex(kv, index.sources.filter(s => s.id !== id))
+  return true
+}
+
+function writeIndex(kv: KVNamespace, sources: IndexedSource[]) {
+  const index: CorpusIndex = {
+    updated_at: new Date().toISOString(),
+    sources: sources.sort((a, b) => a.id.localeCompare(b.id)),
+  }
+  return kv.put(INDEX_KEY, JSON.stringify(index))
+}
@@ -0,0 +1,30 @@
+import { CLIENT_ID_HEADER } from '../../shared/documents'
+import type { Env } from './env'
+
+const ALLOW_METHODS = 'GET, POST, PUT, DELETE, OPTIONS'
+const ALLOW_HEADERS = `Content-Type, Authorization, X-API-Key, ${CLIENT_ID_HEADER}`
+const EXPOSE_HEADERS = 'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset'
+
+/** The Access-Control-Allow-Origin value for this request, or null when its origin isn't allowed. */
+export function allowedOrigin(request: Request, env: Env): string | null {
+  const allowed = (env.ALLOWED_ORIGINS ?? '*').split(',').map(s => s.trim()).filter(Boolean)
+  if (allowed.includes('*')) return '*'
+  const origin = request.headers.get('Origin')
+  return origin && allowed.includes(origin) ? origin : null
+}
+
+/**
+ * CORS headers for a response. A disallowed origin gets none, so the browser
+ * withholds the response; requests without an Origin (curl, servers) are unaffected.
+ */
+export function corsHeaders(request: Request, env: Env): Record<string, string> {
+  const origin = allowedOrigin(request, env)
+  if (!origin) return { Vary: 'Origin' }
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': ALLOW_METHODS,
+    'Access-Control-Allow-Headers': ALLOW_HEADERS,
+    'Access-Control-Expose-Headers': EXPOSE_HEADERS,
+    ...(origin === '*' ? {} : { Vary: 'Origin' }),
+  }
+}
@@ -0,0 +1,119 @@
+import { CONFIDENCE_THRESHOLDS, type Author, type CalibrationResponse, type DetectOptions, type DetectRequest, type DetectResponse } from '../../shared/api'
+import { analyze, type Progress } from './analyze'
+import { chunkText, scoreTimeline } from './chunk'
+import { detectorSignals } from './detectors'
+import { applyEvasion, shiftEvasion } from './evasion'
+import { explain } from './explain'
+import type { LanguageModel, LmSignals } from './lm'
+import { DEFAULT_PERTURBATION, type PerturbationConfig } from './perturb'
+import { applyRules, matchRules, profileDetectors, profileWeights } from './profile'
+import { confidenceLabel, scoreSentences } from './scoring'
+import { compareToAuthor } from './style'
+import { DEFAULT_WEIGHTS, ENSEMBLE_MEMBERS } from './weights'
+
+/** Request overrides on top of the server defaults; validation already bounded them. */
+export function perturbationConfig(options: DetectOptions = {}): PerturbationConfig {
+  return { ...DEFAULT_PERTURBATION, ...stripUndefined(options.perturbation ?? {}) }
+}
+
+function stripUndefined<T extends object>(o: T): Partial<T> {
+  return Object.fromEntries(Object.entries(o).filter(([, v]) => v !== undefined)) as Partial<T>
+}
+
+/** The reported LM statistics; per-token scores are only returned on request. */
+export function lmSummary({ tokens, ...summary }: LmSignals) {
+  return summary
+}
+
+export type DetectResult = Omit<DetectResponse, 'api_version'>
+
+/**
+ * Normal-mode result for one document, shared by /api/v1/detect and /api/v1/detect/batch.
+ * `raw` is the text exactly as the client sent it; sentence, rule, timeline and evasion offsets point into it.
+ * A scan profile in the options replaces the ensemble weights and thresholds and adds its rules.
+ * `author` is the profile named by options.author, already loaded by the caller.
+ * `progress` hears about each detector and timeline window as it is scored (see ./stream).
+ */
+export async function detectText(
+  raw: string,
+  model: LanguageModel,
+  options: DetectOptions = {},
+  baseWeights = DEFAULT_WEIGHTS,
+  author?: Author,
+  progress: Progress = {}
+): Promise<DetectResult> {
+  const { profile } = options
+  const weights = profile ? profileWeights(baseWeights, profile) : baseWeights
+  const thresholds = profile?.thresholds ?? CONFIDENCE_THRESHOLDS
+
+  const ran = profile ? profileDetectors(profile) : ENSEMBLE_MEMBERS
+  const perturbation = perturbationConfig(options)
+  const analysis = await analyze(raw.trim(), model, weights, perturbation, options.language, ran, progress)
+  const { language, signals, curvature, lm, scores } = analysis
+  const evasion = shiftEvasion(analysis.evasion, raw.length - raw.trimStart().length)
+  const rules = profile ? matchRules(raw, profile.rules) : []
+  const finalScore = applyRules(applyEvasion(scores.calibrated, evasion), rules)
+
+  const chunks = options.timeline === false ? null : chunkText(raw, language.code)
+  const timeline = chunks
+    ? await scoreTimeline(raw, chunks, model, weights, perturbation, language.code, ran, profile?.rules ?? [], thresholds, progress)
+    : undefined
+
+  progress.signal?.throwIfAborted()
+  const sentences = options.highlightSentences
+    ? await scoreSentences(raw, weights, language.code, ran)
+    : undefined
+
+  return {
+    ai_probability: finalScore,
+    confidence: confidenceLabel(finalScore, thresholds),
+    weights_version: weights.version,
+    detectors: analysis.detectors,
+    language,
+    signals: {
+      ...signals,
+      ...lmSummary(lm),
+      ...detectorSignals(scores),
+    },
+    perturbation: curvature,
+    evasion,
+    explanation: explain(analysis, weights, rules),
+    timeline,
+    sentences,
+    tokens: options.tokens ? lm.tokens : undefined,
+    profile: profile ? { id: profile.id, name: profile.name, thresholds, rules } : undefined,
+    author: author ? compareToAuthor(analysis.text, language.code, author) : undefined,
+  }
+}
+
+export type CalibrationResult = Omit<CalibrationResponse, 'api_version'>
+
+/**
+ * Calibration-mode result, shared by /api/v1/detect and the scan CLI. Scan
+ * profiles don't apply: it measures the shipped weights on the trimmed text.
+ */
+export async function calibrateText(
+  raw: string,
+  model: LanguageModel,
+  options: DetectOptions = {},
+  label?: DetectRequest['label']
+): Promise<CalibrationResult> {
+  const { language, signals, components, curvature, evasion, lm, detectors, scores } = await analyze(
+    raw.trim(),
+    model,
+    DEFAULT_WEIGHTS,
+    perturbationConfig(options),
+    options.language
+  )
+  return {
+    label: label ?? 'unlabeled',
+    weights_version: DEFAULT_WEIGHTS.version,
+    detectors,
+    language,
+    signals: { ...signals, ...lmSummary(lm) },
+    components,
+    perturbation: curvature,
+    evasion,
+    scores,
+  }
+}
@@ -0,0 +1,24 @@
+import type { Curvature, Reason } from '../../../shared/api'
+import { MIN_PERTURB_WORDS } from '../perturb'
+import { clamp01, detectGPT, heuristicScore } from '../scoring'
+import type { DetectorDefinition } from './types'
+
+/** Perturbation stability of the heuristic score; `data` is the response's `perturbation` block. */
+export const detectgpt: DetectorDefinition<Curvature> = {
+  id: 'detectgpt',
+  version: 1,
+  label: 'DetectGPT stability',
+  signal: 'detectgpt_stability',
+  minWords: 0,
+  score({ text, lang, signals, weights, perturbation }) {
+    const base = heuristicScore(signals, weights.heuristic, lang)
+    const { score: value, curvature } = detectGPT(text, base, weights.heuristic, perturbation, lang)
+    const reasons: Reason[] = []
+    if (value >= 0.8) reasons.push({ key: 'detectgpt', direction: 'ai', text: 'Small edits barely move the score; machine text tends to sit at a stable optimum.' })
+    else if (value <= 0.4) reasons.push({ key: 'detectgpt', direction: 'human', text: 'Small edits move the score a lot, which is more typical of human text.' })
+
+    // Texts too short to perturb come back unchanged, which reads as perfectly stable.
+    const confidence = signals.length < MIN_PERTURB_WORDS ? 0 : clamp01(perturbation.samples / 8)
+    return { value, confidence, reasons, data: curvature }
+  },
+}
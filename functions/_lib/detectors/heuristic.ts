@@ -0,0 +1,31 @@
+import type { Reason } from '../../../shared/api'
+import { heuristicComponents, heuristicScore, lengthFactor } from '../scoring'
+import type { DetectorDefinition } from './types'
+
+/** Component scores at or above this read as machine-like. */
+const HIGH = 0.6
+
+/** Burstiness, repetition, vocabulary spread, punctuation and word length, mixed by weights.heuristic. */
+export const heuristic: DetectorDefinition = {
+  id: 'heuristic',
+  version: 1,
+  label: 'Heuristic signals',
+  minWords: 0,
+  score({ signals, lang, weights }) {
+    const c = heuristicComponents(signals, lang)
+    const reasons: Reason[] = []
+
+    if (c.lowBurst >= HIGH) reasons.push({ key: 'lowBurst', direction: 'ai', text: 'Sentence lengths are unusually uniform.' })
+    else if (signals.burstiness >= 0.5) reasons.push({ key: 'lowBurst', direction: 'human', text: 'Sentence lengths vary a lot, as they do in most human writing.' })
+
+    if (c.rep >= HIGH) reasons.push({ key: 'rep', direction: 'ai', text: 'Words are repeated more often than usual.' })
+    if (c.lowUnique >= HIGH) reasons.push({ key: 'lowUnique', direction: 'ai', text: 'The vocabulary is narrower than usual for a text of this length.' })
+    else if (c.lowUnique <= 0 && signals.length >= 40) reasons.push({ key: 'lowUnique', direction: 'human', text: 'The vocabulary is varied.' })
+
+    return {
+      value: heuristicScore(signals, weights.heuristic, lang),
+      confidence: lengthFactor(signals, lang),
+      reasons,
+    }
+  },
+}
@@ -0,0 +1,117 @@
+import { DETECTORS, type Detector, type DetectorReport, type DetectorSignals, type DetectorStatus, type Reason } from '../../../shared/api'
+import { detectgpt } from './detectgpt'
+import { heuristic } from './heuristic'
+import { lm } from './lm'
+import type { DetectorContext, DetectorDefinition, DetectorScore } from './types'
+import { zippy } from './zippy'
+
+export type { DetectorContext, DetectorDefinition, DetectorScore } from './types'
+
+/** Every detector by id. The ensemble, `signals`, `detectors` and the explanation are all built from this. */
+export const REGISTRY: { [K in Detector]: DetectorDefinition } = { heuristic, zippy, detectgpt, lm }
+
+/** In ensemble order, which is also the order they appear in responses. */
+export const REGISTERED: DetectorDefinition[] = DETECTORS.map(id => REGISTRY[id])
+
+export type DetectorRun = {
+  definition: DetectorDefinition
+  status: DetectorStatus
+  /** Null unless status is 'scored'. */
+  result: DetectorScore | null
+}
+
+export function supportsLanguage(d: DetectorDefinition, lang: DetectorContext['lang']) {
+  return !d.languages || d.languages.includes(lang)
+}
+
+/**
+ * Which detectors will score this text: those in `only` that support its
+ * language and have enough words. Known before anything is scored, so the
+ * ensemble shares are too.
+ */
+export function planDetectors(ctx: DetectorContext, only: readonly Detector[]): Record<Detector, DetectorRun> {
+  const runs = {} as Record<Detector, DetectorRun>
+  for (const d of REGISTERED) {
+    const status: DetectorStatus =
+      !only.includes(d.id) ? 'disabled' :
+      !supportsLanguage(d, ctx.lang) ? 'unsupported_language' :
+      ctx.signals.length < d.minWords ? 'too_short' :
+      'scored'
+    runs[d.id] = { definition: d, status, result: null }
+  }
+  return runs
+}
+
+/**
+ * Scores the planned detectors one after another, handing each run to `onRun`
+ * as it finishes. An aborted `signal` stops before the next detector.
+ */
+export async function runDetectors(
+  ctx: DetectorContext,
+  plan: Record<Detector, DetectorRun>,
+  onRun?: (run: DetectorRun) => Promise<void>,
+  signal?: AbortSignal
+): Promise<Record<Detector, DetectorRun>> {
+  const runs = {} as Record<Detector, DetectorRun>
+  for (const d of REGISTERED) {
+    signal?.throwIfAborted()
+    const planned = plan[d.id]
+    runs[d.id] = { ...planned, result: planned.status === 'scored' ? await d.score(ctx) : null }
+    await onRun?.(runs[d.id])
+  }
+  return runs
+}
+
+function renormalised(runs: Record<Detector, DetectorRun>, weights: Record<Detector, number>) {
+  const active = DETECTORS.filter(k => runs[k].status !== 'unsupported_language')
+  const norm = active.length === DETECTORS.length ? 1 : active.reduce((acc, k) => acc + weights[k], 0) || 1
+  return { active, norm }
+}
+
+/**
+ * Each detector's effective weight. Detectors that can't score the language
+ * are left out and the remaining weights renormalised; disabled and too-short
+ * ones keep their weight and count as 0, as calibration assumed.
+ */
+export function sharesOf(runs: Record<Detector, DetectorRun>, weights: Record<Detector, number>): Record<Detector, number> {
+  const { active, norm } = renormalised(runs, weights)
+  return Object.fromEntries(DETECTORS.map(k => [k, active.includes(k) ? weights[k] / norm : 0])) as Record<Detector, number>
+}
+
+/** The weighted mix of detector scores, renormalised as in sharesOf. */
+export function ensembleOf(runs: Record<Detector, DetectorRun>, weights: Record<Detector, number>) {
+  const values = Object.fromEntries(DETECTORS.map(k => [k, runs[k].result?.value ?? 0])) as Record<Detector, number>
+  const { active, norm } = renormalised(runs, weights)
+
+  return {
+    values,
+    shares: sharesOf(runs, weights),
+    ensemble: active.reduce((acc, k) => acc + weights[k] * values[k], 0) / norm,
+  }
+}
+
+export function detectorReport({ definition: d, status, result }: DetectorRun, share: number): DetectorReport {
+  return {
+    id: d.id,
+    version: d.version,
+    label: d.label,
+    status,
+    score: result?.value ?? 0,
+    confidence: result?.confidence ?? 0,
+    weight: share,
+    min_words: d.minWords,
+  }
+}
+
+export function detectorReports(runs: Record<Detector, DetectorRun>, shares: Record<Detector, number>): DetectorReport[] {
+  return REGISTERED.map(d => detectorReport(runs[d.id], shares[d.id]))
+}
+
+export function detectorReasons(runs: Record<Detector, DetectorRun>): Reason[] {
+  return REGISTERED.flatMap(d => runs[d.id].result?.reasons ?? [])
+}
+
+/** Scores under their `signal` keys, as reported in the response's `signals`. */
+export function detectorSignals(values: Record<Detector, number>): DetectorSignals {
+  return Object.fromEntries(REGISTERED.flatMap(d => (d.signal ? [[d.signal, values[d.id]]] : []))) as DetectorSignals
+}
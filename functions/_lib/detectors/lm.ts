@@ -0,0 +1,22 @@
+import type { Reason } from '../../../shared/api'
+import { MIN_LM_WORDS, MODEL_LANGUAGE } from '../lm'
+import { clamp01, lmScore } from '../scoring'
+import type { DetectorDefinition } from './types'
+
+/** Predictability under the bundled bigram model, which is English-only. */
+export const lm: DetectorDefinition = {
+  id: 'lm',
+  version: 1,
+  label: 'Language-model predictability',
+  signal: 'lm_score',
+  minWords: MIN_LM_WORDS,
+  languages: [MODEL_LANGUAGE],
+  score({ lm: signals }) {
+    const value = lmScore(signals)
+    const reasons: Reason[] = []
+    if (value >= 0.6) reasons.push({ key: 'lm', direction: 'ai', text: 'A language model finds the wording highly predictable.' })
+    else if (value <= 0.25) reasons.push({ key: 'lm', direction: 'human', text: 'The wording often surprises a language model.' })
+
+    return { value, confidence: clamp01(signals.tokens.length / 200), reasons }
+  },
+}
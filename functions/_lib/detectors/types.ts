@@ -0,0 +1,45 @@
+import type { Detector, DetectorSignals, LanguageCode, Reason } from '../../../shared/api'
+import type { LmSignals } from '../lm'
+import type { PerturbationConfig } from '../perturb'
+import type { Signals } from '../scoring'
+import type { DetectorWeights } from '../weights'
+
+/** Features computed once per text and shared by every detector. */
+export type DetectorContext = {
+  text: string
+  lang: LanguageCode
+  signals: Signals
+  lm: LmSignals
+  weights: DetectorWeights
+  perturbation: PerturbationConfig
+}
+
+export type DetectorScore<D = unknown> = {
+  /** 0..1, higher is more machine-like. */
+  value: number
+  /** 0..1, how far `value` can be trusted on this text. Reported, not used in the ensemble. */
+  confidence: number
+  /** Plain-language reasons for `value`, keyed like the explanation's contributions. */
+  reasons: Reason[]
+  /** Detector-specific extras, e.g. DetectGPT's curvature statistics. */
+  data?: D
+}
+
+/**
+ * One member of the ensemble. To add a signal, implement this in its own
+ * module, add it to REGISTRY and its id to DETECTORS, and give it a weight
+ * in weights.json (then recalibrate).
+ */
+export type DetectorDefinition<D = unknown> = {
+  id: Detector
+  /** Bump when a change moves this detector's scores, so stored results stay traceable. */
+  version: number
+  label: string
+  /** Key the score is reported under in the response's `signals`, if any. */
+  signal?: keyof DetectorSignals
+  /** Texts under this many words aren't scored; the detector counts as 0 with its weight kept. */
+  minWords: number
+  /** Languages it can score. For others it is left out and the remaining weights renormalised. All when absent. */
+  languages?: readonly LanguageCode[]
+  score(ctx: DetectorContext): DetectorScore<D> | Promise<DetectorScore<D>>
+}
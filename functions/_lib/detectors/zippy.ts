@@ -0,0 +1,20 @@
+import type { Reason } from '../../../shared/api'
+import { MIN_ZIPPY_WORDS, clamp01, compressionRatio, zipPyScore } from '../scoring'
+import type { DetectorDefinition } from './types'
+
+/** How well the text compresses: predictable wording compresses better. */
+export const zippy: DetectorDefinition = {
+  id: 'zippy',
+  version: 1,
+  label: 'Compressibility (Zippy)',
+  signal: 'zippy_score',
+  minWords: MIN_ZIPPY_WORDS,
+  async score({ text, signals }) {
+    const value = zipPyScore(await compressionRatio(text))
+    const reasons: Reason[] = []
+    if (value >= 0.6) reasons.push({ key: 'zippy', direction: 'ai', text: 'The text compresses unusually well, a sign of predictable wording.' })
+    else if (value <= 0.25) reasons.push({ key: 'zippy', direction: 'human', text: 'The text compresses poorly, as varied human writing tends to.' })
+
+    return { value, confidence: clamp01(signals.length / 300), reasons }
+  },
+}
@@ -0,0 +1,56 @@
+/**
+ * Longest-common-subsequence diff, used at two levels by compare mode: whole
+ * sentences first, then words inside each changed block. Common prefix and
+ * suffix are trimmed before the quadratic table is built.
+ */
+
+export type DiffOp<T> =
+  | { op: 'equal'; a: T; b: T }
+  | { op: 'delete'; a: T }
+  | { op: 'insert'; b: T }
+
+/** Above this many table cells the middle is reported as one delete + insert. */
+const MAX_CELLS = 4_000_000
+
+export function lcsDiff<T>(a: T[], b: T[], eq: (x: T, y: T) => boolean = Object.is): DiffOp<T>[] {
+  let pre = 0
+  while (pre < a.length && pre < b.length && eq(a[pre], b[pre])) pre++
+  let suf = 0
+  while (suf < a.length - pre && suf < b.length - pre && eq(a[a.length - 1 - suf], b[b.length - 1 - suf])) suf++
+
+  const head: DiffOp<T>[] = a.slice(0, pre).map((x, i) => ({ op: 'equal', a: x, b: b[i] }))
+  const tail: DiffOp<T>[] = a.slice(a.length - suf).map((x, i) => ({ op: 'equal', a: x, b: b[b.length - suf + i] }))
+  const A = a.slice(pre, a.length - suf)
+  const B = b.slice(pre, b.length - suf)
+
+  return [...head, ...middle(A, B, eq), ...tail]
+}
+
+function middle<T>(A: T[], B: T[], eq: (x: T, y: T) => boolean): DiffOp<T>[] {
+  const n = A.length
+  const m = B.length
+  if (!n || !m || (n + 1) * (m + 1) > MAX_CELLS) {
+    return [...A.map(a => ({ op: 'delete' as const, a })), ...B.map(b => ({ op: 'insert' as const, b }))]
+  }
+
+  // L[i][j] = LCS length of A[i..] and B[j..], flattened row-major.
+  const w = m + 1
+  const L = new Uint32Array((n + 1) * w)
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      L[i * w + j] = eq(A[i], B[j]) ? L[(i + 1) * w + j + 1] + 1 : Math.max(L[(i + 1) * w + j], L[i * w + j + 1])
+    }
+  }
+
+  const out: DiffOp<T>[] = []
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (eq(A[i], B[j])) out.push({ op: 'equal', a: A[i++], b: B[j++] })
+    else if (L[(i + 1) * w + j] >= L[i * w + j + 1]) out.push({ op: 'delete', a: A[i++] })
+    else out.push({ op: 'insert', b: B[j++] })
+  }
+  while (i < n) out.push({ op: 'delete', a: A[i++] })
+  while (j < m) out.push({ op: 'insert', b: B[j++] })
+  return out
+}
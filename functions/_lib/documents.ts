@@ -0,0 +1,48 @@
+import type { DocumentSummary, StoredDocument } from '../../shared/api'
+import { byUpdated, summarizeDocument } from '../../shared/documents'
+
+/**
+ * KV layout: one key per document, `doc:<owner>:<id>`, holding the full JSON.
+ * The summary rides along as key metadata so listing needs no extra reads.
+ * The owner comes from resolveOwner, so each caller has their own history.
+ */
+function prefix(owner: string) {
+  return `doc:${owner}:`
+}
+
+/** KV rejects metadata over 1024 bytes once serialised. */
+const MAX_METADATA_BYTES = 1024
+
+function metadataFor(doc: StoredDocument): DocumentSummary {
+  const summary = summarizeDocument(doc)
+  const size = () => new TextEncoder().encode(JSON.stringify(summary)).length
+  while (size() > MAX_METADATA_BYTES && summary.recent_scores.length) summary.recent_scores.shift()
+  return summary
+}
+
+export async function listDocuments(kv: KVNamespace, owner: string): Promise<DocumentSummary[]> {
+  const out: DocumentSummary[] = []
+  let cursor: string | undefined
+
+  do {
+    const page = await kv.list<DocumentSummary>({ prefix: prefix(owner), cursor })
+    for (const key of page.keys) if (key.metadata) out.push(key.metadata)
+    cursor = page.list_complete ? undefined : page.cursor
+  } while (cursor)
+
+  return out.sort(byUpdated)
+}
+
+export function getDocument(kv: KVNamespace, owner: string, id: string): Promise<StoredDocument | null> {
+  return kv.get<StoredDocument>(prefix(owner) + id, 'json')
+}
+
+export async function putDocument(kv: KVNamespace, owner: string, doc: StoredDocument): Promise<void> {
+  await kv.put(prefix(owner) + doc.id, JSON.stringify(doc), { metadata: metadataFor(doc) })
+}
+
+export async function deleteDocument(kv: KVNamespace, owner: string, id: string): Promise<boolean> {
+  if (!(await kv.get(prefix(owner) + id))) return false
+  await kv.delete(prefix(owner) + id)
+  return true
+}
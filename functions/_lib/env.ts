@@ -0,0 +1,19 @@
+/** Bindings available to every Pages Function. */
+export interface Env {
+  /** Saved documents and their scan history. Optional: without it the client keeps history in IndexedDB. */
+  HISTORY?: KVNamespace
+  /** Reference texts for the plagiarism check. Optional: without it /plagiarism and /corpus return 501. */
+  CORPUS?: KVNamespace
+  /** Author profiles for style comparison. Optional: without it /authors and options.author return 501. */
+  AUTHORS?: KVNamespace
+  /** API keys and rate-limit counters. Optional: without it the API is open and unmetered. */
+  API_KEYS?: KVNamespace
+  /** Secret for the /admin/keys routes. Optional: without it they return 403. */
+  ADMIN_KEY?: string
+  /** "false" lets requests without a key through, rate-limited per IP. Any other value, or none, requires a key. */
+  REQUIRE_API_KEY?: string
+  /** Requests per minute per IP for callers without a valid key. Defaults to DEFAULT_IP_RATE_LIMIT. */
+  IP_RATE_LIMIT?: string
+  /** Comma-separated origins allowed to call the API from a browser, or "*" (the default). */
+  ALLOWED_ORIGINS?: string
+}
@@ -0,0 +1,179 @@
+import { MAX_EVASION_FINDINGS, type EvasionFinding, type EvasionReport } from '../../shared/api'
+
+/* =======================
+   CHARACTER CLASSES
+======================= */
+
+/** Cyrillic, Greek and Armenian letters that render like a Latin one. */
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'е': 'e', 'ԁ': 'd', 'һ': 'h', 'і': 'i', 'ј': 'j', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o',
+  'р': 'p', 'ԛ': 'q', 'ѕ': 's', 'с': 'c', 'т': 't', 'у': 'y', 'ԝ': 'w', 'х': 'x',
+  'А': 'A', 'В': 'B', 'Е': 'E', 'І': 'I', 'Ј': 'J', 'К': 'K', 'М': 'M', 'Н': 'H', 'О': 'O', 'Р': 'P',
+  'Ѕ': 'S', 'С': 'C', 'Т': 'T', 'У': 'Y', 'Х': 'X',
+  // Greek
+  'α': 'a', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'υ': 'u', 'χ': 'x',
+  'Α': 'A', 'Β': 'B', 'Ε': 'E', 'Ζ': 'Z', 'Η': 'H', 'Ι': 'I', 'Κ': 'K', 'Μ': 'M', 'Ν': 'N', 'Ο': 'O',
+  'Ρ': 'P', 'Τ': 'T', 'Υ': 'Y', 'Χ': 'X',
+  // Armenian
+  'օ': 'o', 'ս': 'u',
+}
+
+/** Zero-width and formatting characters that print as nothing. */
+const INVISIBLE = /[\u00AD\u180E\u200B-\u200D\u2060-\u2064\uFEFF]/u
+
+/** Spaces other than the ordinary one, tab and newline; the ideographic space is normal in Chinese and Japanese. */
+const ODD_SPACE = /[\u00A0\u1680\u2000-\u200A\u202F\u205F]/u
+
+/** Mathematical alphanumerics and fullwidth Latin letters and digits, which NFKC folds to ASCII. */
+const STYLED = /[\u{1D400}-\u{1D7FF}\uFF10-\uFF19\uFF21-\uFF3A\uFF41-\uFF5A]/u
+
+/** Scripts that are told apart when looking for mixed-script words. */
+const SCRIPTS = ['Latin', 'Cyrillic', 'Greek', 'Armenian'] as const
+const SCRIPT_TESTS = SCRIPTS.map(s => new RegExp(`\\p{Script=${s}}`, 'u'))
+
+function scriptOf(ch: string) {
+  const i = SCRIPT_TESTS.findIndex(re => re.test(ch))
+  return i < 0 ? null : SCRIPTS[i]
+}
+
+/**
+ * Shorter Greek words, and shorter words of styled letters, are symbols in
+ * Latin text (an α helix, the κ chain, 𝑥 + 𝑦) rather than disguised Latin.
+ * A lone Cyrillic а has no such use, so it is still read as the Latin letter.
+ */
+const MIN_SYMBOL_WORD = 3
+
+/** Runs of letters, digits and the invisible characters wedged between them. */
+const WORD = /[\p{L}\p{M}\p{N}\u00AD\u180E\u200B-\u200D\u2060-\u2064\uFEFF]+/gu
+
+/* =======================
+   NORMALISATION
+======================= */
+
+export type Normalized = {
+  /** The text with look-alikes mapped to Latin, invisible characters removed and odd spaces made plain. */
+  text: string
+  evasion: EvasionReport
+}
+
+/** How many obvious tampering marks make the evasion score 1 - 1/e. */
+const TAMPER_SCALE = 4
+/** Shares of the spaces between words that are odd spaces: below the first is normal, at the second it is certain. */
+const ODD_SPACE_FLOOR = 0.05
+const ODD_SPACE_FULL = 0.3
+
+/**
+ * A no-break space is ordinary before French punctuation (« », ; : ! ?) and
+ * as a thousands separator, and a zero-width joiner inside emoji sequences.
+ */
+function ordinary(raw: string, i: number, ch: string) {
+  const prev = raw[i - 1] ?? ''
+  const next = raw[i + 1] ?? ''
+  if (ch === '\u00A0' || ch === '\u202F') return /[«\d]/.test(prev) && /[\d»;:!?%]/.test(next) || /[;:!?»%]/.test(next) || prev === '«'
+  if (ch === '\u200D') return /\p{Extended_Pictographic}|\uFE0F/u.test(raw.slice(Math.max(0, i - 2), i))
+  if (ch === '\uFEFF') return i === 0
+  return false
+}
+
+/**
+ * Undoes what "humanizer" tools do to slip past detectors before anything is
+ * scored: look-alike letters from other scripts inside Latin words (or whole
+ * words of them in Latin text, other than Greek symbols), invisible characters
+ * and odd spaces. The
+ * report counts each kind with its offsets into `raw`, and scores how sure it
+ * is that the text was tampered with. Ordinary uses of the same characters,
+ * such as a no-break space before a French colon, are normalised but not counted.
+ */
+export function normalizeText(raw: string): Normalized {
+  const letters = [...raw.matchAll(/\p{L}/gu)].map(m => scriptOf(m[0]))
+  const latin = letters.filter(s => s === 'Latin').length
+  const mostlyLatin = latin > 0 && latin >= letters.filter(s => s && s !== 'Latin').length
+
+  // Replacements by offset into raw; '' removes the character.
+  const replace = new Map<number, string>()
+  const findings: EvasionFinding[] = []
+  const counts = { homoglyphs: 0, invisible: 0, mixed_script_words: 0, unusual_whitespace: 0 }
+  let mixedOnly = 0
+
+  for (const m of raw.matchAll(WORD)) {
+    const chars = [...m[0].matchAll(/./gsu)].map(c => ({ ch: c[0], at: m.index! + c.index! }))
+    const scripts = new Set(chars.map(c => scriptOf(c.ch)).filter(Boolean))
+    const hasLatin = scripts.has('Latin')
+    const allLookAlike = chars.every(c => !/\p{L}/u.test(c.ch) || scriptOf(c.ch) === 'Latin' || CONFUSABLES[c.ch])
+    const symbol = chars.filter(c => /\p{L}/u.test(c.ch)).length < MIN_SYMBOL_WORD
+    let swapped = 0
+
+    for (const { ch, at } of chars) {
+      const latinForm =
+        CONFUSABLES[ch] && scriptOf(ch) !== 'Latin' && (hasLatin || (mostlyLatin && allLookAlike && !(symbol && scripts.has('Greek')))) ? CONFUSABLES[ch] :
+        STYLED.test(ch) && mostlyLatin && (hasLatin || !symbol) ? ch.normalize('NFKC') :
+        null
+      if (latinForm) {
+        replace.set(at, latinForm)
+        counts.homoglyphs++
+        swapped++
+        findings.push({ kind: 'homoglyph', start: at, end: at + ch.length, text: ch, replacement: latinForm })
+      }
+    }
+
+    if (scripts.size > 1) {
+      counts.mixed_script_words++
+      if (!swapped) mixedOnly++
+      findings.push({ kind: 'mixed_script', start: m.index!, end: m.index! + m[0].length, text: m[0] })
+    }
+  }
+
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i]
+    if (INVISIBLE.test(ch)) {
+      replace.set(i, '')
+      if (ordinary(raw, i, ch)) continue
+      counts.invisible++
+      findings.push({ kind: 'invisible', start: i, end: i + 1, text: ch, replacement: '' })
+    } else if (ODD_SPACE.test(ch)) {
+      replace.set(i, ' ')
+      if (ordinary(raw, i, ch)) continue
+      counts.unusual_whitespace++
+      findings.push({ kind: 'whitespace', start: i, end: i + 1, text: ch, replacement: ' ' })
+    }
+  }
+
+  let text = raw
+  if (replace.size) {
+    let out = ''
+    for (let i = 0; i < raw.length;) {
+      const cp = String.fromCodePoint(raw.codePointAt(i)!)
+      out += replace.get(i) ?? cp
+      i += cp.length
+    }
+    text = out
+  }
+
+  const gaps = Math.max(1, (raw.match(/[\p{L}\p{N}]+/gu) ?? []).length - 1)
+  const tampered = 1 - Math.exp(-(counts.homoglyphs + counts.invisible + mixedOnly) / TAMPER_SCALE)
+  const spacing = Math.min(1, Math.max(0, (counts.unusual_whitespace / gaps - ODD_SPACE_FLOOR) / (ODD_SPACE_FULL - ODD_SPACE_FLOOR)))
+
+  return {
+    text,
+    evasion: {
+      ...counts,
+      score: 1 - (1 - tampered) * (1 - spacing),
+      findings: findings.sort((a, b) => a.start - b.start || a.end - b.end).slice(0, MAX_EVASION_FINDINGS),
+    },
+  }
+}
+
+/** Share of the remaining room below 1 that evasion adds to ai_probability at a score of 1. */
+export const EVASION_WEIGHT = 0.8
+
+/** Tampering is evidence in itself: the score moves toward 1 by EVASION_WEIGHT × the evasion score. */
+export function applyEvasion(probability: number, evasion: EvasionReport) {
+  return probability + (1 - probability) * EVASION_WEIGHT * evasion.score
+}
+
+/** The report for a slice of the text, with its offsets moved by `offset`. */
+export function shiftEvasion(evasion: EvasionReport, offset: number): EvasionReport {
+  if (!offset) return evasion
+  return { ...evasion, findings: evasion.findings.map(f => ({ ...f, start: f.start + offset, end: f.end + offset })) }
+}
@@ -0,0 +1,112 @@
+import type { Contribution, Explanation, Reason, RuleHit } from '../../shared/api'
+import type { Analysis } from './analyze'
+import { detectorReasons, REGISTRY } from './detectors'
+import { applyEvasion, EVASION_WEIGHT } from './evasion'
+import { languageInfo } from './lang'
+import { lengthDamping } from './scoring'
+import { ENSEMBLE_MEMBERS, HEURISTIC_COMPONENTS, type DetectorWeights, type HeuristicComponent } from './weights'
+
+const COMPONENT_LABELS: Record<HeuristicComponent, string> = {
+  lowBurst: 'Uniform sentence lengths',
+  rep: 'Repetition',
+  lowUnique: 'Narrow vocabulary',
+  punctMid: 'Typical punctuation rate',
+  wordLenMid: 'Typical word length',
+}
+
+/**
+ * Splits ai_probability into the terms that produced it. The heuristic detector
+ * is expanded into its components, each scaled by the heuristic's ensemble share
+ * and the length damping. A non-identity calibration is spread over the terms in
+ * proportion, so the contributions still add up to the reported score. Evasion
+ * adds what it raised the calibrated score by, before any rules.
+ */
+export function explain(a: Analysis, weights: DetectorWeights, rules: RuleHit[]): Explanation {
+  const damping = lengthDamping(a.signals, a.language.code)
+  const scale = a.scores.ensemble > 0 ? a.scores.calibrated / a.scores.ensemble : 1
+
+  const heuristic: Contribution[] = HEURISTIC_COMPONENTS.map(k => ({
+    key: k,
+    kind: 'heuristic',
+    label: COMPONENT_LABELS[k],
+    value: a.components[k],
+    weight: weights.heuristic[k],
+    contribution: scale * a.shares.heuristic * damping * weights.heuristic[k] * a.components[k],
+  }))
+  const detectors: Contribution[] = ENSEMBLE_MEMBERS.filter(k => k !== 'heuristic').map(k => ({
+    key: k,
+    kind: 'detector',
+    label: REGISTRY[k].label,
+    value: a.scores[k],
+    weight: a.shares[k],
+    contribution: scale * a.shares[k] * a.scores[k],
+  }))
+  const matched: Contribution[] = rules.filter(r => r.hits).map(r => ({
+    key: `rule:${r.label}`,
+    kind: 'rule',
+    label: r.label,
+    value: 1,
+    weight: r.weight,
+    contribution: r.weight,
+  }))
+
+  const raised = applyEvasion(a.scores.calibrated, a.evasion) - a.scores.calibrated
+  const evasion: Contribution[] = raised > 0
+    ? [{ key: 'evasion', kind: 'evasion', label: 'Evasion attempts', value: a.evasion.score, weight: EVASION_WEIGHT, contribution: raised }]
+    : []
+
+  const contributions = [...heuristic, ...detectors, ...evasion, ...matched]
+    .map(c => ({ ...c, contribution: round(c.contribution) }))
+    .sort((x, y) => Math.abs(y.contribution) - Math.abs(x.contribution))
+
+  return {
+    length_factor: round(damping),
+    contributions,
+    reasons: reasons(a, contributions, damping, rules),
+  }
+}
+
+function round(n: number) {
+  return Math.round(n * 10000) / 10000
+}
+
+/* =======================
+   REASONS
+======================= */
+
+function reasons(a: Analysis, ranked: Contribution[], damping: number, rules: RuleHit[]): Reason[] {
+  const out: Reason[] = detectorReasons(a.runs)
+  const add = (key: string, direction: Reason['direction'], text: string) => out.push({ key, direction, text })
+
+  const tricks = evasionSummary(a.evasion)
+  if (tricks) add('evasion', 'ai', `The text looks doctored to evade detection: ${tricks}. They were undone before scoring.`)
+
+  for (const r of rules.filter(r => r.hits)) {
+    const pts = Math.round(r.weight * 100)
+    add(`rule:${r.label}`, r.weight >= 0 ? 'ai' : 'human', `Rule "${r.label}" matched ${r.hits} time${r.hits === 1 ? '' : 's'} (${pts >= 0 ? '+' : ''}${pts} points).`)
+  }
+
+  // Ranked by the size of the contribution each reason explains.
+  const rank = new Map(ranked.map((r, i) => [r.key, i]))
+  out.sort((x, y) => (rank.get(x.key) ?? 0) - (rank.get(y.key) ?? 0))
+
+  if (damping < 0.9) {
+    add('length', 'neutral', `The text is short, so the heuristic score was damped to ${Math.round(damping * 100)}%; longer samples give firmer results.`)
+  }
+  for (const { definition: d, status } of Object.values(a.runs)) {
+    if (status !== 'unsupported_language') continue
+    const covered = (d.languages ?? []).map(code => languageInfo(code).name).join(', ')
+    add('language', 'neutral', `${d.label} only covers ${covered}, so it was left out for ${a.language.name}.`)
+  }
+  return out
+}
+
+function evasionSummary(e: Analysis['evasion']) {
+  const parts: [number, string, string][] = [
+    [e.homoglyphs, 'look-alike letter', 'look-alike letters'],
+    [e.invisible, 'invisible character', 'invisible characters'],
+    [e.mixed_script_words, 'word mixing alphabets', 'words mixing alphabets'],
+    [e.unusual_whitespace, 'unusual space', 'unusual spaces'],
+  ]
+  return e.score > 0 ? parts.filter(([n]) => n).map(([n, one, many]) => `${n} ${n === 1 ? one : many}`).join(', ') : ''
+}
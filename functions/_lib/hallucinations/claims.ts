@@ -0,0 +1,204 @@
+import type { ClaimKind } from '../../../shared/api'
+import type { SentenceSpan } from '../scoring'
+import { STOPWORDS } from '../writing/lexicon'
+
+/** A number, date, name or quote found in a sentence, with offsets into the whole text. */
+export type Fact = {
+  kind: ClaimKind
+  start: number
+  end: number
+  text: string
+  /** Comparable form: the value for numbers, YYYY-MM-DD (or a prefix of it) for dates, normalised words otherwise. */
+  key: string
+  /** Numbers only: what is counted ('%', a currency sign or the next word), so only like values are compared. */
+  unit?: string
+}
+
+/* =======================
+   DATES
+======================= */
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+/** Capitalised only, so "may" the verb is left alone. */
+const MONTH = '(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sept?(?:ember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?'
+const DAY = '\\d{1,2}(?:st|nd|rd|th)?'
+const YEAR = '(?:1[5-9]|20)\\d{2}'
+
+const DATE = new RegExp(
+  `(?<![\\p{sc=Latin}\\p{N}$€£¥.,-])(?:` +
+    [
+      `\\d{4}-\\d{2}-\\d{2}`,
+      `${MONTH}\\s+${DAY},?\\s+\\d{4}`,
+      `${DAY}\\s+(?:of\\s+)?${MONTH},?\\s+\\d{4}`,
+      `${MONTH},?\\s+\\d{4}`,
+      `${MONTH}\\s+${DAY}`,
+      YEAR,
+    ].join('|') +
+    `)(?![\\p{sc=Latin}\\p{N}%]|[.,]\\d)`,
+  'gu'
+)
+
+const WEEKDAYS = new Set(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'])
+const FULL_MONTHS = new Set([
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
+])
+
+/** "March 3rd, 2019" → "2019-03-03"; "March 2019" → "2019-03"; "March 3" → "--03-03". */
+function dateKey(text: string) {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text
+  const year = text.match(/\d{4}/)?.[0]
+  const monthIndex = MONTH_NAMES.findIndex(m => text.toLowerCase().includes(m))
+  const month = monthIndex >= 0 ? String(monthIndex + 1).padStart(2, '0') : ''
+  const day = text.replace(/\d{4}/, '').match(/\d{1,2}/)?.[0]?.padStart(2, '0') ?? ''
+
+  const md = month ? `-${month}${day ? `-${day}` : ''}` : ''
+  return year ? `${year}${md}` : `-${md}`
+}
+
+/* =======================
+   NUMBERS
+======================= */
+
+const SCALES: Record<string, number> = { thousand: 1e3, million: 1e6, billion: 1e9, trillion: 1e12 }
+
+/** Digits next to Latin letters ("3rd", "A4") aren't amounts; next to Chinese or Japanese ones ("1400万人") they are. */
+const NUMBER = new RegExp(
+  '(?<![\\p{sc=Latin}\\p{N}.,])([$€£¥])?(\\d{1,3}(?:,\\d{3})+|\\d+)(\\.\\d+)?' +
+    '(?:\\s+(thousand|million|billion|trillion)\\b)?(\\s?%|\\s+per\\s?cent\\b)?' +
+    '(?![\\p{sc=Latin}\\p{N}]|[.,]\\d)',
+  'gu'
+)
+
+const NEXT_WORD = /^\s+(\p{L}[\p{L}'’-]*)/u
+
+/** The counted noun after a number, roughly singular: "12 employees" and "1 employee" compare. */
+function unitAfter(rest: string) {
+  const word = rest.match(NEXT_WORD)?.[1]?.toLowerCase()
+  if (!word || STOPWORDS.has(word)) return ''
+  return word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word
+}
+
+/* =======================
+   NAMES & QUOTES
+======================= */
+
+const NAME_WORD = "\\p{Lu}[\\p{L}\\p{M}]*(?:['’-]\\p{L}+)*"
+const CONNECTOR = '(?:of|the|de|del|la|le|van|von|der|da|du|al|bin)'
+const NAME = new RegExp(`(?<![\\p{L}\\p{N}])${NAME_WORD}(?:(?:\\s+${CONNECTOR}){0,2}\\s+${NAME_WORD})*`, 'gu')
+
+const QUOTE = /"([^"\n]+)"|“([^”\n]+)”/g
+const MIN_QUOTE_WORDS = 3
+
+/** Lower-cased words joined by single spaces, possessives dropped; also used to search the source. */
+export function normalizeWords(text: string) {
+  return text.toLowerCase().replace(/['’]s(?![\p{L}\p{N}])/gu, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+}
+
+/**
+ * Capitalised runs that look like names. Leading function words ("The", "In")
+ * are dropped. At the start of a sentence a capital proves nothing, so a word
+ * there only counts if knownNames vouches for it: "Yesterday Apple" becomes
+ * "Apple".
+ */
+function nameMatches(sentence: SentenceSpan, known: Set<string> | null) {
+  const out: { start: number; end: number }[] = []
+  for (const m of sentence.text.matchAll(NAME)) {
+    let start = sentence.start + m.index!
+    let words = m[0].split(/(\s+)/)
+    const leading = (w: string) =>
+      STOPWORDS.has(w.toLowerCase()) || (!!known && start === sentence.start && words.length > 1 && !known.has(w.toLowerCase()))
+    while (words.length && leading(words[0])) {
+      start += words[0].length + (words[1]?.length ?? 0)
+      words = words.slice(2)
+    }
+    if (!words.length) continue
+
+    let text = words.join('')
+    if (/['’]s$/.test(text)) text = text.slice(0, -2)
+    const key = text.toLowerCase()
+    const single = words.length === 1
+    if (single && (key.length < 2 || WEEKDAYS.has(key) || FULL_MONTHS.has(key))) continue
+    if (known && single && start === sentence.start && !known.has(key)) continue
+    out.push({ start, end: start + text.length })
+  }
+  return out
+}
+
+/** Words that often open a sentence on their own and are never names. */
+const OPENERS = new Set([
+  'however', 'moreover', 'furthermore', 'additionally', 'overall', 'finally', 'first', 'second', 'third', 'today',
+  'yesterday', 'tomorrow', 'meanwhile', 'instead', 'therefore', 'thus', 'indeed', 'ultimately', 'consequently',
+  'similarly', 'likewise', 'nevertheless', 'nonetheless', 'besides', 'hence', 'later', 'next', 'yes', 'please',
+])
+
+/**
+ * Words that can be trusted as parts of names: those capitalised other than at
+ * the start of a sentence, and those that open two or more sentences but are
+ * never written in lower case.
+ */
+export function knownNames(docs: { raw: string; sentences: SentenceSpan[] }[]) {
+  const known = new Set<string>()
+  const openers = new Map<string, number>()
+  const lower = new Set<string>()
+
+  for (const { raw, sentences } of docs) {
+    for (const m of raw.matchAll(/(?<![\p{L}\p{N}])\p{Ll}[\p{L}'’-]*/gu)) lower.add(m[0])
+    for (const s of sentences) {
+      for (const n of nameMatches(s, null)) {
+        const words = raw.slice(n.start, n.end).toLowerCase().split(/\s+/)
+        if (n.start === s.start) {
+          openers.set(words[0], (openers.get(words[0]) ?? 0) + 1)
+          words.shift()
+        }
+        for (const w of words) known.add(w)
+      }
+    }
+  }
+  for (const [w, n] of openers) if (n >= 2 && !lower.has(w) && !OPENERS.has(w)) known.add(w)
+  return known
+}
+
+/* =======================
+   EXTRACTION
+======================= */
+
+const overlaps = (a: { start: number; end: number }, b: { start: number; end: number }) => a.start < b.end && b.start < a.end
+
+/**
+ * The facts in one sentence of `raw`, in text order. Quotes win over anything
+ * inside them, dates over the numbers in them and over month names.
+ */
+export function extractFacts(raw: string, sentence: SentenceSpan, known: Set<string>): Fact[] {
+  const base = sentence.start
+  const facts: Fact[] = []
+  const taken = (span: { start: number; end: number }) => facts.some(f => overlaps(f, span))
+
+  for (const m of sentence.text.matchAll(QUOTE)) {
+    const inner = m[1] ?? m[2]
+    if (inner.trim().split(/\s+/).length < MIN_QUOTE_WORDS) continue
+    facts.push({ kind: 'quote', start: base + m.index!, end: base + m.index! + m[0].length, text: m[0], key: normalizeWords(inner) })
+  }
+
+  for (const m of sentence.text.matchAll(DATE)) {
+    const span = { start: base + m.index!, end: base + m.index! + m[0].length }
+    if (!taken(span)) facts.push({ kind: 'date', ...span, text: m[0], key: dateKey(m[0]) })
+  }
+
+  for (const m of sentence.text.matchAll(NUMBER)) {
+    const span = { start: base + m.index!, end: base + m.index! + m[0].length }
+    if (taken(span)) continue
+    const [, currency, digits, decimals, scale, percent] = m
+    const value = Number(digits.replace(/,/g, '') + (decimals ?? '')) * (scale ? SCALES[scale.toLowerCase()] : 1)
+    const unit = percent ? '%' : currency ?? unitAfter(raw.slice(span.end, sentence.end))
+    facts.push({ kind: 'number', ...span, text: m[0], key: String(Math.round(value * 1e6) / 1e6), unit })
+  }
+
+  for (const span of nameMatches(sentence, known)) {
+    if (taken(span)) continue
+    const text = raw.slice(span.start, span.end)
+    facts.push({ kind: 'entity', ...span, text, key: normalizeWords(text) })
+  }
+
+  return facts.sort((a, b) => a.start - b.start)
+}
@@ -0,0 +1,215 @@
+import {
+  CLAIM_STATUSES,
+  type ClaimAnnotation,
+  type ClaimConflict,
+  type ClaimStatus,
+  type HallucinationsResponse,
+  type LanguageCode,
+} from '../../../shared/api'
+import { splitSentenceSpans, tokenizeWords, type SentenceSpan } from '../scoring'
+import { STOPWORDS } from '../writing/lexicon'
+import { extractFacts, knownNames, normalizeWords, type Fact } from './claims'
+
+/** A claim is supported when this share of its content words is in one source sentence, and every fact is in the source. */
+export const SUPPORT_OVERLAP = 0.5
+
+export type HallucinationsResult = Omit<HallucinationsResponse, 'api_version' | 'language'>
+
+type Sentence = SentenceSpan & { facts: Fact[]; words: Set<string> }
+
+/** What the facts are looked up in: the normalised source text, and its number and date keys. */
+type SourceIndex = {
+  text: string
+  numbers: Set<string>
+  dates: string[]
+  sentences: Sentence[]
+}
+
+/**
+ * Per-sentence claim checks for generated `text`. Sentences with a number,
+ * date, name or quote are claims. With a `source`, each fact is looked up in
+ * it and the claim is matched to its closest source sentence by word overlap;
+ * a number or date that differs from that sentence's is a contradiction. With
+ * or without one, the same name given different amounts of the same thing in
+ * two sentences contradicts itself. Everything is lexical and runs offline.
+ */
+export function checkClaims(text: string, source: string | undefined, lang: LanguageCode): HallucinationsResult {
+  const spans = splitSentenceSpans(text, lang)
+  const sourceSpans = source ? splitSentenceSpans(source, lang) : []
+  const known = knownNames([{ raw: text, sentences: spans }, ...(source ? [{ raw: source, sentences: sourceSpans }] : [])])
+
+  const claims = sentences(text, spans, known).filter(c => c.facts.length)
+  const index = source ? indexSource(source, sentences(source, sourceSpans, known)) : null
+  const internal = internalConflicts(claims)
+
+  const annotations = claims.map((c, i) => annotate(c, internal[i], index))
+  const counts = Object.fromEntries(CLAIM_STATUSES.map(k => [k, annotations.filter(a => a.status === k).length])) as Record<ClaimStatus, number>
+
+  return { has_source: !!source, counts, claims: annotations }
+}
+
+function sentences(raw: string, spans: SentenceSpan[], known: Set<string>): Sentence[] {
+  return spans.map(s => ({ ...s, facts: extractFacts(raw, s, known), words: contentWords(s.text) }))
+}
+
+function contentWords(text: string) {
+  return new Set(tokenizeWords(text).filter(w => !STOPWORDS.has(w)))
+}
+
+/* =======================
+   SOURCE
+======================= */
+
+function indexSource(source: string, sentences: Sentence[]): SourceIndex {
+  const facts = sentences.flatMap(s => s.facts)
+  return {
+    text: ` ${normalizeWords(source)} `,
+    numbers: new Set(facts.filter(f => f.kind === 'number').map(f => f.key)),
+    dates: facts.filter(f => f.kind === 'date').map(f => f.key),
+    sentences,
+  }
+}
+
+/** "2019" is covered by "2019-03-03"; "--03-03" (no year) by any year's March 3. */
+function sameDate(claim: string, source: string) {
+  return claim.startsWith('--') ? source.endsWith(claim.slice(1)) : source.startsWith(claim)
+}
+
+function inSource(f: Fact, index: SourceIndex) {
+  switch (f.kind) {
+    case 'number':
+      return index.numbers.has(f.key)
+    case 'date':
+      return index.dates.some(k => sameDate(f.key, k))
+    case 'entity':
+    case 'quote':
+      return index.text.includes(` ${f.key} `)
+  }
+}
+
+/** The source sentence sharing the most content words with `claim`, and that share. */
+function closestSentence(claim: Sentence, index: SourceIndex) {
+  let best: Sentence | null = null
+  let shared = 0
+  for (const s of index.sentences) {
+    let n = 0
+    for (const w of claim.words) if (s.words.has(w)) n++
+    if (n > shared) {
+      best = s
+      shared = n
+    }
+  }
+  return { sentence: best, support: claim.words.size ? shared / claim.words.size : 0 }
+}
+
+/** Numbers with the same unit, or dates, in the matching source sentence that disagree with a fact the source lacks. */
+function sourceConflicts(facts: Fact[], found: boolean[], evidence: Sentence): ClaimConflict[] {
+  const out: ClaimConflict[] = []
+  facts.forEach((f, i) => {
+    if (found[i]) return
+    const other = evidence.facts.find(e =>
+      f.kind === 'number' ? e.kind === 'number' && e.unit === f.unit && e.key !== f.key :
+      f.kind === 'date' ? e.kind === 'date' && !sameDate(f.key, e.key) && !sameDate(e.key, f.key) :
+      false
+    )
+    if (other) out.push(conflict('source', other))
+  })
+  return out
+}
+
+/* =======================
+   CONTRADICTIONS
+======================= */
+
+function conflict(where: ClaimConflict['in'], f: Fact): ClaimConflict {
+  return { in: where, start: f.start, end: f.end, text: f.text }
+}
+
+/** Each counted number with the name it is about: the nearest one before it in the sentence, else the nearest after. */
+function subjectNumbers(facts: Fact[]) {
+  const names = facts.filter(f => f.kind === 'entity')
+  if (!names.length) return []
+  return facts
+    .filter(f => f.kind === 'number' && f.unit)
+    .map(f => ({ name: (names.filter(n => n.start < f.start).pop() ?? names.find(n => n.start > f.start)!).key, fact: f }))
+}
+
+/**
+ * The same name with a different amount of the same unit in another sentence.
+ * Sentences that mention different dates are not compared, since values
+ * legitimately change over time.
+ */
+function internalConflicts(claims: Sentence[]): ClaimConflict[][] {
+  const out = claims.map((): ClaimConflict[] => [])
+  const seen = new Map<string, { claim: number; fact: Fact; dates: string }[]>()
+
+  claims.forEach((c, i) => {
+    const dates = c.facts.filter(f => f.kind === 'date').map(f => f.key).sort().join(' ')
+    for (const { name, fact } of subjectNumbers(c.facts)) {
+      const key = `${name}\u0000${fact.unit}`
+      const earlier = seen.get(key) ?? []
+      for (const e of earlier) {
+        if (e.claim === i || e.dates !== dates || e.fact.key === fact.key) continue
+        out[i].push(conflict('text', e.fact))
+        out[e.claim].push(conflict('text', fact))
+      }
+      seen.set(key, [...earlier, { claim: i, fact, dates }])
+    }
+  })
+  return out.map(list => list.filter((c, i) => list.findIndex(o => o.start === c.start) === i))
+}
+
+/* =======================
+   ANNOTATIONS
+======================= */
+
+function annotate(c: Sentence, internal: ClaimConflict[], index: SourceIndex | null): ClaimAnnotation {
+  const found = c.facts.map(f => (index ? inSource(f, index) : null))
+  const facts = c.facts.map((f, i) => ({ kind: f.kind, start: f.start, end: f.end, text: f.text, in_source: found[i] }))
+
+  if (!index) {
+    return {
+      start: c.start,
+      end: c.end,
+      text: c.text,
+      status: internal.length ? 'contradicted' : 'unverified',
+      facts,
+      support: null,
+      conflicts: internal,
+      message: internal.length ? contradiction(internal[0]) : 'No source to check against.',
+    }
+  }
+
+  const { sentence, support } = closestSentence(c, index)
+  const conflicts = [
+    ...(sentence && support >= SUPPORT_OVERLAP ? sourceConflicts(c.facts, found as boolean[], sentence) : []),
+    ...internal,
+  ]
+  const missing = c.facts.filter((_, i) => !found[i])
+  const status: ClaimStatus =
+    conflicts.length ? 'contradicted' :
+    !missing.length && support >= SUPPORT_OVERLAP ? 'supported' :
+    'unsupported'
+
+  return {
+    start: c.start,
+    end: c.end,
+    text: c.text,
+    status,
+    facts,
+    support: Math.round(support * 1000) / 1000,
+    evidence: sentence ? { start: sentence.start, end: sentence.end } : undefined,
+    conflicts,
+    message:
+      status === 'contradicted' ? contradiction(conflicts[0]) :
+      status === 'supported' ? 'Backed by the source.' :
+      missing.length ? `Not in the source: ${missing.map(f => `“${f.text}”`).join(', ')}.` :
+      'Its details are in the source, but no source sentence says this.',
+  }
+}
+
+function contradiction(c: ClaimConflict) {
+  return c.in === 'source'
+    ? `The source gives “${c.text}” here.`
+    : `Elsewhere the text gives “${c.text}” for the same thing.`
+}
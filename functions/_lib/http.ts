@@ -0,0 +1,86 @@
+import { API_VERSION, MAX_BODY_BYTES, type ApiError, type ApiErrorResponse, type ErrorCode } from '../../shared/api'
+import type { Env } from './env'
+
+const ERROR_STATUS: Record<ErrorCode, number> = {
+  invalid_json: 400,
+  invalid_request: 400,
+  missing_text: 400,
+  unsupported_mode: 400,
+  duplicate_id: 400,
+  too_many_documents: 413,
+  text_too_long: 413,
+  body_too_large: 413,
+  not_found: 404,
+  storage_unavailable: 501,
+  unauthorized: 401,
+  forbidden: 403,
+  rate_limited: 429,
+  quota_exceeded: 429,
+  internal_error: 500,
+}
+
+/** CORS headers are added by the API middleware, see functions/api/_middleware.ts. */
+export function json(data: any, status = 200) {
+  return new Response(JSON.stringify(data, null, 2), {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  })
+}
+
+export function errorJson(error: ApiError, status = ERROR_STATUS[error.code]) {
+  const body: ApiErrorResponse = { api_version: API_VERSION, error }
+  return json(body, status)
+}
+
+/**
+ * Parse the request body, or return the error response to send back. Bodies
+ * over `maxBytes` are refused from Content-Length when it is sent, and after
+ * reading otherwise.
+ */
+export async function readJson(
+  request: Request,
+  maxBytes = MAX_BODY_BYTES
+): Promise<{ ok: true; body: unknown } | { ok: false; response: Response }> {
+  const tooLarge = () => ({
+    ok: false as const,
+    response: errorJson({ code: 'body_too_large', message: `Request body too large (max ${maxBytes.toLocaleString('en-US')} bytes)` }),
+  })
+
+  if (Number(request.headers.get('Content-Length')) > maxBytes) return tooLarge()
+  let bytes: ArrayBuffer
+  try {
+    bytes = await request.arrayBuffer()
+  } catch {
+    return { ok: false, response: errorJson({ code: 'invalid_json', message: 'Invalid JSON' }) }
+  }
+  if (bytes.byteLength > maxBytes) return tooLarge()
+
+  try {
+    return { ok: true, body: JSON.parse(new TextDecoder().decode(bytes)) }
+  } catch {
+    return { ok: false, response: errorJson({ code: 'invalid_json', message: 'Invalid JSON' }) }
+  }
+}
+
+type KvBinding = { [K in keyof Env]-?: Env[K] extends KVNamespace | undefined ? K : never }[keyof Env]
+
+const STORAGE: Record<KvBinding, string> = {
+  HISTORY: 'Server-side history',
+  CORPUS: 'The plagiarism corpus',
+  AUTHORS: 'Author profiles',
+  API_KEYS: 'API key storage',
+}
+
+export function storageUnavailable(binding: KvBinding = 'HISTORY') {
+  return errorJson({
+    code: 'storage_unavailable',
+    message: `${STORAGE[binding]} is not configured (no ${binding} binding)`,
+  })
+}
+
+/** A copy of `response` with `headers` set; responses from `next()` can't be changed in place. */
+export function withHeaders(response: Response, headers: Record<string, string>) {
+  const out = new Response(response.body, response)
+  for (const [k, v] of Object.entries(headers)) out.headers.set(k, v)
+  return out
+}
@@ -0,0 +1,101 @@
+import type { ApiKey, ApiKeyCreateRequest } from '../../shared/api'
+
+/**
+ * KV layout: `key:<id>` holds each key's record plus the SHA-256 of its
+ * secret; the record without the hash rides along as metadata for listing.
+ * Secrets look like `ucd_<id>_<64 hex>`, so a request's key is found with one
+ * read and checked against the stored hash.
+ */
+const PREFIX = 'key:'
+const SECRET = /^ucd_([0-9a-f]{12})_([0-9a-f]{64})$/
+export const KEY_ID = /^[0-9a-f]{12}$/
+
+type StoredKey = ApiKey & { hash: string }
+
+function hex(bytes: ArrayBuffer | Uint8Array) {
+  return [...new Uint8Array(bytes)].map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function randomHex(bytes: number) {
+  return hex(crypto.getRandomValues(new Uint8Array(bytes)))
+}
+
+async function sha256(s: string) {
+  return hex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(s)))
+}
+
+/** Compares in time independent of where the strings first differ. */
+export function safeEqual(a: string, b: string) {
+  let diff = a.length ^ b.length
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0)
+  return diff === 0
+}
+
+function put(kv: KVNamespace, { hash, ...key }: StoredKey) {
+  return kv.put(PREFIX + key.id, JSON.stringify({ ...key, hash }), { metadata: key })
+}
+
+export async function listKeys(kv: KVNamespace): Promise<ApiKey[]> {
+  const out: ApiKey[] = []
+  let cursor: string | undefined
+
+  do {
+    const page = await kv.list<ApiKey>({ prefix: PREFIX, cursor })
+    for (const key of page.keys) if (key.metadata) out.push(key.metadata)
+    cursor = page.list_complete ? undefined : page.cursor
+  } while (cursor)
+
+  return out.sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+export async function getKey(kv: KVNamespace, id: string): Promise<ApiKey | null> {
+  const stored = await kv.get<StoredKey>(PREFIX + id, 'json')
+  if (!stored) return null
+  const { hash, ...key } = stored
+  return key
+}
+
+/** Creates a key and returns it with its secret, which is not kept anywhere. */
+export async function createKey(kv: KVNamespace, req: Required<ApiKeyCreateRequest>): Promise<{ key: ApiKey; secret: string }> {
+  const id = randomHex(6)
+  const secret = `ucd_${id}_${randomHex(32)}`
+  const key: ApiKey = {
+    id,
+    name: req.name,
+    created_at: new Date().toISOString(),
+    revoked_at: null,
+    rate_limit: req.rate_limit,
+    daily_quota: req.daily_quota,
+  }
+  await put(kv, { ...key, hash: await sha256(secret) })
+  return { key, secret }
+}
+
+/** Marks the key revoked; the record stays so it still shows in the list. Null when there is no such key. */
+export async function revokeKey(kv: KVNamespace, id: string): Promise<ApiKey | null> {
+  const stored = await kv.get<StoredKey>(PREFIX + id, 'json')
+  if (!stored) return null
+  const { hash, ...key } = stored
+  if (key.revoked_at) return key
+
+  const revoked = { ...key, revoked_at: new Date().toISOString() }
+  await put(kv, { ...revoked, hash })
+  return revoked
+}
+
+/** The active key a request's secret belongs to, or null for unknown, malformed and revoked secrets. */
+export async function authenticate(kv: KVNamespace, secret: string): Promise<ApiKey | null> {
+  const m = SECRET.exec(secret)
+  if (!m) return null
+  const stored = await kv.get<StoredKey>(PREFIX + m[1], 'json')
+  if (!stored || stored.revoked_at || !safeEqual(stored.hash, await sha256(secret))) return null
+  const { hash, ...key } = stored
+  return key
+}
+
+/** The secret from `Authorization: Bearer <secret>` or `X-API-Key`, if either is sent. */
+export function requestSecret(request: Request): string | null {
+  const auth = request.headers.get('Authorization')
+  const bearer = auth && /^Bearer\s+(\S+)$/i.exec(auth)
+  return bearer ? bearer[1] : request.headers.get('X-API-Key')
+}
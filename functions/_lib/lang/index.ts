@@ -0,0 +1,144 @@
+import type { DetectedLanguage, LanguageCode } from '../../../shared/api'
+import bundled from './profiles.json'
+
+/**
+ * Per-language norms for the heuristic components. English uses the original
+ * hand-tuned constants; the others scale them by how each language differs from
+ * English on the same (parallel) text. See scripts/build-languages.ts.
+ */
+export type LanguageBaseline = {
+  avgWordLen: number
+  wordLenSpread: number
+  punctRate: number
+  uniqueRatio: number
+  /** Tokens per English word for the same content (characters for CJK). */
+  lengthScale: number
+}
+
+export type LanguageProfile = {
+  name: string
+  /** Scripts are matched before trigrams; only 'Latin' profiles carry trigrams. */
+  script: 'Latin' | 'Japanese' | 'Han'
+  baseline: LanguageBaseline
+  /** Trigram → count in the source text. */
+  trigrams: Record<string, number>
+}
+
+export type LanguageProfiles = {
+  source: string
+  languages: Partial<Record<LanguageCode, LanguageProfile>>
+}
+
+export const PROFILES = bundled as LanguageProfiles
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en'
+
+/** Trigram profiles keep this many of the most frequent entries. */
+export const PROFILE_SIZE = 500
+
+/** Fewer letters than this and detection falls back to English with confidence 0. */
+const MIN_DETECT_LETTERS = 20
+
+/* =======================
+   SCRIPTS & SEGMENTATION
+======================= */
+
+/** Characters written without spaces between words; each one is scored as a token. */
+export const CJK_CHAR = '[\\p{scx=Han}\\p{scx=Hiragana}\\p{scx=Katakana}]'
+
+/** A letter or digit that is not CJK (those are tokens on their own). */
+export const WORD_CHAR = `(?:(?!${CJK_CHAR})[\\p{L}\\p{N}])`
+
+function isNoSpace(code: LanguageCode) {
+  const script = PROFILES.languages[code]?.script
+  return script === 'Japanese' || script === 'Han'
+}
+
+/**
+ * Sentence boundaries: whitespace after . ! ? for space-separated languages.
+ * Japanese and Chinese also end sentences at 。！？ with no whitespace after,
+ * except before a closing quote (「…。」と言った continues the sentence).
+ */
+export function sentenceBoundary(code: LanguageCode = DEFAULT_LANGUAGE): RegExp {
+  return isNoSpace(code)
+    ? /(?<=[.!?。！？][」』）"”]*)\s+|(?<=[。！？])(?![」』）"”。！？\s])/g
+    : /(?<=[.!?])\s+/g
+}
+
+/* =======================
+   IDENTIFICATION
+======================= */
+
+/** Character trigrams over space-padded, lower-cased letter runs. */
+export function trigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>()
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? []
+  for (const w of words) {
+    const padded = ` ${w} `
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const t = padded.slice(i, i + 3)
+      counts.set(t, (counts.get(t) ?? 0) + 1)
+    }
+  }
+  return counts
+}
+
+/** The `size` most frequent trigrams with their counts; ties alphabetical, so builds are stable. */
+export function topTrigrams(counts: Map<string, number>, size = PROFILE_SIZE): Record<string, number> {
+  return Object.fromEntries(
+    [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+      .slice(0, size)
+  )
+}
+
+/** Add-k smoothing for trigrams a profile has never seen. */
+const SMOOTHING = 0.5
+
+const MODELS = Object.entries(PROFILES.languages)
+  .filter(([, p]) => Object.keys(p.trigrams).length)
+  .map(([code, p]) => {
+    const counts = new Map(Object.entries(p.trigrams))
+    const total = [...counts.values()].reduce((a, b) => a + b, 0) + SMOOTHING * (counts.size + 1)
+    return { code: code as LanguageCode, counts, total }
+  })
+
+function described(code: LanguageCode, confidence: number): DetectedLanguage {
+  return { code, name: PROFILES.languages[code]?.name ?? code, confidence }
+}
+
+/**
+ * Japanese and Chinese are told apart by script (kana vs. Han only); Latin-script
+ * languages by a naive Bayes classifier over character trigrams. Confidence is the
+ * script share for CJK and the posterior of the winning language otherwise.
+ */
+export function detectLanguage(text: string): DetectedLanguage {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0
+  const kana = text.match(/[\p{Script=Hiragana}\p{Script=Katakana}]/gu)?.length ?? 0
+  const han = text.match(/\p{Script=Han}/gu)?.length ?? 0
+
+  if (letters && (kana + han) / letters >= 0.5) {
+    const share = (kana + han) / letters
+    return kana / (kana + han) >= 0.1 ? described('ja', share) : described('zh', share)
+  }
+  if (letters < MIN_DETECT_LETTERS || !MODELS.length) return described(DEFAULT_LANGUAGE, 0)
+
+  const doc = trigrams(text)
+  const scored = MODELS.map(m => {
+    let ll = 0
+    for (const [t, n] of doc) ll += n * Math.log(((m.counts.get(t) ?? 0) + SMOOTHING) / m.total)
+    return { code: m.code, ll }
+  }).sort((a, b) => b.ll - a.ll)
+
+  const best = scored[0]
+  const evidence = scored.reduce((acc, s) => acc + Math.exp(s.ll - best.ll), 0)
+  return described(best.code, 1 / evidence)
+}
+
+export function languageInfo(code: LanguageCode): DetectedLanguage {
+  return described(code, 1)
+}
+
+export function baselineFor(code: LanguageCode = DEFAULT_LANGUAGE): LanguageBaseline {
+  return (PROFILES.languages[code] ?? PROFILES.languages[DEFAULT_LANGUAGE]!).baseline
+}
@@ -0,0 +1,10 @@
+import model from './model.bin'
+import { loadModel, type LanguageModel } from '.'
+
+let cached: Promise<LanguageModel> | undefined
+
+/** The model shipped with the Functions bundle, decoded once per isolate. */
+export function bundledModel(): Promise<LanguageModel> {
+  cached ??= loadModel(model)
+  return cached
+}
@@ -0,0 +1,244 @@
+/**
+ * Compact word-bigram language model with interpolated absolute discounting.
+ * Built offline by scripts/build-ngram.ts and shipped gzip-compressed as
+ * model.bin; everything here runs in a Worker or in Node without other deps.
+ *
+ * Binary layout (little-endian, before gzip):
+ *   "NGLM" | u32 format | u32 V | u32 N | f32 D | u32 B
+ *   V × (u8 byteLength, utf-8 word)      vocabulary, most frequent first
+ *   V × u32                              unigram counts
+ *   B × (u16 prev, u16 next, u32 count)  bigrams, grouped by prev
+ */
+import type { TokenScore } from '../../../shared/api'
+
+export const MODEL_FORMAT = 1
+
+/** The bundled model is trained on English text only. */
+export const MODEL_LANGUAGE = 'en'
+const MAGIC = 'NGLM'
+
+type Successors = {
+  next: Uint16Array
+  count: Uint32Array
+  /** Σ max(c(prev, next) - D, 0) / c(prev): mass taken by the bigram term. */
+  mass: number
+}
+
+export type LanguageModel = {
+  vocab: string[]
+  index: Map<string, number>
+  /** Unigram counts, sorted descending (rank 1 is index 0). */
+  counts: Uint32Array
+  total: number
+  discount: number
+  successors: Map<number, Successors>
+}
+
+/* =======================
+   (DE)SERIALISATION
+======================= */
+
+export type ModelSource = {
+  vocab: string[]
+  counts: number[]
+  discount: number
+  bigrams: [prev: number, next: number, count: number][]
+}
+
+export function encodeModel(src: ModelSource): Uint8Array {
+  const enc = new TextEncoder()
+  const words = src.vocab.map(w => enc.encode(w))
+  const size = 24 + words.reduce((a, w) => a + 1 + w.length, 0) + 4 * src.vocab.length + 8 * src.bigrams.length
+  const buf = new Uint8Array(size)
+  const view = new DataView(buf.buffer)
+  let o = 0
+
+  buf.set(enc.encode(MAGIC), 0); o = 4
+  view.setUint32(o, MODEL_FORMAT, true); o += 4
+  view.setUint32(o, src.vocab.length, true); o += 4
+  view.setUint32(o, src.counts.reduce((a, b) => a + b, 0), true); o += 4
+  view.setFloat32(o, src.discount, true); o += 4
+  view.setUint32(o, src.bigrams.length, true); o += 4
+
+  for (const w of words) {
+    buf[o++] = w.length
+    buf.set(w, o); o += w.length
+  }
+  for (const c of src.counts) { view.setUint32(o, c, true); o += 4 }
+  for (const [p, n, c] of src.bigrams) {
+    view.setUint16(o, p, true)
+    view.setUint16(o + 2, n, true)
+    view.setUint32(o + 4, c, true)
+    o += 8
+  }
+
+  return buf
+}
+
+export function decodeModel(buf: Uint8Array): LanguageModel {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength)
+  const dec = new TextDecoder()
+
+  if (dec.decode(buf.subarray(0, 4)) !== MAGIC) throw new Error('Not an n-gram model file')
+  const format = view.getUint32(4, true)
+  if (format !== MODEL_FORMAT) throw new Error(`Unsupported model format ${format}`)
+
+  const V = view.getUint32(8, true)
+  const total = view.getUint32(12, true)
+  const discount = view.getFloat32(16, true)
+  const B = view.getUint32(20, true)
+  let o = 24
+
+  const vocab: string[] = new Array(V)
+  for (let i = 0; i < V; i++) {
+    const len = buf[o++]
+    vocab[i] = dec.decode(buf.subarray(o, o + len))
+    o += len
+  }
+
+  const counts = new Uint32Array(V)
+  for (let i = 0; i < V; i++) { counts[i] = view.getUint32(o, true); o += 4 }
+
+  const successors = new Map<number, Successors>()
+  for (let b = 0; b < B;) {
+    const prev = view.getUint16(o, true)
+    let end = b
+    while (end < B && view.getUint16(o + 8 * (end - b), true) === prev) end++
+
+    const n = end - b
+    const next = new Uint16Array(n)
+    const count = new Uint32Array(n)
+    let kept = 0
+    for (let k = 0; k < n; k++) {
+      next[k] = view.getUint16(o + 8 * k + 2, true)
+      count[k] = view.getUint32(o + 8 * k + 4, true)
+      kept += Math.max(count[k] - discount, 0)
+    }
+    successors.set(prev, { next, count, mass: kept / counts[prev] })
+
+    o += 8 * n
+    b = end
+  }
+
+  return {
+    vocab,
+    index: new Map(vocab.map((w, i) => [w, i])),
+    counts,
+    total,
+    discount,
+    successors,
+  }
+}
+
+/** Gunzip and decode; uses DecompressionStream so it works in Workers and Node 18+. */
+export async function loadModel(gzipped: ArrayBuffer | Uint8Array): Promise<LanguageModel> {
+  const ds = new DecompressionStream('gzip')
+  const writer = ds.writable.getWriter()
+  writer.write(gzipped instanceof Uint8Array ? gzipped : new Uint8Array(gzipped))
+  writer.close()
+  return decodeModel(new Uint8Array(await new Response(ds.readable).arrayBuffer()))
+}
+
+/* =======================
+   SCORING
+======================= */
+
+/** Add-one unigram, with one extra slot for unknown words. */
+function unigram(lm: LanguageModel, i: number) {
+  return ((i >= 0 ? lm.counts[i] : 0) + 1) / (lm.total + lm.vocab.length + 1)
+}
+
+/** Number of vocabulary words whose unigram probability × λ exceeds p. */
+function countUnigramAbove(lm: LanguageModel, p: number, lambda: number) {
+  if (lambda <= 0) return 0
+  const minCount = (p / lambda) * (lm.total + lm.vocab.length + 1) - 1
+  let lo = 0
+  let hi = lm.counts.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (lm.counts[mid] > minCount) lo = mid + 1
+    else hi = mid
+  }
+  return lo
+}
+
+function scoreToken(lm: LanguageModel, prev: number, cur: number) {
+  const succ = prev >= 0 ? lm.successors.get(prev) : undefined
+  const cPrev = prev >= 0 ? lm.counts[prev] : 0
+
+  if (!succ) {
+    const p = unigram(lm, cur)
+    return { p, rank: (cur >= 0 ? countUnigramAbove(lm, p, 1) : lm.vocab.length) + 1 }
+  }
+
+  const lambda = 1 - succ.mass
+  const bigramTerm = (i: number) => {
+    for (let k = 0; k < succ.next.length; k++) {
+      if (succ.next[k] === i) return Math.max(succ.count[k] - lm.discount, 0) / cPrev
+    }
+    return 0
+  }
+
+  const p = (cur >= 0 ? bigramTerm(cur) : 0) + lambda * unigram(lm, cur)
+
+  // Words outranking `cur`: everything whose backoff-only probability beats p,
+  // corrected for successors, whose full probability includes the bigram term.
+  let rank = countUnigramAbove(lm, p, lambda)
+  for (let k = 0; k < succ.next.length; k++) {
+    const i = succ.next[k]
+    if (i === cur) continue
+    const backoff = lambda * unigram(lm, i)
+    const full = Math.max(succ.count[k] - lm.discount, 0) / cPrev + backoff
+    if (backoff > p) rank--
+    if (full > p) rank++
+  }
+  if (cur < 0) rank = Math.max(rank, lm.vocab.length)
+
+  return { p, rank: rank + 1 }
+}
+
+export function scoreTokens(lm: LanguageModel, words: string[]): TokenScore[] {
+  let prev = -1
+  return words.map(token => {
+    const cur = lm.index.get(token) ?? -1
+    const { p, rank } = scoreToken(lm, prev, cur)
+    prev = cur
+    return { token, logprob: Math.log2(p), rank }
+  })
+}
+
+/* =======================
+   SIGNALS
+======================= */
+
+/** Below this many tokens the LM statistics are too noisy to score. */
+export const MIN_LM_WORDS = 20
+
+/** GLTR bucket edges (Gehrmann et al., 2019): top-10 / top-100 / top-1000 / rest. */
+export const GLTR_BUCKETS = [10, 100, 1000] as const
+
+export function lmSignals(lm: LanguageModel, words: string[]) {
+  const tokens = scoreTokens(lm, words)
+  const n = tokens.length
+
+  const entropy = n ? -tokens.reduce((a, t) => a + t.logprob, 0) / n : 0
+  const share = (lo: number, hi: number) =>
+    n ? tokens.filter(t => t.rank > lo && t.rank <= hi).length / n : 0
+
+  const gltr_top10 = share(0, GLTR_BUCKETS[0])
+  const gltr_top100 = share(GLTR_BUCKETS[0], GLTR_BUCKETS[1])
+  const gltr_top1000 = share(GLTR_BUCKETS[1], GLTR_BUCKETS[2])
+  const gltr_rest = n ? 1 - gltr_top10 - gltr_top100 - gltr_top1000 : 0
+
+  return {
+    tokens,
+    entropy,
+    perplexity: n ? 2 ** entropy : 0,
+    gltr_top10,
+    gltr_top100,
+    gltr_top1000,
+    gltr_rest,
+  }
+}
+
+export type LmSignals = ReturnType<typeof lmSignals>
@@ -0,0 +1,28 @@
+import { CLIENT_ID, CLIENT_ID_HEADER } from '../../shared/documents'
+import { errorJson } from './http'
+
+/** What the API middleware leaves in `ctx.data` for the handlers. */
+export type RequestData = {
+  /** The id of the API key the request was authenticated with. */
+  keyId?: string
+}
+
+/**
+ * Whose saved documents and author profiles a request reads and writes: the API key's when it was
+ * authenticated with one, otherwise the client id it sends. The owner
+ * prefixes the KV keys, so one caller can't list, read or delete another's.
+ * A request with neither gets the response to send instead.
+ */
+export function resolveOwner(request: Request, data: RequestData) {
+  if (data.keyId) return { ok: true as const, owner: `k:${data.keyId}` }
+
+  const client = request.headers.get(CLIENT_ID_HEADER)
+  if (client && CLIENT_ID.test(client)) return { ok: true as const, owner: `c:${client}` }
+  return {
+    ok: false as const,
+    response: errorJson({
+      code: 'unauthorized',
+      message: `Saved data needs an API key or a ${CLIENT_ID_HEADER} header of 16 to 64 letters, digits, "_" or "-"`,
+    }),
+  }
+}
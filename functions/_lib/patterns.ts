@@ -0,0 +1,13 @@
+/**
+ * Literal phrase → case-insensitive global pattern that matches on word
+ * boundaries and tolerates curly apostrophes, spaced hyphens and line breaks.
+ */
+export function phrasePattern(phrase: string): RegExp {
+  const body = phrase
+    .trim()
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/'/g, "['’]")
+    .replace(/-/g, '[-\\s]?')
+    .replace(/\s+/g, '\\s+')
+  return new RegExp(`(?<![\\p{L}\\p{N}'’-])${body}(?![\\p{L}\\p{N}'’-])`, 'giu')
+}
@@ -0,0 +1,137 @@
+import { CJK_CHAR, WORD_CHAR } from '../lang'
+import { mulberry32, pick, type Rng } from './prng'
+import { alternativesFor } from './substitutions'
+
+export type PerturbationConfig = {
+  /** How many perturbed copies to score. */
+  samples: number
+  /** Base seed; sample i uses seed + i so results are reproducible. */
+  seed: number
+  /** Fraction of words touched per sample (DetectGPT masks ~15%). */
+  rate: number
+}
+
+export const DEFAULT_PERTURBATION: PerturbationConfig = {
+  samples: 8,
+  seed: 1,
+  rate: 0.15,
+}
+
+/** Texts shorter than this are returned unchanged. */
+export const MIN_PERTURB_WORDS = 12
+
+/** Word runs, or single CJK characters (which have no spaces to split on). */
+const WORD = new RegExp(`${CJK_CHAR}|(?:${WORD_CHAR}|['-])+`, 'u')
+
+/** Re-apply the casing pattern of `like` (UPPER, Capitalised, lower) to `word`. */
+function matchCase(word: string, like: string) {
+  if (like.length > 1 && like === like.toUpperCase() && like !== like.toLowerCase()) return word.toUpperCase()
+  if (like[0] !== like[0].toLowerCase()) return word[0].toUpperCase() + word.slice(1)
+  return word
+}
+
+function isCapitalised(w: string) {
+  return w[0] !== w[0].toLowerCase()
+}
+
+/**
+ * Produce one perturbed copy of `text`: synonym/function-word substitutions,
+ * short span deletions and adjacent-word swaps. Punctuation, whitespace and
+ * sentence-initial capitals are preserved; edits never cross punctuation.
+ */
+export function perturbText(text: string, rng: Rng, rate = DEFAULT_PERTURBATION.rate): string {
+  // Alternating [sep, word, sep, word, ..., sep]; words sit at odd indices.
+  const parts = text.split(new RegExp(`(${WORD.source})`, 'u'))
+  const wordIdx: number[] = []
+  for (let i = 1; i < parts.length; i += 2) wordIdx.push(i)
+  if (wordIdx.length < MIN_PERTURB_WORDS) return text
+
+  const removed = new Set<number>()
+  const isSpace = (sep: string | undefined) => sep === undefined || /^[ \t]*$/.test(sep)
+  // Only delete inside a clause: plain spaces on both sides (so never right after
+  // sentence punctuation) and never the very first word.
+  const editable = (i: number) =>
+    i > 1 && i < parts.length && !removed.has(i) && isSpace(parts[i - 1]) && isSpace(parts[i + 1])
+
+  // Words that have substitutes, in index order. Kept up to date as edits
+  // change words, rather than re-scanned per edit, so long texts stay linear.
+  const candidates = wordIdx.filter(i => alternativesFor(parts[i]))
+  const refresh = (i: number) => {
+    const at = lowerBound(candidates, i)
+    const listed = candidates[at] === i
+    const wanted = !removed.has(i) && !!alternativesFor(parts[i])
+    if (listed && !wanted) candidates.splice(at, 1)
+    else if (!listed && wanted) candidates.splice(at, 0, i)
+  }
+
+  const edits = Math.max(1, Math.round(rate * wordIdx.length))
+
+  for (let e = 0; e < edits; e++) {
+    const roll = rng()
+
+    if (roll < 0.5) {
+      // substitution
+      if (candidates.length) {
+        const i = pick(rng, candidates)
+        parts[i] = matchCase(pick(rng, alternativesFor(parts[i])!), parts[i])
+        refresh(i)
+        continue
+      }
+    }
+
+    if (roll < 0.75) {
+      // span deletion of one or two words
+      const i = pick(rng, wordIdx)
+      if (!editable(i)) continue
+      const span = rng() < 0.5 && editable(i + 2) ? 2 : 1
+      for (let k = 0; k < span; k++) {
+        const j = i + 2 * k
+        removed.add(j)
+        parts[j] = ''
+        parts[j + 1] = ''
+        refresh(j)
+      }
+      continue
+    }
+
+    // adjacent swap, carrying a leading capital with the position
+    const i = pick(rng, wordIdx)
+    const j = i + 2
+    if (removed.has(i) || removed.has(j) || j >= parts.length || !parts[i + 1] || !isSpace(parts[i + 1])) continue
+    const [a, b] = [parts[i], parts[j]]
+    if (isCapitalised(a) && !isCapitalised(b) && a !== a.toUpperCase()) {
+      parts[i] = b[0].toUpperCase() + b.slice(1)
+      parts[j] = a[0].toLowerCase() + a.slice(1)
+    } else {
+      parts[i] = b
+      parts[j] = a
+    }
+    refresh(i)
+    refresh(j)
+  }
+
+  return parts.join('')
+}
+
+/** First position in the ascending `sorted` whose value is >= `n`. */
+function lowerBound(sorted: number[], n: number) {
+  let lo = 0
+  let hi = sorted.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (sorted[mid] < n) lo = mid + 1
+    else hi = mid
+  }
+  return lo
+}
+
+/** Mean and sample variance, with the mean of absolute values alongside. */
+export function deltaStats(deltas: number[]) {
+  const n = deltas.length
+  const mean = n ? deltas.reduce((a, b) => a + b, 0) / n : 0
+  const meanAbs = n ? deltas.reduce((a, b) => a + Math.abs(b), 0) / n : 0
+  const variance = n > 1 ? deltas.reduce((a, d) => a + (d - mean) ** 2, 0) / (n - 1) : 0
+  return { mean, meanAbs, variance }
+}
+
+export { mulberry32 }
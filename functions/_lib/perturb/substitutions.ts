@@ -0,0 +1,144 @@
+/**
+ * Offline substitution table for perturbations. Each group lists words that can
+ * stand in for one another in most contexts without breaking the sentence;
+ * lookups are symmetric within a group. Kept small and lower-case on purpose:
+ * the point is to nudge the text, not to paraphrase it.
+ */
+const GROUPS: string[][] = [
+  // connectives and function words
+  ['however', 'but', 'yet', 'still'],
+  ['therefore', 'thus', 'so', 'hence'],
+  ['also', 'additionally', 'moreover', 'furthermore'],
+  ['because', 'since', 'as'],
+  ['although', 'though', 'while'],
+  ['often', 'frequently', 'commonly'],
+  ['usually', 'typically', 'generally', 'normally'],
+  ['maybe', 'perhaps', 'possibly'],
+  ['very', 'really', 'quite', 'extremely'],
+  ['just', 'only', 'simply'],
+  ['about', 'around', 'roughly', 'approximately'],
+  ['many', 'numerous', 'several'],
+  ['some', 'certain'],
+  ['whole', 'entire'],
+  ['before', 'prior to'],
+  ['among', 'between'],
+  ['within', 'inside'],
+  ['toward', 'towards'],
+  ['upon', 'on'],
+  ['whether', 'if'],
+  ['can', 'may', 'could'],
+  ['must', 'should'],
+  ['this', 'that'],
+  ['these', 'those'],
+
+  // verbs
+  ['use', 'utilize', 'employ'],
+  ['uses', 'utilizes', 'employs'],
+  ['used', 'utilized', 'employed'],
+  ['help', 'assist', 'aid'],
+  ['helps', 'assists', 'aids'],
+  ['show', 'demonstrate', 'reveal'],
+  ['shows', 'demonstrates', 'reveals'],
+  ['make', 'create', 'produce'],
+  ['makes', 'creates', 'produces'],
+  ['get', 'obtain', 'gain'],
+  ['gets', 'obtains', 'gains'],
+  ['need', 'require'],
+  ['needs', 'requires'],
+  ['improve', 'enhance', 'boost'],
+  ['improves', 'enhances', 'boosts'],
+  ['allow', 'enable', 'let'],
+  ['allows', 'enables', 'lets'],
+  ['ensure', 'guarantee'],
+  ['achieve', 'reach', 'attain'],
+  ['provide', 'offer', 'give'],
+  ['provides', 'offers', 'gives'],
+  ['begin', 'start', 'commence'],
+  ['began', 'started'],
+  ['try', 'attempt'],
+  ['keep', 'maintain', 'retain'],
+  ['think', 'believe', 'feel'],
+  ['find', 'discover'],
+  ['found', 'discovered'],
+  ['build', 'construct'],
+  ['choose', 'select', 'pick'],
+  ['reduce', 'lower', 'decrease', 'cut'],
+  ['increase', 'raise', 'grow'],
+  ['focus', 'concentrate'],
+  ['explore', 'examine', 'investigate'],
+  ['consider', 'weigh'],
+  ['said', 'stated', 'noted'],
+  ['went', 'headed'],
+  ['look', 'glance'],
+  ['walked', 'strolled'],
+
+  // adjectives and adverbs
+  ['important', 'crucial', 'essential', 'vital'],
+  ['significant', 'considerable', 'substantial'],
+  ['big', 'large', 'huge'],
+  ['small', 'little', 'minor'],
+  ['fast', 'quick', 'rapid'],
+  ['quickly', 'rapidly', 'swiftly'],
+  ['slow', 'gradual'],
+  ['easy', 'simple', 'straightforward'],
+  ['hard', 'difficult', 'tough'],
+  ['good', 'great', 'fine'],
+  ['bad', 'poor'],
+  ['new', 'novel', 'fresh'],
+  ['old', 'former', 'previous'],
+  ['different', 'distinct', 'various'],
+  ['clear', 'obvious', 'evident'],
+  ['clearly', 'obviously', 'evidently'],
+  ['effective', 'efficient', 'productive'],
+  ['effectively', 'efficiently'],
+  ['main', 'primary', 'key', 'central'],
+  ['overall', 'general'],
+  ['complex', 'complicated', 'intricate'],
+  ['useful', 'helpful', 'valuable'],
+  ['better', 'improved'],
+  ['strong', 'robust', 'solid'],
+  ['common', 'widespread'],
+  ['entirely', 'completely', 'fully'],
+  ['mostly', 'largely', 'mainly'],
+  ['finally', 'ultimately', 'eventually'],
+  ['currently', 'presently', 'now'],
+  ['recently', 'lately'],
+
+  // nouns
+  ['way', 'method', 'approach'],
+  ['ways', 'methods', 'approaches'],
+  ['problem', 'issue', 'challenge'],
+  ['problems', 'issues', 'challenges'],
+  ['goal', 'aim', 'objective'],
+  ['goals', 'aims', 'objectives'],
+  ['result', 'outcome'],
+  ['results', 'outcomes'],
+  ['benefit', 'advantage'],
+  ['benefits', 'advantages'],
+  ['idea', 'notion', 'concept'],
+  ['ideas', 'notions', 'concepts'],
+  ['people', 'individuals', 'folks'],
+  ['task', 'job', 'chore'],
+  ['tasks', 'jobs', 'chores'],
+  ['area', 'field', 'domain'],
+  ['part', 'portion', 'piece'],
+  ['kind', 'type', 'sort'],
+  ['example', 'instance'],
+  ['world', 'society'],
+  ['time', 'moment'],
+  ['company', 'firm', 'business'],
+  ['companies', 'firms', 'businesses'],
+  ['help', 'support', 'assistance'],
+]
+
+const TABLE = new Map<string, string[]>()
+for (const group of GROUPS) {
+  for (const word of group) {
+    const alts = group.filter(w => w !== word)
+    TABLE.set(word, Array.from(new Set([...(TABLE.get(word) ?? []), ...alts])))
+  }
+}
+
+export function alternativesFor(word: string): string[] | undefined {
+  return TABLE.get(word.toLowerCase())
+}
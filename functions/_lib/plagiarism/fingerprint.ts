@@ -0,0 +1,102 @@
+import { wordSpans, type SentenceSpan } from '../scoring'
+
+/**
+ * Document fingerprints over word shingles (k consecutive tokens).
+ *
+ * Winnowing (Schleimer, Wilkerson & Aiken, 2003) keeps the minimum hash of every
+ * window of WINDOW shingles, so any shared run of at least
+ * SHINGLE + WINDOW - 1 words is guaranteed to share a fingerprint while only
+ * about 2 / (WINDOW + 1) of the hashes are stored. MinHash estimates the Jaccard
+ * similarity of the full shingle sets from a fixed-size signature.
+ */
+
+export const SHINGLE = 5
+export const WINDOW = 4
+
+/** The shortest passage winnowing is guaranteed to find. */
+export const MIN_PASSAGE_WORDS = SHINGLE + WINDOW - 1
+
+export const MINHASH_SIZE = 64
+
+export type Fingerprints = {
+  words: SentenceSpan[]
+  /** Hash of the shingle starting at each word (words.length - SHINGLE + 1 entries). */
+  shingles: Uint32Array
+  winnowed: number[]
+  minhash: number[]
+}
+
+/** 32-bit FNV-1a over UTF-16 code units. */
+function fnv1a(s: string) {
+  let h = 0x811c9dc5
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+/** murmur3's finaliser: spreads one 32-bit hash into an independent-looking other. */
+function mix(h: number) {
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h >>> 0
+}
+
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => mix(0x9e3779b9 + i))
+
+export function shingleHashes(words: SentenceSpan[]): Uint32Array {
+  const n = Math.max(0, words.length - SHINGLE + 1)
+  const out = new Uint32Array(n)
+  for (let i = 0; i < n; i++) {
+    let key = words[i].text
+    for (let j = 1; j < SHINGLE; j++) key += ' ' + words[i + j].text
+    out[i] = fnv1a(key)
+  }
+  return out
+}
+
+/** Robust winnowing: the rightmost minimum of each window, each selected position once. */
+export function winnow(hashes: Uint32Array, window = WINDOW): number[] {
+  if (hashes.length <= window) return hashes.length ? [Math.min(...hashes)] : []
+
+  const out: number[] = []
+  let last = -1
+  for (let start = 0; start + window <= hashes.length; start++) {
+    let min = start
+    for (let i = start + 1; i < start + window; i++) if (hashes[i] <= hashes[min]) min = i
+    if (min !== last) {
+      out.push(hashes[min])
+      last = min
+    }
+  }
+  return out
+}
+
+export function minhash(hashes: Uint32Array): number[] {
+  const sig = new Array<number>(MINHASH_SIZE).fill(0xffffffff)
+  for (const h of hashes) {
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const v = mix(h ^ SEEDS[i])
+      if (v < sig[i]) sig[i] = v
+    }
+  }
+  return sig
+}
+
+/** Share of signature slots that agree; 0 when either text has no shingles. */
+export function estimateJaccard(a: number[], b: number[]) {
+  if (!a.length || a.length !== b.length || a[0] === 0xffffffff || b[0] === 0xffffffff) return 0
+  let same = 0
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same++
+  return same / a.length
+}
+
+export function fingerprint(text: string): Fingerprints {
+  const words = wordSpans(text)
+  const shingles = shingleHashes(words)
+  return { words, shingles, winnowed: [...new Set(winnow(shingles))], minhash: minhash(shingles) }
+}
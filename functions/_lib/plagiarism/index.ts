@@ -0,0 +1,122 @@
+import { MAX_PLAGIARISM_SOURCES, type CorpusSource, type PlagiarismMatch, type PlagiarismPassage } from '../../../shared/api'
+import type { CorpusIndex } from '../corpus'
+import { wordSpans } from '../scoring'
+import { MIN_PASSAGE_WORDS, SHINGLE, estimateJaccard, fingerprint, shingleHashes, type Fingerprints } from './fingerprint'
+
+export type PlagiarismResult = {
+  words: number
+  coverage: number
+  matches: PlagiarismMatch[]
+}
+
+/**
+ * Check `text` against the corpus. Sources sharing at least one winnowed
+ * fingerprint are candidates; the MAX_PLAGIARISM_SOURCES with the most shared
+ * fingerprints are loaded and aligned shingle by shingle to recover passages
+ * of at least MIN_PASSAGE_WORDS words with offsets on both sides.
+ */
+export async function checkPlagiarism(
+  text: string,
+  index: CorpusIndex,
+  load: (id: string) => Promise<CorpusSource | null>
+): Promise<PlagiarismResult> {
+  const query = fingerprint(text)
+  const wanted = new Set(query.winnowed)
+
+  const candidates = index.sources
+    .map(source => ({ source, shared: source.winnowed.reduce((n, h) => n + (wanted.has(h) ? 1 : 0), 0) }))
+    .filter(c => c.shared > 0)
+    .sort((a, b) => b.shared - a.shared)
+    .slice(0, MAX_PLAGIARISM_SOURCES)
+
+  const covered = new Uint8Array(query.words.length)
+  const matches: PlagiarismMatch[] = []
+
+  for (const { source } of candidates) {
+    const doc = await load(source.id)
+    if (!doc) continue
+
+    const passages = alignPassages(query, doc.text)
+    if (!passages.length) continue
+
+    const mine = new Uint8Array(query.words.length)
+    let sourceWords = 0
+    for (const p of passages) {
+      mine.fill(1, p.from, p.from + p.passage.words)
+      covered.fill(1, p.from, p.from + p.passage.words)
+      sourceWords += p.passage.words
+    }
+
+    matches.push({
+      source_id: source.id,
+      title: source.title,
+      similarity: estimateJaccard(query.minhash, source.minhash),
+      coverage: share(mine),
+      source_coverage: source.words ? Math.min(1, sourceWords / source.words) : 0,
+      passages: passages.map(p => p.passage),
+    })
+  }
+
+  return {
+    words: query.words.length,
+    coverage: share(covered),
+    matches: matches.sort((a, b) => b.coverage - a.coverage),
+  }
+}
+
+function share(marks: Uint8Array) {
+  return marks.length ? marks.reduce((n, m) => n + m, 0) / marks.length : 0
+}
+
+/**
+ * Greedy alignment: walk the query's shingles in order and extend the current
+ * run while the next shingle also follows on in the source. A run keeps every
+ * source position it could have started at, so a phrase that occurs more than
+ * once in the source is followed wherever the copied passage goes on. Runs
+ * shorter than MIN_PASSAGE_WORDS are dropped as common phrasing.
+ */
+function alignPassages(query: Fingerprints, sourceText: string) {
+  const words = wordSpans(sourceText)
+  const hashes = shingleHashes(words)
+  const positions = new Map<number, number[]>()
+  hashes.forEach((h, i) => {
+    const list = positions.get(h)
+    if (list) list.push(i)
+    else positions.set(h, [i])
+  })
+
+  const runs: { q: number; starts: number[]; len: number }[] = []
+  let run: { q: number; starts: number[]; len: number } | null = null
+
+  for (const [i, h] of query.shingles.entries()) {
+    if (run && run.q + run.len === i) {
+      const len = run.len
+      const on = run.starts.filter(s => hashes[s + len] === h)
+      if (on.length) {
+        run.starts = on
+        run.len++
+        continue
+      }
+    }
+    const at = positions.get(h)
+    run = at ? { q: i, starts: at, len: 1 } : null
+    if (run) runs.push(run)
+  }
+
+  const out: { from: number; passage: PlagiarismPassage }[] = []
+  for (const r of runs) {
+    const count = r.len + SHINGLE - 1
+    if (count < MIN_PASSAGE_WORDS) continue
+    out.push({
+      from: r.q,
+      passage: {
+        start: query.words[r.q].start,
+        end: query.words[r.q + count - 1].end,
+        source_start: words[r.starts[0]].start,
+        source_end: words[r.starts[0] + count - 1].end,
+        words: count,
+      },
+    })
+  }
+  return out
+}
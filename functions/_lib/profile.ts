@@ -0,0 +1,51 @@
+import type { RuleHit, ScanProfile, ScanRule } from '../../shared/api'
+import { phrasePattern } from './patterns'
+import { clamp01 } from './scoring'
+import { ENSEMBLE_MEMBERS, type DetectorWeights, type EnsembleMember } from './weights'
+
+/** Each rule reports at most this many match offsets. */
+const MAX_RULE_SPANS = 50
+/** Matching stops here; a rule counts once toward the score however often it matches. */
+const MAX_RULE_HITS = 1000
+
+/** Ensemble weights from the profile, renormalised to sum to 1; heuristic coefficients and calibration are kept. */
+export function profileWeights(base: DetectorWeights, profile: ScanProfile): DetectorWeights {
+  const total = ENSEMBLE_MEMBERS.reduce((acc, k) => acc + (profile.detectors[k] ?? 0), 0) || 1
+  return {
+    ...base,
+    ensemble: Object.fromEntries(ENSEMBLE_MEMBERS.map(k => [k, (profile.detectors[k] ?? 0) / total])) as Record<EnsembleMember, number>,
+  }
+}
+
+/** Detectors the profile switches on. */
+export function profileDetectors(profile: ScanProfile): EnsembleMember[] {
+  return ENSEMBLE_MEMBERS.filter(k => (profile.detectors[k] ?? 0) > 0)
+}
+
+/**
+ * Regex rules were checked against unsafeRegex (shared/validate.ts): no
+ * nested or neighbouring unbounded repeats, so each match attempt is at worst
+ * linear in the rest of the text, which is at most MAX_DOCUMENT_CHARS.
+ */
+export function rulePattern(rule: Pick<ScanRule, 'kind' | 'pattern'>): RegExp {
+  return rule.kind === 'phrase' ? phrasePattern(rule.pattern) : new RegExp(rule.pattern, 'giu')
+}
+
+export function matchRules(text: string, rules: ScanRule[]): RuleHit[] {
+  return rules.map(rule => {
+    const spans: RuleHit['spans'] = []
+    let hits = 0
+    for (const m of text.matchAll(rulePattern(rule))) {
+      if (!m[0]) continue
+      hits++
+      if (spans.length < MAX_RULE_SPANS) spans.push({ start: m.index!, end: m.index! + m[0].length })
+      if (hits >= MAX_RULE_HITS) break
+    }
+    return { label: rule.label, weight: rule.weight, hits, spans }
+  })
+}
+
+/** Every matching rule shifts the probability by its weight once, however often it matches. */
+export function applyRules(probability: number, hits: RuleHit[]) {
+  return clamp01(hits.reduce((p, h) => p + (h.hits ? h.weight : 0), probability))
+}
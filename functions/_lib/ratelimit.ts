@@ -0,0 +1,49 @@
+/**
+ * Fixed-window request counters in KV, under `rl:<subject>:<window>`, expiring
+ * a window after they close. KV has no atomic increment and is eventually
+ * consistent across locations, so concurrent requests can slip a few past the
+ * limit; it is a guard against abuse, not exact metering. A failed counter
+ * write (KV allows one write per key per second) is dropped rather than
+ * failing the request.
+ */
+const PREFIX = 'rl:'
+/** KV's shortest expiration TTL. */
+const MIN_TTL = 60
+
+export const MINUTE = 60
+export const DAY = 86_400
+
+export type Limit = {
+  ok: boolean
+  limit: number
+  remaining: number
+  /** Seconds until the window resets. */
+  reset: number
+}
+
+/** Counts one request against `subject`'s current window of `seconds`. Windows align to the Unix epoch, so DAY windows are UTC days. */
+export async function hit(kv: KVNamespace, subject: string, limit: number, seconds: number, now = Date.now()): Promise<Limit> {
+  const t = Math.floor(now / 1000)
+  const window = Math.floor(t / seconds)
+  const reset = (window + 1) * seconds - t
+  const key = `${PREFIX}${subject}:${window}`
+
+  const count = Number(await kv.get(key)) || 0
+  if (count >= limit) return { ok: false, limit, remaining: 0, reset }
+
+  try {
+    await kv.put(key, String(count + 1), { expirationTtl: Math.max(MIN_TTL, reset + seconds) })
+  } catch {
+    // Over KV's write rate for this key; let the request through uncounted.
+  }
+  return { ok: true, limit, remaining: limit - count - 1, reset }
+}
+
+export function limitHeaders(l: Limit): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(l.limit),
+    'X-RateLimit-Remaining': String(l.remaining),
+    'X-RateLimit-Reset': String(l.reset),
+    ...(l.ok ? {} : { 'Retry-After': String(l.reset) }),
+  }
+}
@@ -0,0 +1,296 @@
+import { CONFIDENCE_THRESHOLDS, type Confidence, type LanguageCode } from '../../shared/api'
+import {
+  CJK_CHAR,
+  DEFAULT_LANGUAGE,
+  WORD_CHAR,
+  baselineFor,
+  sentenceBoundary,
+} from './lang'
+import { applyEvasion, normalizeText } from './evasion'
+import { MIN_LM_WORDS, type LmSignals } from './lm'
+import {
+  DEFAULT_PERTURBATION,
+  deltaStats,
+  mulberry32,
+  perturbText,
+  type PerturbationConfig,
+} from './perturb'
+import {
+  DEFAULT_WEIGHTS,
+  ENSEMBLE_MEMBERS,
+  HEURISTIC_COMPONENTS,
+  applyCalibration,
+  type EnsembleMember,
+  type HeuristicComponent,
+} from './weights'
+
+export type SentenceSpan = {
+  text: string
+  start: number
+  end: number
+}
+
+export function clamp01(n: number) {
+  return Math.max(0, Math.min(1, n))
+}
+
+/** Letter/digit runs with inner ' or -; each CJK character is a token of its own. */
+const TOKEN = new RegExp(`${CJK_CHAR}|${WORD_CHAR}(?:(?:${WORD_CHAR}|['-])*${WORD_CHAR})?`, 'gu')
+
+export function tokenizeWords(text: string): string[] {
+  return text.toLowerCase().match(TOKEN) ?? []
+}
+
+/** The same tokens, lower-cased, with their offsets into `text`. */
+export function wordSpans(text: string): SentenceSpan[] {
+  return [...text.matchAll(TOKEN)].map(m => ({ text: m[0].toLowerCase(), start: m.index!, end: m.index! + m[0].length }))
+}
+
+export function splitSentences(text: string, lang: LanguageCode = DEFAULT_LANGUAGE): string[] {
+  return text.replace(/\s+/g, ' ')
+    .split(sentenceBoundary(lang))
+    .map(s => s.trim())
+    .filter(Boolean)
+}
+
+/** Same boundaries as splitSentences, but keeps character offsets into the original text. */
+export function splitSentenceSpans(text: string, lang: LanguageCode = DEFAULT_LANGUAGE): SentenceSpan[] {
+  const spans: SentenceSpan[] = []
+  let cursor = 0
+
+  const push = (from: number, to: number) => {
+    const raw = text.slice(from, to)
+    const body = raw.trim()
+    if (!body) return
+    const start = from + (raw.length - raw.trimStart().length)
+    spans.push({ text: body, start, end: start + body.length })
+  }
+
+  for (const m of text.matchAll(sentenceBoundary(lang))) {
+    push(cursor, m.index!)
+    cursor = m.index! + m[0].length
+  }
+  push(cursor, text.length)
+
+  return spans
+}
+
+export function stddev(nums: number[]): number {
+  if (nums.length <= 1) return 0
+  const mean = nums.reduce((a, b) => a + b, 0) / nums.length
+  const v = nums.reduce((a, b) => a + (b - mean) ** 2, 0) / (nums.length - 1)
+  return Math.sqrt(v)
+}
+
+/* =======================
+   SIGNAL COMPUTATION
+======================= */
+
+export type Signals = ReturnType<typeof computeSignals>
+
+/** Occurrences per token; repetition is the share of tokens that are repeats. */
+export function wordCounts(words: string[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const w of words) counts.set(w, (counts.get(w) ?? 0) + 1)
+  return counts
+}
+
+export function computeSignals(text: string, lang: LanguageCode = DEFAULT_LANGUAGE) {
+  const words = tokenizeWords(text)
+  const length = words.length
+
+  const sentences = splitSentences(text, lang)
+  const sentenceLens = sentences.map(s => tokenizeWords(s).length).filter(n => n > 0)
+
+  const burstiness = sentenceLens.length
+    ? clamp01(stddev(sentenceLens) / ((sentenceLens.reduce((a, b) => a + b, 0) / sentenceLens.length) + 1e-6))
+    : 0
+
+  const uniq = new Set(words)
+  const unique_word_ratio = length ? clamp01(uniq.size / length) : 0
+
+  const counts = wordCounts(words)
+  const repeats = Array.from(counts.values()).reduce((a, c) => a + Math.max(0, c - 1), 0)
+  const repetition = length ? clamp01(repeats / length) : 0
+
+  const punct = (text.match(/[.,!?;:、。，！？；：]/g) ?? []).length
+  const punctuation_rate = text.length ? clamp01(punct / text.length) : 0
+
+  const avg_word_len = length ? words.reduce((a, w) => a + w.length, 0) / length : 0
+
+  return {
+    length,
+    burstiness,
+    repetition,
+    punctuation_rate,
+    avg_word_len,
+    unique_word_ratio,
+  }
+}
+
+/* =======================
+   HEURISTIC SCORE
+======================= */
+
+/**
+ * Each term is 0..1, higher => more machine-like. Weighted by weights.heuristic.
+ * Norms (typical word length, punctuation rate, vocabulary spread) are per language.
+ */
+export function heuristicComponents(s: Signals, lang: LanguageCode = DEFAULT_LANGUAGE): Record<HeuristicComponent, number> {
+  const b = baselineFor(lang)
+  return {
+    lowBurst: clamp01(1 - s.burstiness),
+    rep: clamp01(s.repetition / 0.22),
+    lowUnique: clamp01((b.uniqueRatio - s.unique_word_ratio) / 0.25),
+    punctMid: 1 - clamp01(Math.abs(s.punctuation_rate - b.punctRate) / b.punctRate),
+    wordLenMid: 1 - clamp01(Math.abs(s.avg_word_len - b.avgWordLen) / b.wordLenSpread),
+  }
+}
+
+/** Length in English-word equivalents, so CJK character counts are comparable. */
+export function lengthFactor(s: Signals, lang: LanguageCode = DEFAULT_LANGUAGE) {
+  return clamp01((s.length / baselineFor(lang).lengthScale - 40) / 260)
+}
+
+/** Short texts give noisy signals, so the heuristic mix is scaled down to 0.55× of itself. */
+export function lengthDamping(s: Signals, lang: LanguageCode = DEFAULT_LANGUAGE) {
+  return 0.55 + 0.45 * lengthFactor(s, lang)
+}
+
+export function heuristicScore(s: Signals, w = DEFAULT_WEIGHTS.heuristic, lang: LanguageCode = DEFAULT_LANGUAGE) {
+  const c = heuristicComponents(s, lang)
+  const mix = HEURISTIC_COMPONENTS.reduce((acc, k) => acc + w[k] * c[k], 0)
+
+  return clamp01(mix * lengthDamping(s, lang))
+}
+
+/* =======================
+   ZIPPY ENTROPY
+======================= */
+
+export async function compressionRatio(text: string): Promise<number> {
+  const data = new TextEncoder().encode(text)
+  const cs = new CompressionStream('gzip')
+  const writer = cs.writable.getWriter()
+  writer.write(data)
+  writer.close()
+  const compressed = await new Response(cs.readable).arrayBuffer()
+  return compressed.byteLength / data.byteLength
+}
+
+/** Below this, gzip's header and dictionary warm-up dominate the ratio. */
+export const MIN_ZIPPY_WORDS = 60
+
+export function zipPyScore(ratio: number) {
+  return clamp01(1 - (ratio - 0.28) / (0.68 - 0.28))
+}
+
+/* =======================
+   LANGUAGE MODEL
+======================= */
+
+/**
+ * Machine text is predictable to a language model: low per-token entropy and a
+ * large share of top-10 ranked tokens (GLTR). Ranges are for the bundled bigram
+ * model, whose entropy on ordinary prose sits around 10–13 bits.
+ */
+export function lmScore(s: LmSignals) {
+  if (s.tokens.length < MIN_LM_WORDS) return 0
+  const lowEntropy = clamp01((13 - s.entropy) / 4)
+  const topRanked = clamp01((s.gltr_top10 - 0.15) / 0.3)
+  return 0.5 * lowEntropy + 0.5 * topRanked
+}
+
+/* =======================
+   DETECTGPT STABILITY
+======================= */
+
+/**
+ * Score `samples` perturbed copies and compare each against the original.
+ * Machine text tends to sit at a local optimum, so small edits move its score
+ * less; `score` is high when the mean absolute delta is small. `mean_delta` and
+ * `variance` are the signed curvature statistics (original minus perturbed).
+ */
+export function detectGPT(
+  text: string,
+  base: number,
+  w = DEFAULT_WEIGHTS.heuristic,
+  cfg: PerturbationConfig = DEFAULT_PERTURBATION,
+  lang: LanguageCode = DEFAULT_LANGUAGE
+) {
+  const deltas: number[] = []
+
+  for (let i = 0; i < cfg.samples; i++) {
+    const p = perturbText(text, mulberry32(cfg.seed + i), cfg.rate)
+    deltas.push(base - heuristicScore(computeSignals(p, lang), w, lang))
+  }
+
+  const { mean, meanAbs, variance } = deltaStats(deltas)
+
+  return {
+    score: 1 - clamp01(meanAbs / 0.15),
+    curvature: {
+      samples: cfg.samples,
+      seed: cfg.seed,
+      mean_delta: mean,
+      mean_abs_delta: meanAbs,
+      variance,
+    },
+  }
+}
+
+/* =======================
+   PER-SENTENCE SCORES
+======================= */
+
+/**
+ * Per-sentence scores over `text`, with offsets into it. Each sentence is
+ * normalised like the document (see ./evasion) and raised by its own evasion
+ * score. Only the heuristic and Zippy can score a sentence, and only those
+ * in `only` count, re-weighted between themselves; a sentence neither of them
+ * can score (Zippy needs MIN_ZIPPY_WORDS) has a null ai_probability.
+ */
+export async function scoreSentences(
+  text: string,
+  weights = DEFAULT_WEIGHTS,
+  lang: LanguageCode = DEFAULT_LANGUAGE,
+  only: readonly EnsembleMember[] = ENSEMBLE_MEMBERS
+) {
+  const e = weights.ensemble
+
+  return Promise.all(splitSentenceSpans(text, lang).map(async span => {
+    const { text: clean, evasion } = normalizeText(span.text)
+    const s = computeSignals(clean, lang)
+    const heuristic = only.includes('heuristic') ? heuristicScore(s, weights.heuristic, lang) : null
+    const zippy = only.includes('zippy') && s.length >= MIN_ZIPPY_WORDS ? zipPyScore(await compressionRatio(clean)) : null
+
+    // DetectGPT and the language model are skipped per sentence (too short),
+    // so the remaining ensemble weights are renormalised.
+    const parts = ([['heuristic', heuristic], ['zippy', zippy]] as const).filter(([, v]) => v != null)
+    const total = parts.reduce((acc, [k]) => acc + e[k], 0)
+    const ensemble = parts.length
+      ? parts.reduce((acc, [k, v]) => acc + (total ? e[k] / total : 1 / parts.length) * v!, 0)
+      : null
+    const ai_probability = ensemble == null ? null : applyEvasion(applyCalibration(ensemble, weights.calibration), evasion)
+
+    return {
+      start: span.start,
+      end: span.end,
+      words: s.length,
+      ai_probability,
+      heuristic,
+      zippy,
+    }
+  }))
+}
+
+/* =======================
+   CONFIDENCE
+======================= */
+
+/** Cut-offs on the calibrated probability; the evaluation report measures these same bands. */
+export function confidenceLabel(p: number, thresholds: { high: number; medium: number } = CONFIDENCE_THRESHOLDS): Confidence {
+  return p >= thresholds.high ? 'high' :
+    p >= thresholds.medium ? 'medium' :
+    'low'
+}
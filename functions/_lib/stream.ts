@@ -0,0 +1,62 @@
+import type { DetectStreamEvent, StreamFormat } from '../../shared/api'
+
+const CONTENT_TYPES: Record<StreamFormat, string> = {
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  sse: 'text/event-stream; charset=utf-8',
+}
+
+export type Emit = (event: DetectStreamEvent) => Promise<void>
+
+function encode(format: StreamFormat, event: DetectStreamEvent) {
+  const data = JSON.stringify(event)
+  return format === 'sse' ? `event: ${event.type}\ndata: ${data}\n\n` : `${data}\n`
+}
+
+/** Scoring is synchronous between awaits; a macrotask lets the runtime flush what was written and notice a disconnect. */
+const tick = () => new Promise<void>(resolve => setTimeout(resolve, 0))
+
+/**
+ * A streamed response whose events come from `run`. Work stops, at the next
+ * event or step, once the client goes away: the request's signal fires, or
+ * writing to the cancelled body fails. An exception after the stream started
+ * is sent as an `error` event, since the status line is already gone.
+ */
+export function streamResponse(
+  ctx: { request: Request; waitUntil(promise: Promise<unknown>): void },
+  format: StreamFormat,
+  run: (emit: Emit, signal: AbortSignal) => Promise<void>
+): Response {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>()
+  const writer = writable.getWriter()
+  const encoder = new TextEncoder()
+  const abort = new AbortController()
+  ctx.request.signal?.addEventListener('abort', () => abort.abort(ctx.request.signal.reason))
+
+  const emit: Emit = async (event) => {
+    abort.signal.throwIfAborted()
+    try {
+      await writer.write(encoder.encode(encode(format, event)))
+    } catch (err) {
+      abort.abort(err)
+    }
+    await tick()
+    abort.signal.throwIfAborted()
+  }
+
+  // Started after a tick so the response, and its headers, go out first.
+  const done = tick().then(() => run(emit, abort.signal)).then(
+    () => writer.close(),
+    async (err) => {
+      if (abort.signal.aborted) return writer.abort(err).catch(() => {})
+      console.error('stream failed', err)
+      const event: DetectStreamEvent = { type: 'error', error: { code: 'internal_error', message: 'The scan failed' } }
+      await writer.write(encoder.encode(encode(format, event))).catch(() => {})
+      await writer.close().catch(() => {})
+    }
+  )
+  ctx.waitUntil(done)
+
+  return new Response(readable, {
+    headers: { 'Content-Type': CONTENT_TYPES[format], 'Cache-Control': 'no-cache' },
+  })
+}
@@ -0,0 +1,175 @@
+import type { Author, AuthorComparison, LanguageCode, StyleFeature, StyleVerdict } from '../../shared/api'
+import { computeSignals, tokenizeWords, wordCounts, wordSpans } from './scoring'
+import { DEFAULT_WEIGHTS } from './weights'
+
+/** The author's most frequent words and character trigrams that make up the profile. */
+export const STYLE_WORDS = 100
+export const STYLE_NGRAMS = 100
+const NGRAM = 3
+
+/**
+ * Signals that don't drift with text length. Repetition and the unique-word
+ * ratio are left out: a longer text repeats more whoever wrote it.
+ */
+const STYLE_SIGNALS = ['burstiness', 'punctuation_rate', 'avg_word_len'] as const
+type StyleSignal = typeof STYLE_SIGNALS[number]
+
+/** How much each signal moves between two texts by the same writer, added to the spread between the samples. */
+const SIGNAL_NOISE: Record<StyleSignal, number> = {
+  burstiness: 0.08,
+  punctuation_rate: 0.005,
+  avg_word_len: 0.25,
+}
+
+/** Mean |z| of a text that fits the profile: the expected |x| of a standard normal. */
+const EXPECTED_DELTA = Math.sqrt(2 / Math.PI)
+
+/** Least baseline the verdict divides by: identical samples have a baseline of 0. */
+const MIN_BASELINE = EXPECTED_DELTA / 2
+
+/** Delta over the author's own typical Delta: up to CONSISTENT reads as theirs, past UNUSUAL as someone else's. */
+const CONSISTENT = 1.25
+const UNUSUAL = 1.6
+
+const MAX_FEATURES = 8
+const MIN_HALF_WORDS = 50
+
+type Frequencies = { total: number; counts: Map<string, number> }
+
+export type Style = {
+  words: Frequencies
+  chars: Frequencies
+  signals: Record<StyleSignal, number>
+}
+
+/* =======================
+   FEATURES
+======================= */
+
+function charNgrams(text: string): Frequencies {
+  const chars = [...text.toLowerCase().replace(/\s+/g, ' ')]
+  const counts = new Map<string, number>()
+  for (let i = 0; i + NGRAM <= chars.length; i++) {
+    const gram = chars.slice(i, i + NGRAM).join('')
+    counts.set(gram, (counts.get(gram) ?? 0) + 1)
+  }
+  return { total: Math.max(0, chars.length - NGRAM + 1), counts }
+}
+
+export function styleOf(text: string, lang: LanguageCode): Style {
+  const words = tokenizeWords(text).filter(w => !/^\p{N}+$/u.test(w))
+  const signals = computeSignals(text, lang)
+  return {
+    words: { total: words.length, counts: wordCounts(words) },
+    chars: charNgrams(text),
+    signals: Object.fromEntries(STYLE_SIGNALS.map(k => [k, signals[k]])) as Record<StyleSignal, number>,
+  }
+}
+
+/** The `n` most frequent keys over all the samples together; ties go alphabetically so profiles are stable. */
+function topKeys(samples: Frequencies[], n: number) {
+  const totals = new Map<string, number>()
+  for (const s of samples) for (const [k, c] of s.counts) totals.set(k, (totals.get(k) ?? 0) + c)
+  return [...totals.entries()]
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+    .slice(0, n)
+    .map(([k]) => k)
+}
+
+/* =======================
+   DELTA
+======================= */
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / (xs.length || 1)
+
+function variance(xs: number[]) {
+  const m = mean(xs)
+  return xs.length > 1 ? xs.reduce((a, x) => a + (x - m) ** 2, 0) / (xs.length - 1) : 0
+}
+
+const rate = (f: Frequencies, key: string) => (f.total ? (f.counts.get(key) ?? 0) / f.total : 0)
+
+/**
+ * A rate against the samples' rates. The spread is the variation between the
+ * samples plus the binomial noise of measuring a rate in texts this long, so
+ * short texts and profiles with one or two samples don't produce huge z-scores.
+ */
+function frequencyFeature(kind: 'word' | 'chars', key: string, text: Frequencies, samples: Frequencies[]): StyleFeature {
+  const rates = samples.map(s => rate(s, key))
+  const baseline = mean(rates)
+  const value = rate(text, key)
+  const p = (baseline + value) / 2
+  const length = mean(samples.map(s => s.total))
+  const sd = Math.sqrt(variance(rates) + p * (1 - p) * (1 / Math.max(1, length) + 1 / Math.max(1, text.total)))
+  return { kind, key, value, baseline, z: sd > 0 ? (value - baseline) / sd : 0 }
+}
+
+function signalFeature(key: StyleSignal, text: Style, samples: Style[]): StyleFeature {
+  const values = samples.map(s => s.signals[key])
+  const baseline = mean(values)
+  const value = text.signals[key]
+  const sd = Math.sqrt(variance(values) + SIGNAL_NOISE[key] ** 2)
+  return { kind: 'signal', key, value, baseline, z: (value - baseline) / sd }
+}
+
+/** Burrows' Delta of `text` from `samples` over the given words and trigrams, per group and overall. */
+export function styleDelta(text: Style, samples: Style[], words: string[], ngrams: string[]) {
+  const groups = {
+    words: words.map(k => frequencyFeature('word', k, text.words, samples.map(s => s.words))),
+    chars: ngrams.map(k => frequencyFeature('chars', k, text.chars, samples.map(s => s.chars))),
+    signals: STYLE_SIGNALS.map(k => signalFeature(k, text, samples)),
+  }
+  const delta = (fs: StyleFeature[]) => mean(fs.map(f => Math.abs(f.z)))
+  const parts = { words: delta(groups.words), chars: delta(groups.chars), signals: delta(groups.signals) }
+
+  return {
+    delta: (parts.words + parts.chars + parts.signals) / 3,
+    groups: parts,
+    features: [...groups.words, ...groups.chars, ...groups.signals],
+  }
+}
+
+/** With one sample there is nothing to leave out: its second half is measured against its first. */
+function halvesDelta(text: string, lang: LanguageCode, words: string[], ngrams: string[]) {
+  const spans = wordSpans(text)
+  if (spans.length < 2 * MIN_HALF_WORDS) return null
+  const cut = spans[Math.floor(spans.length / 2)].start
+  return styleDelta(styleOf(text.slice(cut), lang), [styleOf(text.slice(0, cut), lang)], words, ngrams).delta
+}
+
+function verdictFor(ratio: number): StyleVerdict {
+  return ratio <= CONSISTENT ? 'consistent' : ratio <= UNUSUAL ? 'unusual' : 'inconsistent'
+}
+
+/**
+ * How far `text` is from the author's writing. The profile is the author's
+ * STYLE_WORDS most frequent words (mostly function words), STYLE_NGRAMS most
+ * frequent character trigrams and the length-independent signals. The verdict
+ * reads Delta against the author's own baseline, each sample measured against
+ * the others, so a writer whose samples vary a lot isn't flagged for varying.
+ */
+export function compareToAuthor(text: string, lang: LanguageCode, author: Author): AuthorComparison {
+  const samples = author.samples.map(s => styleOf(s.text, lang))
+  const words = topKeys(samples.map(s => s.words), STYLE_WORDS)
+  const ngrams = topKeys(samples.map(s => s.chars), STYLE_NGRAMS)
+
+  const result = styleDelta(styleOf(text, lang), samples, words, ngrams)
+  const baseline_delta = samples.length > 1
+    ? mean(samples.map((s, i) => styleDelta(s, samples.filter((_, j) => j !== i), words, ngrams).delta))
+    : halvesDelta(author.samples[0].text, lang, words, ngrams)
+
+  const current = author.samples.filter(s => s.weights_version === DEFAULT_WEIGHTS.version)
+  return {
+    author: { id: author.id, name: author.name },
+    samples: samples.length,
+    delta: result.delta,
+    groups: result.groups,
+    baseline_delta,
+    verdict: verdictFor(result.delta / Math.max(baseline_delta ?? EXPECTED_DELTA, MIN_BASELINE)),
+    features: result.features
+      .filter(f => f.z !== 0)
+      .sort((a, b) => Math.abs(b.z) - Math.abs(a.z))
+      .slice(0, MAX_FEATURES),
+    baseline_ai_probability: current.length ? mean(current.map(s => s.ai_probability)) : null,
+  }
+}
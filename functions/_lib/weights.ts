@@ -0,0 +1,49 @@
+import { DETECTORS, type Detector } from '../../shared/api'
+import bundled from './weights.json'
+
+export type HeuristicComponent = 'lowBurst' | 'rep' | 'lowUnique' | 'punctMid' | 'wordLenMid'
+export type EnsembleMember = Detector
+
+export type Calibration =
+  | { method: 'identity' }
+  | { method: 'platt'; a: number; b: number }
+  | { method: 'isotonic'; x: number[]; y: number[] }
+
+/**
+ * Versioned output of `npm run calibrate`. The detector reads the bundled
+ * weights.json; retraining rewrites that file and bumps `version`.
+ */
+export type DetectorWeights = {
+  version: number
+  trained_at: string | null
+  corpus: string | null
+  records: number
+  heuristic: Record<HeuristicComponent, number>
+  ensemble: Record<EnsembleMember, number>
+  calibration: Calibration
+}
+
+export const HEURISTIC_COMPONENTS: HeuristicComponent[] = ['lowBurst', 'rep', 'lowUnique', 'punctMid', 'wordLenMid']
+export const ENSEMBLE_MEMBERS: EnsembleMember[] = [...DETECTORS]
+
+export const DEFAULT_WEIGHTS = bundled as DetectorWeights
+
+/** Map a raw ensemble score onto a calibrated probability. */
+export function applyCalibration(score: number, c: Calibration): number {
+  switch (c.method) {
+    case 'identity':
+      return score
+    case 'platt':
+      return 1 / (1 + Math.exp(-(c.a * score + c.b)))
+    case 'isotonic': {
+      const { x, y } = c
+      if (!x.length) return score
+      if (score <= x[0]) return y[0]
+      if (score >= x[x.length - 1]) return y[y.length - 1]
+      let i = 1
+      while (x[i] < score) i++
+      const t = (score - x[i - 1]) / (x[i] - x[i - 1] || 1)
+      return y[i - 1] + t * (y[i] - y[i - 1])
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import {
+  WRITING_ISSUES,
+  type DetectedLanguage,
+  type Readability,
+  type WritingAnnotation,
+  type WritingIssue,
+} from '../../../shared/api'
+import { baselineFor } from '../lang'
+import { phrasePattern } from '../patterns'
+import { splitSentenceSpans, tokenizeWords, wordCounts, wordSpans } from '../scoring'
+import { FILLER_PHRASES, IRREGULAR_PARTICIPLES, STOCK_PHRASES, STOPWORDS, type Phrase } from './lexicon'
+
+/** Sentences longer than this many words (scaled per language) are flagged as hard to follow. */
+export const LONG_SENTENCE_WORDS = 30
+
+/** Sentences this short or shorter are flagged as fragments. */
+export const SHORT_SENTENCE_WORDS = 3
+
+/** A content word is overused from this many occurrences and this share of all words. */
+const OVERUSED_MIN_COUNT = 3
+const OVERUSED_MIN_SHARE = 0.01
+const MAX_OVERUSED = 10
+
+export type WritingResult = {
+  readability: Readability | null
+  overused: { word: string; count: number }[]
+  counts: Record<WritingIssue, number>
+  annotations: WritingAnnotation[]
+}
+
+/**
+ * Readability, style and stock-phrase diagnostics for `raw`, with every finding
+ * as offsets into `raw`. Readability, phrase lists and passive voice are English
+ * only; sentence-length flags and overused words apply to every language.
+ */
+export function analyzeWriting(raw: string, language: DetectedLanguage): WritingResult {
+  const lang = language.code
+  const english = lang === 'en'
+
+  const annotations = [
+    ...(english ? phraseAnnotations(raw, STOCK_PHRASES, 'stock_phrase') : []),
+    ...(english ? phraseAnnotations(raw, FILLER_PHRASES, 'filler') : []),
+    ...(english ? passiveAnnotations(raw) : []),
+    ...sentenceAnnotations(raw, lang),
+  ]
+  const { overused, annotations: repeats } = overusedWords(raw, english)
+
+  const all = withoutOverlaps([...annotations, ...repeats])
+  const counts = Object.fromEntries(WRITING_ISSUES.map(k => [k, all.filter(a => a.kind === k).length])) as Record<WritingIssue, number>
+
+  return {
+    readability: english ? readability(raw) : null,
+    overused,
+    counts,
+    annotations: all,
+  }
+}
+
+/* =======================
+   READABILITY
+======================= */
+
+/** Vowel-group heuristic with the usual silent-e and -es/-ed corrections. */
+export function syllables(word: string) {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '')
+  if (!w) return 0
+  if (w.length <= 3) return 1
+  const trimmed = w.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '').replace(/^y/, '')
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 0)
+}
+
+const round = (n: number) => Math.round(n * 10) / 10
+
+export function readability(raw: string): Readability {
+  const words = wordSpans(raw).filter(w => /\p{L}/u.test(w.text))
+  const sentences = Math.max(1, splitSentenceSpans(raw, 'en').length)
+  const n = Math.max(1, words.length)
+
+  let syl = 0
+  let complex = 0
+  for (const w of words) {
+    const s = syllables(w.text)
+    syl += s
+    const original = raw.slice(w.start, w.end)
+    if (s >= 3 && original[0] === original[0].toLowerCase()) complex++
+  }
+
+  const wps = n / sentences
+  const spw = syl / n
+
+  return {
+    flesch_reading_ease: round(206.835 - 1.015 * wps - 84.6 * spw),
+    flesch_kincaid_grade: round(0.39 * wps + 11.8 * spw - 15.59),
+    gunning_fog: round(0.4 * (wps + 100 * (complex / n))),
+    words: words.length,
+    sentences,
+    syllables_per_word: Math.round(spw * 100) / 100,
+    complex_word_ratio: Math.round((complex / n) * 1000) / 1000,
+  }
+}
+
+/* =======================
+   PHRASES & VOICE
+======================= */
+
+const PATTERNS = new Map<Phrase[], { phrase: Phrase; re: RegExp }[]>()
+
+function patternsFor(list: Phrase[]) {
+  let compiled = PATTERNS.get(list)
+  if (!compiled) {
+    // Longest first, so "in today's fast-paced world" wins over "in today's world".
+    compiled = [...list]
+      .sort((a, b) => b.phrase.length - a.phrase.length)
+      .map(phrase => ({ phrase, re: phrasePattern(phrase.phrase) }))
+    PATTERNS.set(list, compiled)
+  }
+  return compiled
+}
+
+function phraseAnnotations(raw: string, list: Phrase[], kind: 'stock_phrase' | 'filler'): WritingAnnotation[] {
+  const out: WritingAnnotation[] = []
+  for (const { phrase, re } of patternsFor(list)) {
+    for (const m of raw.matchAll(re)) {
+      out.push({
+        kind,
+        start: m.index!,
+        end: m.index! + m[0].length,
+        text: m[0],
+        message: kind === 'stock_phrase'
+          ? 'Stock phrasing that reads as machine-generated.'
+          : phrase.suggestion ? 'Wordy; a shorter form says the same.' : 'Filler; the sentence works without it.',
+        suggestion: phrase.suggestion,
+      })
+    }
+  }
+  return out
+}
+
+const PASSIVE = new RegExp(
+  `(?<![\\p{L}'’])(?:am|is|are|was|were|be|been|being)\\s+(?:\\p{L}+ly\\s+)?(?:\\p{L}+ed|${IRREGULAR_PARTICIPLES.join('|')})(?![\\p{L}'’])`,
+  'giu'
+)
+
+function passiveAnnotations(raw: string): WritingAnnotation[] {
+  return [...raw.matchAll(PASSIVE)].map(m => ({
+    kind: 'passive' as const,
+    start: m.index!,
+    end: m.index! + m[0].length,
+    text: m[0],
+    message: 'Passive voice; consider saying who did it.',
+  }))
+}
+
+/* =======================
+   SENTENCES & REPETITION
+======================= */
+
+function sentenceAnnotations(raw: string, lang: DetectedLanguage['code']): WritingAnnotation[] {
+  const scale = baselineFor(lang).lengthScale
+  const long = Math.round(LONG_SENTENCE_WORDS * scale)
+  const short = Math.round(SHORT_SENTENCE_WORDS * scale)
+  const out: WritingAnnotation[] = []
+
+  for (const s of splitSentenceSpans(raw, lang)) {
+    const n = tokenizeWords(s.text).length
+    if (n > long) {
+      out.push({ kind: 'long_sentence', start: s.start, end: s.end, text: s.text, message: `${n} words; consider splitting it.` })
+    } else if (n > 0 && n <= short) {
+      out.push({ kind: 'short_sentence', start: s.start, end: s.end, text: s.text, message: `${n} word${n === 1 ? '' : 's'}; a fragment, or merge it with a neighbour.` })
+    }
+  }
+  return out
+}
+
+/** Frequent content words, from the same token counts the repetition signal uses. */
+function overusedWords(raw: string, english: boolean) {
+  const spans = wordSpans(raw)
+  const counts = wordCounts(spans.map(w => w.text))
+  const minCount = Math.max(OVERUSED_MIN_COUNT, Math.ceil(spans.length * OVERUSED_MIN_SHARE))
+
+  const overused = [...counts.entries()]
+    .filter(([w, c]) => c >= minCount && [...w].length >= 4 && !(english && STOPWORDS.has(w)))
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+    .slice(0, MAX_OVERUSED)
+    .map(([word, count]) => ({ word, count }))
+
+  const listed = new Map(overused.map(o => [o.word, o.count]))
+  const annotations: WritingAnnotation[] = spans
+    .filter(w => listed.has(w.text))
+    .map(w => ({
+      kind: 'overused',
+      start: w.start,
+      end: w.end,
+      text: raw.slice(w.start, w.end),
+      message: `Used ${listed.get(w.text)} times; vary the wording or cut some.`,
+    }))
+
+  return { overused, annotations }
+}
+
+/**
+ * Sorted by position. Phrase-level findings that overlap an earlier, more
+ * important one (in WRITING_ISSUES order) are dropped; sentence flags can
+ * contain phrase findings and are always kept.
+ */
+function withoutOverlaps(annotations: WritingAnnotation[]): WritingAnnotation[] {
+  const rank = (a: WritingAnnotation) => WRITING_ISSUES.indexOf(a.kind)
+  const isSentence = (a: WritingAnnotation) => a.kind === 'long_sentence' || a.kind === 'short_sentence'
+
+  const kept: WritingAnnotation[] = []
+  for (const a of [...annotations].sort((x, y) => rank(x) - rank(y) || x.start - y.start)) {
+    if (!isSentence(a) && kept.some(k => !isSentence(k) && k.start < a.end && a.start < k.end)) continue
+    kept.push(a)
+  }
+  return kept.sort((x, y) => x.start - y.start || rank(x) - rank(y))
+}
@@ -0,0 +1,111 @@
+/**
+ * English word lists for the writing-feedback scan. Phrases are matched
+ * case-insensitively on word boundaries; a suggestion of '' means "cut it".
+ */
+
+export type Phrase = {
+  phrase: string
+  suggestion: string
+}
+
+/** Wordy constructions with a shorter equivalent. */
+export const FILLER_PHRASES: Phrase[] = [
+  { phrase: 'in order to', suggestion: 'to' },
+  { phrase: 'due to the fact that', suggestion: 'because' },
+  { phrase: 'owing to the fact that', suggestion: 'because' },
+  { phrase: 'in spite of the fact that', suggestion: 'although' },
+  { phrase: 'at this point in time', suggestion: 'now' },
+  { phrase: 'at the present time', suggestion: 'now' },
+  { phrase: 'in the event that', suggestion: 'if' },
+  { phrase: 'for the purpose of', suggestion: 'to' },
+  { phrase: 'with regard to', suggestion: 'about' },
+  { phrase: 'with respect to', suggestion: 'about' },
+  { phrase: 'in terms of', suggestion: 'in' },
+  { phrase: 'a large number of', suggestion: 'many' },
+  { phrase: 'the majority of', suggestion: 'most' },
+  { phrase: 'is able to', suggestion: 'can' },
+  { phrase: 'are able to', suggestion: 'can' },
+  { phrase: 'has the ability to', suggestion: 'can' },
+  { phrase: 'it is important to note that', suggestion: '' },
+  { phrase: 'it should be noted that', suggestion: '' },
+  { phrase: 'needless to say', suggestion: '' },
+  { phrase: 'as a matter of fact', suggestion: 'in fact' },
+  { phrase: 'each and every', suggestion: 'every' },
+  { phrase: 'first and foremost', suggestion: 'first' },
+  { phrase: 'basically', suggestion: '' },
+  { phrase: 'actually', suggestion: '' },
+  { phrase: 'really', suggestion: '' },
+  { phrase: 'very', suggestion: '' },
+  { phrase: 'quite', suggestion: '' },
+  { phrase: 'just', suggestion: '' },
+  { phrase: 'totally', suggestion: '' },
+  { phrase: 'literally', suggestion: '' },
+]
+
+/** Stock phrasing that language models reach for far more often than people do. */
+export const STOCK_PHRASES: Phrase[] = [
+  { phrase: "in today's fast-paced world", suggestion: 'Say what actually changed, and when.' },
+  { phrase: "in today's digital age", suggestion: 'Name the specific change you mean.' },
+  { phrase: "in today's world", suggestion: 'Be specific about time and place.' },
+  { phrase: 'in the ever-evolving landscape of', suggestion: 'Name the field directly.' },
+  { phrase: 'ever-evolving', suggestion: 'changing' },
+  { phrase: 'delve into', suggestion: 'look at' },
+  { phrase: 'delves into', suggestion: 'looks at' },
+  { phrase: 'dive into', suggestion: 'look at' },
+  { phrase: 'a testament to', suggestion: 'shows' },
+  { phrase: 'plays a crucial role in', suggestion: 'matters for' },
+  { phrase: 'plays a pivotal role in', suggestion: 'matters for' },
+  { phrase: 'plays a vital role in', suggestion: 'matters for' },
+  { phrase: 'navigate the complexities of', suggestion: 'handle' },
+  { phrase: 'in the realm of', suggestion: 'in' },
+  { phrase: 'rich tapestry', suggestion: 'Describe the actual variety.' },
+  { phrase: 'tapestry of', suggestion: 'mix of' },
+  { phrase: 'unlock the potential of', suggestion: 'make better use of' },
+  { phrase: 'unleash the power of', suggestion: 'use' },
+  { phrase: 'harness the power of', suggestion: 'use' },
+  { phrase: 'embark on a journey', suggestion: 'start' },
+  { phrase: 'it is worth noting that', suggestion: '' },
+  { phrase: "it's worth noting that", suggestion: '' },
+  { phrase: 'it is important to remember that', suggestion: '' },
+  { phrase: 'in conclusion', suggestion: 'Let the last paragraph conclude on its own.' },
+  { phrase: 'in summary', suggestion: 'Let the last paragraph summarise on its own.' },
+  { phrase: 'at the end of the day', suggestion: 'ultimately' },
+  { phrase: 'a game-changer', suggestion: 'Say what it changes.' },
+  { phrase: 'game-changing', suggestion: 'Say what it changes.' },
+  { phrase: 'seamlessly', suggestion: 'Show how it fits instead.' },
+  { phrase: 'seamless', suggestion: 'Show how it fits instead.' },
+  { phrase: 'cutting-edge', suggestion: 'new' },
+  { phrase: 'robust', suggestion: 'Say what it withstands.' },
+  { phrase: 'leverage', suggestion: 'use' },
+  { phrase: 'foster', suggestion: 'encourage' },
+  { phrase: 'elevate', suggestion: 'improve' },
+  { phrase: 'multifaceted', suggestion: 'Name the facets.' },
+  { phrase: 'furthermore', suggestion: 'also' },
+  { phrase: 'moreover', suggestion: 'also' },
+]
+
+/** Irregular past participles, for passive voice ("was written"); regular ones end in -ed. */
+export const IRREGULAR_PARTICIPLES = [
+  'begun', 'bitten', 'blown', 'born', 'borne', 'bought', 'bound', 'broken', 'brought', 'built', 'caught',
+  'chosen', 'done', 'drawn', 'driven', 'drunk', 'eaten', 'fallen', 'felt', 'forbidden', 'forgiven', 'forgotten',
+  'found', 'frozen', 'given', 'gone', 'grown', 'heard', 'held', 'hidden', 'hit', 'hung', 'hurt', 'kept', 'known',
+  'laid', 'led', 'left', 'lent', 'lost', 'made', 'meant', 'met', 'paid', 'put', 'read', 'ridden', 'rung', 'run',
+  'said', 'seen', 'sent', 'set', 'shaken', 'shot', 'shown', 'shut', 'sold', 'sought', 'spent', 'spoken', 'spread',
+  'stolen', 'struck', 'sung', 'sunk', 'swept', 'swum', 'taken', 'taught', 'thought', 'thrown', 'told', 'torn',
+  'understood', 'woken', 'won', 'worn', 'written',
+]
+
+/** Function words left out of the overused-word list. */
+export const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do',
+  'does', 'doing', 'down', 'during', 'each', 'few', 'for', 'from', 'further', 'had', 'has', 'have', 'having', 'he',
+  'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its',
+  'itself', 'just', 'me', 'more', 'most', 'my', 'myself', 'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once',
+  'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out', 'over', 'own', 'same', 'she', 'should', 'so', 'some',
+  'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'themselves', 'then', 'there', 'these', 'they', 'this',
+  'those', 'through', 'to', 'too', 'under', 'until', 'up', 'very', 'was', 'we', 'were', 'what', 'when', 'where',
+  'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'yours', 'yourself',
+  'yourselves', "it's", "don't", "i'm", 'one', 'may', 'might', 'must', 'shall', 'yet', 'still', 'even', 'much',
+  'many', 'every', "that's",
+])
@@ -0,0 +1,86 @@
+import { DEFAULT_IP_RATE_LIMIT, type ErrorCode } from '../../shared/api'
+import { corsHeaders } from '../_lib/cors'
+import type { Env } from '../_lib/env'
+import { errorJson, withHeaders } from '../_lib/http'
+import { authenticate, requestSecret } from '../_lib/keys'
+import type { RequestData } from '../_lib/owner'
+import { DAY, MINUTE, hit, limitHeaders, type Limit } from '../_lib/ratelimit'
+
+/* =======================
+   CORS
+======================= */
+
+const cors: PagesFunction<Env> = async (ctx) => {
+  const headers = corsHeaders(ctx.request, ctx.env)
+  if (ctx.request.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: { ...headers, 'Access-Control-Max-Age': '86400' } })
+  }
+  return withHeaders(await ctx.next(), headers)
+}
+
+/* =======================
+   AUTH + RATE LIMITS
+======================= */
+
+const ADMIN_PATH = /^\/api\/(v1\/)?admin\//
+const CORPUS_PATH = /^\/api\/(v1\/)?corpus\//
+
+/** The admin routes and corpus writes check ADMIN_KEY themselves; they are only rate-limited per IP here. */
+function adminRoute(request: Request) {
+  const path = new URL(request.url).pathname
+  return ADMIN_PATH.test(path) || (CORPUS_PATH.test(path) && request.method !== 'GET')
+}
+
+function ipRateLimit(env: Env) {
+  const n = Number(env.IP_RATE_LIMIT)
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_IP_RATE_LIMIT
+}
+
+function tooMany(code: Extract<ErrorCode, 'rate_limited' | 'quota_exceeded'>, limit: Limit) {
+  const message = code === 'rate_limited'
+    ? `Rate limit exceeded (${limit.limit} requests per minute); retry in ${limit.reset}s`
+    : `Daily quota exceeded (${limit.limit} requests per day); retry in ${limit.reset}s`
+  return withHeaders(errorJson({ code, message }), limitHeaders(limit))
+}
+
+function unauthorized(message: string) {
+  return withHeaders(errorJson({ code: 'unauthorized', message }), { 'WWW-Authenticate': 'Bearer' })
+}
+
+/**
+ * With an API_KEYS binding, requests carrying a valid key are limited per key
+ * (per minute, and per UTC day when the key has a quota). Everything else is
+ * limited per IP first, so guessing keys is throttled too, and then needs a
+ * key unless REQUIRE_API_KEY is "false". Without the binding the API is open.
+ * The key's id is passed on in `ctx.data` for handlers that keep per-caller data.
+ */
+const guard: PagesFunction<Env, string, RequestData> = async (ctx) => {
+  const kv = ctx.env.API_KEYS
+  if (!kv) return ctx.next()
+
+  const admin = adminRoute(ctx.request)
+  const secret = admin ? null : requestSecret(ctx.request)
+  const key = secret ? await authenticate(kv, secret) : null
+
+  if (key) {
+    const minute = await hit(kv, `key:${key.id}`, key.rate_limit, MINUTE)
+    if (!minute.ok) return tooMany('rate_limited', minute)
+    if (key.daily_quota != null) {
+      const day = await hit(kv, `day:${key.id}`, key.daily_quota, DAY)
+      if (!day.ok) return tooMany('quota_exceeded', day)
+    }
+    ctx.data.keyId = key.id
+    return withHeaders(await ctx.next(), limitHeaders(minute))
+  }
+
+  const ip = ctx.request.headers.get('CF-Connecting-IP') ?? 'unknown'
+  const perIp = await hit(kv, `ip:${ip}`, ipRateLimit(ctx.env), MINUTE)
+  if (!perIp.ok) return tooMany('rate_limited', perIp)
+  if (secret) return unauthorized('Invalid or revoked API key')
+  if (!admin && ctx.env.REQUIRE_API_KEY !== 'false') {
+    return unauthorized('Missing API key (send it as "Authorization: Bearer <key>")')
+  }
+  return withHeaders(await ctx.next(), limitHeaders(perIp))
+}
+
+export const onRequest = [cors, guard]
@@ -0,0 +1,2 @@
+// Unversioned alias for the current API version.
+export { onRequestGet, onRequestPost } from '../../v1/admin/keys'
@@ -0,0 +1,2 @@
+// Unversioned alias for the current API version.
+export { onRequestDelete, onRequestPut } from '../../../v1/authors/[id]/samples/[sample]'
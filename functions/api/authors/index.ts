@@ -0,0 +1,2 @@
+// Unversioned alias for the current API version.
+export { onRequestGet } from '../v1/authors'
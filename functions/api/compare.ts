@@ -0,0 +1,2 @@
+// Unversioned alias for the current API version.
+export { onRequestPost } from './v1/compare'
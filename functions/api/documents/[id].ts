@@ -0,0 +1,2 @@
+// Unversioned alias for the current API version.
+export { onRequestDelete, onRequestGet, onRequestPut } from '../v1/documents/[id]'
@@ -0,0 +1,36 @@
+import { API_VERSION, type ApiKeyResponse } from '../../../../../shared/api'
+import { resolveAdmin } from '../../../../_lib/admin'
+import type { Env } from '../../../../_lib/env'
+import { errorJson, json } from '../../../../_lib/http'
+import { KEY_ID, getKey, revokeKey } from '../../../../_lib/keys'
+
+type Params = 'id'
+
+function notFound(id: string) {
+  return errorJson({ code: 'not_found', message: `No API key "${id}"`, field: 'id' })
+}
+
+export const onRequestGet: PagesFunction<Env, Params> = async (ctx) => {
+  const r = resolveAdmin(ctx.request, ctx.env)
+  if (!r.ok) return r.response
+
+  const id = String(ctx.params.id)
+  const key = KEY_ID.test(id) ? await getKey(r.kv, id) : null
+  if (!key) return notFound(id)
+
+  const body: ApiKeyResponse = { api_version: API_VERSION, key }
+  return json(body)
+}
+
+/** Revoke a key. It stays listed with its `revoked_at`; revoking twice is a no-op. */
+export const onRequestDelete: PagesFunction<Env, Params> = async (ctx) => {
+  const r = resolveAdmin(ctx.request, ctx.env)
+  if (!r.ok) return r.response
+
+  const id = String(ctx.params.id)
+  const key = KEY_ID.test(id) ? await revokeKey(r.kv, id) : null
+  if (!key) return notFound(id)
+
+  const body: ApiKeyResponse = { api_version: API_VERSION, key }
+  return json(body)
+}
@@ -0,0 +1,29 @@
+import { API_VERSION, type ApiKeyCreatedResponse, type ApiKeyListResponse } from '../../../../../shared/api'
+import { parseApiKeyCreate } from '../../../../../shared/validate'
+import { resolveAdmin } from '../../../../_lib/admin'
+import type { Env } from '../../../../_lib/env'
+import { errorJson, json, readJson } from '../../../../_lib/http'
+import { createKey, listKeys } from '../../../../_lib/keys'
+
+export const onRequestGet: PagesFunction<Env> = async (ctx) => {
+  const r = resolveAdmin(ctx.request, ctx.env)
+  if (!r.ok) return r.response
+
+  const body: ApiKeyListResponse = { api_version: API_VERSION, keys: await listKeys(r.kv) }
+  return json(body)
+}
+
+/** Create a key. The secret is in this response only; it is stored hashed. */
+export const onRequestPost: PagesFunction<Env> = async (ctx) => {
+  const r = resolveAdmin(ctx.request, ctx.env)
+  if (!r.ok) return r.response
+
+  const read = await readJson(ctx.request)
+  if (!read.ok) return read.response
+
+  const parsed = parseApiKeyCreate(read.body)
+  if (!parsed.ok) return errorJson(parsed.error)
+
+  const body: ApiKeyCreatedResponse = { api_version: API_VERSION, ...(await createKey(r.kv, parsed.value)) }
+  return json(body, 201)
+}
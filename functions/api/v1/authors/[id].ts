@@ -0,0 +1,65 @@
+import { API_VERSION, type Author, type AuthorResponse } from '../../../../shared/api'
+import { AUTHOR_ID } from '../../../../shared/documents'
+import { parseAuthorUpsert } from '../../../../shared/validate'
+import { authorDetail, deleteAuthor, getAuthor, putAuthor } from '../../../_lib/authors'
+import type { Env } from '../../../_lib/env'
+import { errorJson, json, readJson, storageUnavailable } from '../../../_lib/http'
+import { resolveOwner, type RequestData } from '../../../_lib/owner'
+
+type Params = 'id'
+
+function notFound(id: string) {
+  return errorJson({ code: 'not_found', message: `No author "${id}"`, field: 'id' })
+}
+
+/** The KV binding, the caller and a well-formed id, or the response to send instead. */
+function resolve(ctx: EventContext<Env, Params, RequestData>) {
+  const kv = ctx.env.AUTHORS
+  const id = String(ctx.params.id)
+  if (!kv) return { ok: false as const, response: storageUnavailable('AUTHORS') }
+  const owner = resolveOwner(ctx.request, ctx.data)
+  if (!owner.ok) return owner
+  if (!AUTHOR_ID.test(id)) return { ok: false as const, response: notFound(id) }
+  return { ok: true as const, kv, owner: owner.owner, id }
+}
+
+export const onRequestGet: PagesFunction<Env, Params, RequestData> = async (ctx) => {
+  const r = resolve(ctx)
+  if (!r.ok) return r.response
+
+  const author = await getAuthor(r.kv, r.owner, r.id)
+  if (!author) return notFound(r.id)
+
+  const body: AuthorResponse = { api_version: API_VERSION, author: authorDetail(author) }
+  return json(body)
+}
+
+/** Create an author, or rename one and keep their samples. */
+export const onRequestPut: PagesFunction<Env, Params, RequestData> = async (ctx) => {
+  const r = resolve(ctx)
+  if (!r.ok) return r.response
+
+  const read = await readJson(ctx.request)
+  if (!read.ok) return read.response
+
+  const parsed = parseAuthorUpsert(read.body)
+  if (!parsed.ok) return errorJson(parsed.error)
+
+  const now = new Date().toISOString()
+  const existing = await getAuthor(r.kv, r.owner, r.id)
+  const author: Author = existing
+    ? { ...existing, name: parsed.value.name, updated_at: now }
+    : { id: r.id, name: parsed.value.name, created_at: now, updated_at: now, samples: [] }
+  await putAuthor(r.kv, r.owner, author)
+
+  const body: AuthorResponse = { api_version: API_VERSION, author: authorDetail(author) }
+  return json(body)
+}
+
+export const onRequestDelete: PagesFunction<Env, Params, RequestData> = async (ctx) => {
+  const r = resolve(ctx)
+  if (!r.ok) return r.response
+
+  if (!(await deleteAuthor(r.kv, r.owner, r.id))) return notFound(r.id)
+  return new Response(null, { status: 204 })
+}
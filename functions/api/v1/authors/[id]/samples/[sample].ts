@@ -0,0 +1,80 @@
+import { API_VERSION, MAX_AUTHOR_SAMPLES, type AuthorResponse, type AuthorSample } from '../../../../../../shared/api'
+import { AUTHOR_ID, SOURCE_ID } from '../../../../../../shared/documents'
+import { parseCorpusUpload } from '../../../../../../shared/validate'
+import { analyze } from '../../../../../_lib/analyze'
+import { authorDetail, getAuthor, putAuthor } from '../../../../../_lib/authors'
+import type { Env } from '../../../../../_lib/env'
+import { applyEvasion } from '../../../../../_lib/evasion'
+import { errorJson, json, readJson, storageUnavailable } from '../../../../../_lib/http'
+import { bundledModel } from '../../../../../_lib/lm/bundled'
+import { resolveOwner, type RequestData } from '../../../../../_lib/owner'
+import { tokenizeWords } from '../../../../../_lib/scoring'
+import { DEFAULT_WEIGHTS } from '../../../../../_lib/weights'
+
+type Params = 'id' | 'sample'
+
+function notFound(what: 'author' | 'sample', id: string) {
+  return errorJson({ code: 'not_found', message: `No ${what} "${id}"`, field: what === 'author' ? 'id' : 'sample' })
+}
+
+/** The caller's author and a well-formed sample id, or the response to send instead. */
+async function resolve(ctx: EventContext<Env, Params, RequestData>) {
+  const kv = ctx.env.AUTHORS
+  const id = String(ctx.params.id)
+  const sample = String(ctx.params.sample)
+  if (!kv) return { ok: false as const, response: storageUnavailable('AUTHORS') }
+  const owner = resolveOwner(ctx.request, ctx.data)
+  if (!owner.ok) return owner
+  if (!AUTHOR_ID.test(id)) return { ok: false as const, response: notFound('author', id) }
+
+  const author = await getAuthor(kv, owner.owner, id)
+  if (!author) return { ok: false as const, response: notFound('author', id) }
+  if (!SOURCE_ID.test(sample)) return { ok: false as const, response: notFound('sample', sample) }
+  return { ok: true as const, kv, owner: owner.owner, author, sample }
+}
+
+/**
+ * Add or replace one of the author's samples. It is scored once here, with
+ * the current weights, so comparisons can show the author's usual AI score.
+ */
+export const onRequestPut: PagesFunction<Env, Params, RequestData> = async (ctx) => {
+  const r = await resolve(ctx)
+  if (!r.ok) return r.response
+
+  const read = await readJson(ctx.request)
+  if (!read.ok) return read.response
+
+  const parsed = parseCorpusUpload(read.body)
+  if (!parsed.ok) return errorJson(parsed.error)
+
+  const others = r.author.samples.filter(s => s.id !== r.sample)
+  if (others.length >= MAX_AUTHOR_SAMPLES) {
+    return errorJson({ code: 'invalid_request', message: `An author can have at most ${MAX_AUTHOR_SAMPLES} samples`, field: 'sample' })
+  }
+
+  const text = parsed.value.text.trim()
+  const { scores, evasion } = await analyze(text, await bundledModel())
+  const sample: AuthorSample = {
+    id: r.sample,
+    title: parsed.value.title ?? r.sample,
+    text,
+    added_at: new Date().toISOString(),
+    words: tokenizeWords(text).length,
+    ai_probability: applyEvasion(scores.calibrated, evasion),
+    weights_version: DEFAULT_WEIGHTS.version,
+  }
+  const author = { ...r.author, samples: [...others, sample], updated_at: sample.added_at }
+  await putAuthor(r.kv, r.owner, author)
+
+  const body: AuthorResponse = { api_version: API_VERSION, author: authorDetail(author) }
+  return json(body)
+}
+
+export const onRequestDelete: PagesFunction<Env, Params, RequestData> = async (ctx) => {
+  const r = await resolve(ctx)
+  if (!r.ok) return r.response
+
+  if (!r.author.samples.some(s => s.id === r.sample)) return notFound('sample', r.sample)
+  await putAuthor(r.kv, r.owner, { ...r.author, samples: r.author.samples.filter(s => s.id !== r.sample), updated_at: new Date().toISOString() })
+  return new Response(null, { status: 204 })
+}
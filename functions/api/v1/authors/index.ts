@@ -0,0 +1,15 @@
+import { API_VERSION, type AuthorListResponse } from '../../../../shared/api'
+import { listAuthors } from '../../../_lib/authors'
+import type { Env } from '../../../_lib/env'
+import { json, storageUnavailable } from '../../../_lib/http'
+import { resolveOwner, type RequestData } from '../../../_lib/owner'
+
+export const onRequestGet: PagesFunction<Env, string, RequestData> = async (ctx) => {
+  const kv = ctx.env.AUTHORS
+  if (!kv) return storageUnavailable('AUTHORS')
+  const owner = resolveOwner(ctx.request, ctx.data)
+  if (!owner.ok) return owner.response
+
+  const body: AuthorListResponse = { api_version: API_VERSION, authors: await listAuthors(kv, owner.owner) }
+  return json(body)
+}
@@ -0,0 +1,26 @@
+import { API_VERSION, type CompareResponse } from '../../../shared/api'
+import { parseCompareRequest } from '../../../shared/validate'
+import { compareDrafts } from '../../_lib/compare'
+import type { Env } from '../../_lib/env'
+import { errorJson, json, readJson } from '../../_lib/http'
+import { bundledModel } from '../../_lib/lm/bundled'
+import { DEFAULT_WEIGHTS } from '../../_lib/weights'
+
+/* =======================
+   HTTP HANDLER
+======================= */
+
+export const onRequestPost: PagesFunction<Env> = async (ctx) => {
+  const read = await readJson(ctx.request)
+  if (!read.ok) return read.response
+
+  const parsed = parseCompareRequest(read.body)
+  if (!parsed.ok) return errorJson(parsed.error)
+  const { before, after, options } = parsed.value
+
+  const body: CompareResponse = {
+    api_version: API_VERSION,
+    ...(await compareDrafts(before, after, await bundledModel(), options, DEFAULT_WEIGHTS)),
+  }
+  return json(body)
+}
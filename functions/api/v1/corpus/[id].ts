@@ -0,0 +1,69 @@
+import { API_VERSION, type CorpusSource, type CorpusSourceResponse } from '../../../../shared/api'
+import { SOURCE_ID } from '../../../../shared/documents'
+import { parseCorpusUpload } from '../../../../shared/validate'
+import { checkAdmin } from '../../../_lib/admin'
+import { deleteSource, getSource, putSource } from '../../../_lib/corpus'
+import type { Env } from '../../../_lib/env'
+import { errorJson, json, readJson, storageUnavailable } from '../../../_lib/http'
+
+type Params = 'id'
+
+function notFound(id: string) {
+  return errorJson({ code: 'not_found', message: `No source "${id}"`, field: 'id' })
+}
+
+/** The KV binding and a well-formed id, or the response to send instead. */
+function resolve(ctx: EventContext<Env, Params, unknown>) {
+  const kv = ctx.env.CORPUS
+  const id = String(ctx.params.id)
+  if (!kv) return { ok: false as const, response: storageUnavailable('CORPUS') }
+  if (!SOURCE_ID.test(id)) return { ok: false as const, response: notFound(id) }
+  return { ok: true as const, kv, id }
+}
+
+export const onRequestGet: PagesFunction<Env, Params> = async (ctx) => {
+  const r = resolve(ctx)
+  if (!r.ok) return r.response
+
+  const source = await getSource(r.kv, r.id)
+  if (!source) return notFound(r.id)
+
+  const body: CorpusSourceResponse = { api_version: API_VERSION, source }
+  return json(body)
+}
+
+/** Writes change the corpus every caller is checked against, so they need the admin key. */
+function resolveWrite(ctx: EventContext<Env, Params, unknown>) {
+  const admin = checkAdmin(ctx.request, ctx.env, 'Corpus writes')
+  return admin.ok ? resolve(ctx) : admin
+}
+
+/** Add or replace a reference text and re-index it. */
+export const onRequestPut: PagesFunction<Env, Params> = async (ctx) => {
+  const r = resolveWrite(ctx)
+  if (!r.ok) return r.response
+
+  const read = await readJson(ctx.request)
+  if (!read.ok) return read.response
+
+  const parsed = parseCorpusUpload(read.body)
+  if (!parsed.ok) return errorJson(parsed.error)
+
+  const source: CorpusSource = {
+    id: r.id,
+    title: parsed.value.title ?? r.id,
+    text: parsed.value.text,
+    added_at: new Date().toISOString(),
+  }
+  await putSource(r.kv, source)
+  const body: CorpusSourceResponse = { api_version: API_VERSION, source }
+  return json(body)
+}
+
+export const onRequestDelete: PagesFunction<Env, Params> = async (ctx) => {
+  const r = resolveWrite(ctx)
+  if (!r.ok) return r.response
+
+  if (!(await deleteSource(r.kv, r.id))) return notFound(r.id)
+  return new Response(null, { status: 204 })
+}
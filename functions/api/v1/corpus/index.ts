@@ -0,0 +1,17 @@
+import { API_VERSION, type CorpusListResponse } from '../../../../shared/api'
+import { readIndex, summarizeSource } from '../../../_lib/corpus'
+import type { Env } from '../../../_lib/env'
+import { json, storageUnavailable } from '../../../_lib/http'
+
+export const onRequestGet: PagesFunction<Env> = async (ctx) => {
+  const kv = ctx.env.CORPUS
+  if (!kv) return storageUnavailable('CORPUS')
+
+  const index = await readIndex(kv)
+  const body: CorpusListResponse = {
+    api_version: API_VERSION,
+    updated_at: index.updated_at,
+    sources: index.sources.map(summarizeSource),
+  }
+  return json(body)
+}
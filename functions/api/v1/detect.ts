@@ -0,0 +1,55 @@
+import { API_VERSION, type CalibrationResponse, type DetectResponse } from '../../../shared/api'
+import { parseDetectRequest } from '../../../shared/validate'
+import { resolveAuthor } from '../../_lib/authors'
+import { calibrateText, detectText } from '../../_lib/detect'
+import type { Env } from '../../_lib/env'
+import { errorJson, json, readJson } from '../../_lib/http'
+import { bundledModel } from '../../_lib/lm/bundled'
+import type { RequestData } from '../../_lib/owner'
+import { streamResponse } from '../../_lib/stream'
+import { DEFAULT_WEIGHTS } from '../../_lib/weights'
+
+/* =======================
+   HTTP HANDLER
+======================= */
+
+export const onRequestPost: PagesFunction<Env, string, RequestData> = async (ctx) => {
+  const read = await readJson(ctx.request)
+  if (!read.ok) return read.response
+
+  const parsed = parseDetectRequest(read.body)
+  if (!parsed.ok) return errorJson(parsed.error)
+  const req = parsed.value
+  const model = await bundledModel()
+
+  // CALIBRATION MODE (scan profiles don't apply: it measures the shipped weights)
+  if (req.mode === 'calibration') {
+    const body: CalibrationResponse = {
+      api_version: API_VERSION,
+      ...(await calibrateText(req.text, model, req.options, req.label)),
+    }
+    return json(body)
+  }
+
+  // NORMAL MODE
+  const author = await resolveAuthor(ctx, req.options?.author)
+  if (!author.ok) return author.response
+
+  const format = req.options?.stream
+  if (format) {
+    return streamResponse(ctx, format, async (emit, signal) => {
+      const result = await detectText(req.text, model, req.options, DEFAULT_WEIGHTS, author.author, {
+        signal,
+        detector: detector => emit({ type: 'detector', detector }),
+        window: (window, index, total) => emit({ type: 'window', index, total, window }),
+      })
+      await emit({ type: 'result', result: { api_version: API_VERSION, ...result } })
+    })
+  }
+
+  const body: DetectResponse = {
+    api_version: API_VERSION,
+    ...(await detectText(req.text, model, req.options, DEFAULT_WEIGHTS, author.author)),
+  }
+  return json(body)
+}
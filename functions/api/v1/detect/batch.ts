@@ -0,0 +1,92 @@
+import {
+  API_VERSION,
+  CONFIDENCE_THRESHOLDS,
+  MAX_BATCH_BODY_BYTES,
+  MAX_DOCUMENT_CHARS,
+  type BatchItemResult,
+  type BatchResponse,
+  type BatchStats,
+} from '../../../../shared/api'
+import { parseBatchRequest } from '../../../../shared/validate'
+import { resolveAuthor } from '../../../_lib/authors'
+import { detectText } from '../../../_lib/detect'
+import type { Env } from '../../../_lib/env'
+import { errorJson, json, readJson } from '../../../_lib/http'
+import { bundledModel } from '../../../_lib/lm/bundled'
+import type { RequestData } from '../../../_lib/owner'
+import { DEFAULT_WEIGHTS } from '../../../_lib/weights'
+
+function aggregate(items: BatchItemResult[]): BatchStats {
+  const scores = items
+    .flatMap(i => (i.ok ? [i.ai_probability] : []))
+    .sort((a, b) => a - b)
+  const n = scores.length
+  const mid = Math.floor(n / 2)
+
+  return {
+    total: items.length,
+    scored: n,
+    failed: items.length - n,
+    mean: n ? scores.reduce((a, b) => a + b, 0) / n : null,
+    median: n ? (n % 2 ? scores[mid] : (scores[mid - 1] + scores[mid]) / 2) : null,
+    min: n ? scores[0] : null,
+    max: n ? scores[n - 1] : null,
+    high: scores.filter(s => s >= CONFIDENCE_THRESHOLDS.high).length,
+    medium: scores.filter(s => s >= CONFIDENCE_THRESHOLDS.medium && s < CONFIDENCE_THRESHOLDS.high).length,
+  }
+}
+
+/* =======================
+   HTTP HANDLER
+======================= */
+
+export const onRequestPost: PagesFunction<Env, string, RequestData> = async (ctx) => {
+  const read = await readJson(ctx.request, MAX_BATCH_BODY_BYTES)
+  if (!read.ok) return read.response
+
+  const parsed = parseBatchRequest(read.body)
+  if (!parsed.ok) return errorJson(parsed.error)
+  const { documents, options } = parsed.value
+  const author = await resolveAuthor(ctx, options?.author)
+  if (!author.ok) return author.response
+  const model = await bundledModel()
+
+  const seen = new Set<string>()
+  const results: BatchItemResult[] = []
+
+  // Sequential on purpose: each document is CPU-bound and Workers share one thread.
+  for (const [i, doc] of documents.entries()) {
+    const d = doc as { id?: unknown; text?: unknown } | null
+    const id = typeof d?.id === 'string' || typeof d?.id === 'number' ? String(d.id) : `#${i + 1}`
+    const field = `documents.${i}`
+
+    if (seen.has(id)) {
+      results.push({ id, ok: false, error: { code: 'duplicate_id', message: 'Duplicate id', field: `${field}.id` } })
+      continue
+    }
+    seen.add(id)
+
+    if (typeof d?.text !== 'string' || !d.text.trim()) {
+      results.push({ id, ok: false, error: { code: 'missing_text', message: 'Missing text', field: `${field}.text` } })
+      continue
+    }
+    if (d.text.length > MAX_DOCUMENT_CHARS) {
+      results.push({
+        id,
+        ok: false,
+        error: { code: 'text_too_long', message: `Text too long (max ${MAX_DOCUMENT_CHARS} characters)`, field: `${field}.text` },
+      })
+      continue
+    }
+
+    results.push({ id, ok: true, ...(await detectText(d.text, model, options, DEFAULT_WEIGHTS, author.author)) })
+  }
+
+  const body: BatchResponse = {
+    api_version: API_VERSION,
+    weights_version: DEFAULT_WEIGHTS.version,
+    results,
+    stats: aggregate(results),
+  }
+  return json(body)
+}
@@ -0,0 +1,59 @@
+import { API_VERSION, type DocumentResponse } from '../../../../shared/api'
+import { DOCUMENT_ID } from '../../../../shared/documents'
+import { parseStoredDocument } from '../../../../shared/validate'
+import { deleteDocument, getDocument, putDocument } from '../../../_lib/documents'
+import type { Env } from '../../../_lib/env'
+import { errorJson, json, readJson, storageUnavailable } from '../../../_lib/http'
+import { resolveOwner, type RequestData } from '../../../_lib/owner'
+
+type Params = 'id'
+
+function notFound(id: string) {
+  return errorJson({ code: 'not_found', message: `No document "${id}"`, field: 'id' })
+}
+
+/** The KV binding, the caller and a well-formed id, or the response to send instead. */
+function resolve(ctx: EventContext<Env, Params, RequestData>) {
+  const kv = ctx.env.HISTORY
+  const id = String(ctx.params.id)
+  if (!kv) return { ok: false as const, response: storageUnavailable() }
+  const owner = resolveOwner(ctx.request, ctx.data)
+  if (!owner.ok) return owner
+  if (!DOCUMENT_ID.test(id)) return { ok: false as const, response: notFound(id) }
+  return { ok: true as const, kv, owner: owner.owner, id }
+}
+
+export const onRequestGet: PagesFunction<Env, Params, RequestData> = async (ctx) => {
+  const r = resolve(ctx)
+  if (!r.ok) return r.response
+
+  const doc = await getDocument(r.kv, r.owner, r.id)
+  if (!doc) return notFound(r.id)
+
+  const body: DocumentResponse = { api_version: API_VERSION, document: doc }
+  return json(body)
+}
+
+/** Create or replace the whole document (title, text and scan history). */
+export const onRequestPut: PagesFunction<Env, Params, RequestData> = async (ctx) => {
+  const r = resolve(ctx)
+  if (!r.ok) return r.response
+
+  const read = await readJson(ctx.request)
+  if (!read.ok) return read.response
+
+  const parsed = parseStoredDocument(read.body, r.id)
+  if (!parsed.ok) return errorJson(parsed.error)
+
+  await putDocument(r.kv, r.owner, parsed.value)
+  const body: DocumentResponse = { api_version: API_VERSION, document: parsed.value }
+  return json(body)
+}
+
+export const onRequestDelete: PagesFunction<Env, Params, RequestData> = async (ctx) => {
+  const r = resolve(ctx)
+  if (!r.ok) return r.response
+
+  if (!(await deleteDocument(r.kv, r.owner, r.id))) return notFound(r.id)
+  return new Response(null, { status: 204 })
+}
@@ -0,0 +1,18 @@
+import { API_VERSION, type DocumentListResponse } from '../../../../shared/api'
+import { listDocuments } from '../../../_lib/documents'
+import type { Env } from '../../../_lib/env'
+import { json, storageUnavailable } from '../../../_lib/http'
+import { resolveOwner, type RequestData } from '../../../_lib/owner'
+
+export const onRequestGet: PagesFunction<Env, string, RequestData> = async (ctx) => {
+  const kv = ctx.env.HISTORY
+  if (!kv) return storageUnavailable()
+  const owner = resolveOwner(ctx.request, ctx.data)
+  if (!owner.ok) return owner.response
+
+  const body: DocumentListResponse = {
+    api_version: API_VERSION,
+    documents: await listDocuments(kv, owner.owner),
+  }
+  return json(body)
+}
@@ -0,0 +1,27 @@
+import { API_VERSION, type HallucinationsResponse } from '../../../shared/api'
+import { parseHallucinationsRequest } from '../../../shared/validate'
+import type { Env } from '../../_lib/env'
+import { checkClaims } from '../../_lib/hallucinations'
+import { errorJson, json, readJson } from '../../_lib/http'
+import { detectLanguage, languageInfo } from '../../_lib/lang'
+
+/* =======================
+   HTTP HANDLER
+======================= */
+
+export const onRequestPost: PagesFunction<Env> = async (ctx) => {
+  const read = await readJson(ctx.request)
+  if (!read.ok) return read.response
+
+  const parsed = parseHallucinationsRequest(read.body)
+  if (!parsed.ok) return errorJson(parsed.error)
+  const { text, source, options } = parsed.value
+
+  const language = options?.language ? languageInfo(options.language) : detectLanguage(text.trim())
+  const body: HallucinationsResponse = {
+    api_version: API_VERSION,
+    language,
+    ...checkClaims(text, source, language.code),
+  }
+  return json(body)
+}
@@ -0,0 +1,29 @@
+import { API_VERSION, type PlagiarismResponse } from '../../../shared/api'
+import { parsePlagiarismRequest } from '../../../shared/validate'
+import { getSource, readIndex } from '../../_lib/corpus'
+import type { Env } from '../../_lib/env'
+import { errorJson, json, readJson, storageUnavailable } from '../../_lib/http'
+import { checkPlagiarism } from '../../_lib/plagiarism'
+
+/* =======================
+   HTTP HANDLER
+======================= */
+
+export const onRequestPost: PagesFunction<Env> = async (ctx) => {
+  const kv = ctx.env.CORPUS
+  if (!kv) return storageUnavailable('CORPUS')
+
+  const read = await readJson(ctx.request)
+  if (!read.ok) return read.response
+
+  const parsed = parsePlagiarismRequest(read.body)
+  if (!parsed.ok) return errorJson(parsed.error)
+
+  const index = await readIndex(kv)
+  const body: PlagiarismResponse = {
+    api_version: API_VERSION,
+    corpus: { sources: index.sources.length, updated_at: index.updated_at },
+    ...(await checkPlagiarism(parsed.value.text, index, id => getSource(kv, id))),
+  }
+  return json(body)
+}
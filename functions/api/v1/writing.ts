@@ -0,0 +1,27 @@
+import { API_VERSION, type WritingResponse } from '../../../shared/api'
+import { parseWritingRequest } from '../../../shared/validate'
+import type { Env } from '../../_lib/env'
+import { errorJson, json, readJson } from '../../_lib/http'
+import { detectLanguage, languageInfo } from '../../_lib/lang'
+import { analyzeWriting } from '../../_lib/writing'
+
+/* =======================
+   HTTP HANDLER
+======================= */
+
+export const onRequestPost: PagesFunction<Env> = async (ctx) => {
+  const read = await readJson(ctx.request)
+  if (!read.ok) return read.response
+
+  const parsed = parseWritingRequest(read.body)
+  if (!parsed.ok) return errorJson(parsed.error)
+  const { text, options } = parsed.value
+
+  const language = options?.language ? languageInfo(options.language) : detectLanguage(text.trim())
+  const body: WritingResponse = {
+    api_version: API_VERSION,
+    language,
+    ...analyzeWriting(text, language),
+  }
+  return json(body)
+}
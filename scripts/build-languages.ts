@@ -0,0 +1,113 @@
+/**
+ * Build language-identification profiles and per-language heuristic baselines.
+ *
+ *   npm run build:lang [-- --out path]
+ *
+ * Source text is the Universal Declaration of Human Rights (the `udhr` dev
+ * dependency), which exists in every supported language with the same content.
+ * That makes it a fair yardstick: each language's baseline is the English
+ * constant scaled by how that language differs from English on the same text.
+ */
+import { readFile, writeFile } from 'node:fs/promises'
+import { join, resolve } from 'node:path'
+import { parseArgs } from 'node:util'
+
+import { LANGUAGES, type LanguageCode } from '../shared/api'
+import { topTrigrams, trigrams, type LanguageBaseline, type LanguageProfiles } from '../functions/_lib/lang'
+import { computeSignals } from '../functions/_lib/scoring'
+
+const ROOT = resolve(import.meta.dirname, '..')
+const UDHR = join(ROOT, 'node_modules/udhr/declaration')
+const DEFAULT_OUT = join(ROOT, 'functions/_lib/lang/profiles.json')
+
+const SOURCES: Record<LanguageCode, { file: string; name: string; script: 'Latin' | 'Japanese' | 'Han' }> = {
+  en: { file: 'eng', name: 'English', script: 'Latin' },
+  es: { file: 'spa', name: 'Spanish', script: 'Latin' },
+  de: { file: 'deu_1996', name: 'German', script: 'Latin' },
+  fr: { file: 'fra', name: 'French', script: 'Latin' },
+  it: { file: 'ita', name: 'Italian', script: 'Latin' },
+  pt: { file: 'por_PT', name: 'Portuguese', script: 'Latin' },
+  nl: { file: 'nld', name: 'Dutch', script: 'Latin' },
+  ja: { file: 'jpn', name: 'Japanese', script: 'Japanese' },
+  zh: { file: 'cmn_hans', name: 'Chinese', script: 'Han' },
+}
+
+/** The hand-tuned English norms every other baseline is scaled from. */
+const ENGLISH: LanguageBaseline = {
+  avgWordLen: 4.7,
+  wordLenSpread: 2,
+  punctRate: 0.03,
+  uniqueRatio: 0.62,
+  lengthScale: 1,
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0' }
+
+/** Body paragraphs and headings of a UDHR declaration, one per line. */
+function declarationText(html: string) {
+  const body = html.slice(html.indexOf('<body>'))
+  return [...body.matchAll(/<(h[1-6]|p|li)\b[^>]*>([\s\S]*?)<\/\1>/g)]
+    .map(m => m[2]
+      .replace(/<[^>]+>/g, '')
+      .replace(/&(#x?[0-9a-f]+|\w+);/gi, (e, n: string) =>
+        n[0] === '#' ? String.fromCodePoint(parseInt(n.slice(n[1] === 'x' ? 2 : 1), n[1] === 'x' ? 16 : 10)) : ENTITIES[n] ?? e)
+      .replace(/\s+/g, ' ')
+      .trim())
+    .filter(Boolean)
+    .join('\n')
+}
+
+const round = (n: number) => Math.round(n * 1000) / 1000
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      out: { type: 'string', default: DEFAULT_OUT },
+    },
+  })
+
+  const texts = Object.fromEntries(await Promise.all(LANGUAGES.map(async code =>
+    [code, declarationText(await readFile(join(UDHR, `${SOURCES[code].file}.html`), 'utf8'))] as const
+  ))) as Record<LanguageCode, string>
+
+  const stats = Object.fromEntries(LANGUAGES.map(code => [code, computeSignals(texts[code], code)])) as
+    Record<LanguageCode, ReturnType<typeof computeSignals>>
+  const en = stats.en
+
+  const profiles: LanguageProfiles = {
+    source: 'Universal Declaration of Human Rights (npm: udhr)',
+    languages: {},
+  }
+
+  for (const code of LANGUAGES) {
+    const s = stats[code]
+    const { name, script } = SOURCES[code]
+    const wordLen = s.avg_word_len / en.avg_word_len
+
+    profiles.languages[code] = {
+      name,
+      script,
+      baseline: code === 'en' ? ENGLISH : {
+        avgWordLen: round(ENGLISH.avgWordLen * wordLen),
+        wordLenSpread: round(ENGLISH.wordLenSpread * wordLen),
+        punctRate: round(ENGLISH.punctRate * s.punctuation_rate / en.punctuation_rate),
+        uniqueRatio: round(ENGLISH.uniqueRatio * s.unique_word_ratio / en.unique_word_ratio),
+        lengthScale: round(s.length / en.length),
+      },
+      trigrams: script === 'Latin' ? topTrigrams(trigrams(texts[code])) : {},
+    }
+  }
+
+  await writeFile(values.out!, JSON.stringify(profiles, null, 2) + '\n')
+
+  console.table(Object.fromEntries(LANGUAGES.map(code => [code, {
+    tokens: stats[code].length,
+    ...profiles.languages[code]!.baseline,
+  }])))
+  console.log(`Wrote ${values.out}`)
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exit(1)
+})
@@ -0,0 +1,105 @@
+/**
+ * Build the bundled word-bigram language model.
+ *
+ *   npm run build:lm -- [file-or-dir ...] [--vocab 8000] [--min-count 3] [--out path]
+ *
+ * Defaults to two public-domain corpora installed as dev dependencies: Moby-Dick
+ * and the US State of the Union addresses (1790–2015). Text goes through the same
+ * tokenizer as the detector, so model and scorer agree on what a word is.
+ */
+import { readdir, readFile, stat, writeFile } from 'node:fs/promises'
+import { extname, join, resolve } from 'node:path'
+import { parseArgs } from 'node:util'
+import { gzipSync } from 'node:zlib'
+
+import { encodeModel } from '../functions/_lib/lm'
+import { tokenizeWords } from '../functions/_lib/scoring'
+
+const ROOT = resolve(import.meta.dirname, '..')
+const DEFAULT_SOURCES = [
+  join(ROOT, 'node_modules/@stdlib/datasets-moby-dick/data/data.txt'),
+  join(ROOT, 'node_modules/@stdlib/datasets-sotu/data'),
+]
+const DEFAULT_OUT = join(ROOT, 'functions/_lib/lm/model.bin')
+
+/** Bigram indices are stored as u16. */
+const MAX_VOCAB = 0xffff
+
+async function listTextFiles(path: string): Promise<string[]> {
+  if (!(await stat(path)).isDirectory()) return [path]
+  const names = (await readdir(path)).filter(n => extname(n) === '.txt').sort()
+  return names.map(n => join(path, n))
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      vocab: { type: 'string', default: '8000' },
+      'min-count': { type: 'string', default: '3' },
+      out: { type: 'string', default: DEFAULT_OUT },
+    },
+  })
+
+  const vocabSize = Number(values.vocab)
+  const minCount = Number(values['min-count'])
+  if (!(vocabSize > 0 && vocabSize <= MAX_VOCAB)) throw new Error(`--vocab must be between 1 and ${MAX_VOCAB}`)
+  if (!(minCount >= 1)) throw new Error('--min-count must be at least 1')
+
+  const files = (await Promise.all((positionals.length ? positionals : DEFAULT_SOURCES).map(listTextFiles))).flat()
+  const docs: string[][] = []
+  for (const f of files) docs.push(tokenizeWords(await readFile(f, 'utf8')))
+
+  // Vocabulary: most frequent words, ties broken alphabetically for a stable build.
+  const freq = new Map<string, number>()
+  for (const doc of docs) for (const w of doc) freq.set(w, (freq.get(w) ?? 0) + 1)
+  const vocab = [...freq.entries()]
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+    .slice(0, vocabSize)
+    .map(([w]) => w)
+    .filter(w => new TextEncoder().encode(w).length < 256)
+  const index = new Map(vocab.map((w, i) => [w, i]))
+  const counts = vocab.map(w => freq.get(w)!)
+
+  // Bigrams between in-vocabulary words; an OOV word breaks the chain.
+  const pairs = new Map<number, number>()
+  for (const doc of docs) {
+    let prev = -1
+    for (const w of doc) {
+      const cur = index.get(w) ?? -1
+      if (prev >= 0 && cur >= 0) {
+        const key = prev * 0x10000 + cur
+        pairs.set(key, (pairs.get(key) ?? 0) + 1)
+      }
+      prev = cur
+    }
+  }
+
+  // Absolute discount from count-of-counts (Ney et al.): D = n1 / (n1 + 2·n2).
+  let n1 = 0
+  let n2 = 0
+  for (const c of pairs.values()) {
+    if (c === 1) n1++
+    else if (c === 2) n2++
+  }
+  const discount = n1 + 2 * n2 ? n1 / (n1 + 2 * n2) : 0.75
+
+  const bigrams = [...pairs.entries()]
+    .filter(([, c]) => c >= minCount)
+    .sort((a, b) => a[0] - b[0])
+    .map(([key, c]): [number, number, number] => [Math.floor(key / 0x10000), key % 0x10000, c])
+
+  const gz = gzipSync(encodeModel({ vocab, counts, discount, bigrams }), { level: 9 })
+  await writeFile(values.out!, gz)
+
+  const tokens = docs.reduce((a, d) => a + d.length, 0)
+  const covered = counts.reduce((a, b) => a + b, 0)
+  console.log(`${files.length} files · ${tokens} tokens · ${(covered / tokens * 100).toFixed(1)}% in vocabulary`)
+  console.log(`vocab ${vocab.length} · bigrams ${bigrams.length} (of ${pairs.size}) · D = ${discount.toFixed(3)}`)
+  console.log(`Wrote ${values.out} (${(gz.length / 1024).toFixed(0)} KB)`)
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exit(1)
+})
@@ -0,0 +1,59 @@
+import { readFile, readdir, stat } from 'node:fs/promises'
+import { extname, join } from 'node:path'
+
+import type { Label } from '../../shared/api'
+
+/** One line of a labeled corpus file: `{"text": "...", "label": "human" | "ai"}`. */
+export type CorpusRecord = {
+  id: string
+  text: string
+  label: Label
+}
+
+export async function readCorpus(path: string): Promise<CorpusRecord[]> {
+  const raw = await readFile(path, 'utf8')
+  const records: CorpusRecord[] = []
+
+  raw.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return
+    let rec: any
+    try {
+      rec = JSON.parse(line)
+    } catch {
+      throw new Error(`${path}:${i + 1}: invalid JSON`)
+    }
+    if (typeof rec?.text !== 'string' || !rec.text.trim()) {
+      throw new Error(`${path}:${i + 1}: missing "text"`)
+    }
+    if (rec.label !== 'human' && rec.label !== 'ai') {
+      throw new Error(`${path}:${i + 1}: "label" must be "human" or "ai"`)
+    }
+    records.push({ id: String(rec.id ?? i + 1), text: rec.text.trim(), label: rec.label })
+  })
+
+  return records
+}
+
+export const TEXT_EXTENSIONS = new Set(['.txt', '.md'])
+
+/**
+ * A labeled folder holds `human/` and `ai/` subdirectories of .txt/.md files;
+ * anything else is read as a JSONL corpus.
+ */
+export async function readDataset(path: string): Promise<CorpusRecord[]> {
+  if (!(await stat(path)).isDirectory()) return readCorpus(path)
+
+  const records: CorpusRecord[] = []
+  for (const label of ['human', 'ai'] as const) {
+    const dir = join(path, label)
+    const files = await readdir(dir).catch(() => [] as string[])
+    for (const name of files.sort()) {
+      if (!TEXT_EXTENSIONS.has(extname(name).toLowerCase())) continue
+      const text = (await readFile(join(dir, name), 'utf8')).trim()
+      if (text) records.push({ id: `${label}/${name}`, text, label })
+    }
+  }
+
+  if (!records.length) throw new Error(`${path}: expected human/ and ai/ folders with .txt or .md files`)
+  return records
+}
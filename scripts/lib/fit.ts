@@ -0,0 +1,84 @@
+import { round } from './metrics'
+
+/* =======================
+   LOGISTIC REGRESSION
+======================= */
+
+export type LogisticModel = {
+  coef: number[]
+  intercept: number
+}
+
+function sigmoid(z: number) {
+  return 1 / (1 + Math.exp(-z))
+}
+
+/** Batch gradient descent with a small L2 penalty. Features are expected to be roughly 0..1. */
+export function fitLogistic(
+  X: number[][],
+  y: number[],
+  { iterations = 4000, rate = 0.5, l2 = 1e-3 } = {}
+): LogisticModel {
+  const n = X.length
+  const d = X[0]?.length ?? 0
+  const coef = new Array<number>(d).fill(0)
+  let intercept = 0
+
+  for (let it = 0; it < iterations; it++) {
+    const grad = new Array<number>(d).fill(0)
+    let gradB = 0
+
+    for (let i = 0; i < n; i++) {
+      const err = sigmoid(X[i].reduce((a, x, j) => a + x * coef[j], intercept)) - y[i]
+      for (let j = 0; j < d; j++) grad[j] += err * X[i][j]
+      gradB += err
+    }
+
+    for (let j = 0; j < d; j++) coef[j] -= rate * (grad[j] / n + l2 * coef[j])
+    intercept -= rate * (gradB / n)
+  }
+
+  return { coef, intercept }
+}
+
+/**
+ * Turn logistic coefficients into mixing weights: negative coefficients are
+ * dropped and the rest normalised to sum to 1, so scores stay on a 0..1 scale.
+ * Returns null when nothing carries positive signal.
+ */
+export function toMixWeights(coef: number[]): number[] | null {
+  const pos = coef.map(c => Math.max(0, c))
+  const total = pos.reduce((a, b) => a + b, 0)
+  return total > 0 ? pos.map(c => c / total) : null
+}
+
+/* =======================
+   PROBABILITY CALIBRATION
+======================= */
+
+export function fitPlatt(scores: number[], y: number[]) {
+  const m = fitLogistic(scores.map(s => [s]), y, { l2: 0, iterations: 8000, rate: 2 })
+  return { method: 'platt' as const, a: round(m.coef[0]), b: round(m.intercept) }
+}
+
+/** Pool-adjacent-violators; returns monotone knots for piecewise-linear interpolation. */
+export function fitIsotonic(scores: number[], y: number[]) {
+  const order = scores.map((s, i) => i).sort((a, b) => scores[a] - scores[b])
+  const blocks: { x: number; y: number; w: number }[] = []
+
+  for (const i of order) {
+    blocks.push({ x: scores[i], y: y[i], w: 1 })
+    while (blocks.length > 1 && blocks[blocks.length - 2].y > blocks[blocks.length - 1].y) {
+      const b = blocks.pop()!
+      const a = blocks.pop()!
+      const w = a.w + b.w
+      blocks.push({ x: (a.x * a.w + b.x * b.w) / w, y: (a.y * a.w + b.y * b.w) / w, w })
+    }
+  }
+
+  return {
+    method: 'isotonic' as const,
+    x: blocks.map(b => round(b.x)),
+    y: blocks.map(b => round(b.y)),
+  }
+}
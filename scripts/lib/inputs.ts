@@ -0,0 +1,114 @@
+import { readFile, readdir, stat } from 'node:fs/promises'
+import { extname, join, relative, sep } from 'node:path'
+
+import { TEXT_EXTENSIONS } from './corpus'
+
+/** A document to scan: its path as given (or "stdin") and its text exactly as read. */
+export type InputDocument = {
+  id: string
+  text: string
+}
+
+const GLOB_CHARS = /[*?[]/
+
+/** `**` crosses directories, `*` and `?` don't, `[...]` is a character class. */
+export function globToRegExp(glob: string) {
+  let re = ''
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]
+    if (ch === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/'
+      re += slash ? '(?:.*/)?' : '.*'
+      i += slash ? 2 : 1
+    } else if (ch === '*') re += '[^/]*'
+    else if (ch === '?') re += '[^/]'
+    else if (ch === '[') {
+      const close = glob.indexOf(']', i + 1)
+      if (close < 0) re += '\\['
+      else {
+        re += `[${glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`
+        i = close
+      }
+    } else re += ch.replace(/[.+^${}()|\\]/g, '\\$&')
+  }
+  return new RegExp(`^${re}$`)
+}
+
+async function* walk(dir: string): AsyncGenerator<string> {
+  const entries = await readdir(dir, { withFileTypes: true })
+  for (const e of entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))) {
+    if (e.name.startsWith('.') || e.name === 'node_modules') continue
+    const path = join(dir, e.name)
+    if (e.isDirectory()) yield* walk(path)
+    else if (e.isFile()) yield path
+  }
+}
+
+/**
+ * Files named by the command-line arguments, in order and without repeats.
+ * A file is taken as is, a directory gives its .txt and .md files (hidden
+ * entries and node_modules skipped), and a quoted glob is matched under the
+ * directory before its first wildcard. "-" stays where it is, for stdin.
+ */
+export async function expandInputs(args: string[]): Promise<string[]> {
+  const out = new Set<string>()
+  for (const arg of args) {
+    if (arg === '-') {
+      out.add(arg)
+      continue
+    }
+    if (GLOB_CHARS.test(arg)) {
+      const parts = arg.split(/[\\/]/)
+      const fixed = parts.findIndex(p => GLOB_CHARS.test(p))
+      const base = parts.slice(0, fixed).join('/') || '.'
+      const re = globToRegExp(parts.slice(fixed).join('/'))
+      let matched = 0
+      if ((await stat(base).catch(() => null))?.isDirectory()) {
+        for await (const path of walk(base)) {
+          if (re.test(relative(base, path).split(sep).join('/'))) {
+            out.add(path)
+            matched++
+          }
+        }
+      }
+      if (!matched) throw new Error(`${arg}: no files match`)
+      continue
+    }
+
+    const info = await stat(arg).catch(() => null)
+    if (!info) throw new Error(`${arg}: no such file or directory`)
+    if (!info.isDirectory()) {
+      out.add(arg)
+      continue
+    }
+    let found = 0
+    for await (const path of walk(arg)) {
+      if (TEXT_EXTENSIONS.has(extname(path).toLowerCase())) {
+        out.add(path)
+        found++
+      }
+    }
+    if (!found) throw new Error(`${arg}: no .txt or .md files`)
+  }
+  return [...out]
+}
+
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+/** The documents behind `args`; "-", or no arguments with piped input, reads stdin. */
+export async function readInputs(args: string[]): Promise<InputDocument[]> {
+  if (!args.length) {
+    if (process.stdin.isTTY) return []
+    return [{ id: 'stdin', text: await readStdin() }]
+  }
+
+  const docs: InputDocument[] = []
+  for (const arg of await expandInputs(args)) {
+    docs.push(arg === '-' ? { id: 'stdin', text: await readStdin() } : { id: arg, text: await readFile(arg, 'utf8') })
+  }
+  return docs
+}
@@ -0,0 +1,11 @@
+import { readFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+
+import { loadModel, type LanguageModel } from '../../functions/_lib/lm'
+
+export const MODEL_PATH = resolve(import.meta.dirname, '../../functions/_lib/lm/model.bin')
+
+/** Node counterpart of functions/_lib/lm/bundled.ts: same bytes, read from disk. */
+export async function readModel(path = MODEL_PATH): Promise<LanguageModel> {
+  return loadModel(await readFile(path))
+}
@@ -0,0 +1,110 @@
+/* =======================
+   BASICS
+======================= */
+
+export function round(n: number, digits = 4) {
+  const f = 10 ** digits
+  return Math.round(n * f) / f
+}
+
+function safeDiv(a: number, b: number) {
+  return b ? a / b : 0
+}
+
+export function logLoss(p: number[], y: number[]) {
+  const eps = 1e-9
+  const total = p.reduce((a, pi, i) => {
+    const q = Math.min(1 - eps, Math.max(eps, pi))
+    return a - (y[i] ? Math.log(q) : Math.log(1 - q))
+  }, 0)
+  return total / (p.length || 1)
+}
+
+export function accuracy(p: number[], y: number[], threshold = 0.5) {
+  const hits = p.filter((pi, i) => (pi >= threshold ? 1 : 0) === y[i]).length
+  return hits / (p.length || 1)
+}
+
+/* =======================
+   THRESHOLD METRICS
+======================= */
+
+export type Confusion = {
+  tp: number
+  fp: number
+  tn: number
+  fn: number
+}
+
+/** `y` is 1 for AI, 0 for human; a score >= threshold is a positive (flagged) prediction. */
+export function confusion(scores: number[], y: number[], threshold: number): Confusion {
+  const c = { tp: 0, fp: 0, tn: 0, fn: 0 }
+  scores.forEach((s, i) => {
+    const flagged = s >= threshold
+    if (flagged && y[i]) c.tp++
+    else if (flagged) c.fp++
+    else if (y[i]) c.fn++
+    else c.tn++
+  })
+  return c
+}
+
+export function thresholdStats(scores: number[], y: number[], threshold: number) {
+  const c = confusion(scores, y, threshold)
+  const precision = safeDiv(c.tp, c.tp + c.fp)
+  const recall = safeDiv(c.tp, c.tp + c.fn)
+
+  return {
+    threshold,
+    ...c,
+    precision,
+    recall,
+    f1: safeDiv(2 * precision * recall, precision + recall),
+    false_positive_rate: safeDiv(c.fp, c.fp + c.tn),
+    accuracy: safeDiv(c.tp + c.tn, scores.length),
+  }
+}
+
+export type ThresholdStats = ReturnType<typeof thresholdStats>
+
+export function sweep(scores: number[], y: number[], steps = 20): ThresholdStats[] {
+  return Array.from({ length: steps + 1 }, (_, i) => thresholdStats(scores, y, round(i / steps)))
+}
+
+/* =======================
+   RANKING METRICS
+======================= */
+
+/** Mann–Whitney AUC: probability a random AI text outranks a random human text (ties count half). */
+export function auc(scores: number[], y: number[]): number {
+  const pos = scores.filter((_, i) => y[i])
+  const neg = scores.filter((_, i) => !y[i])
+  if (!pos.length || !neg.length) return NaN
+
+  let wins = 0
+  for (const p of pos) {
+    for (const n of neg) wins += p > n ? 1 : p === n ? 0.5 : 0
+  }
+  return wins / (pos.length * neg.length)
+}
+
+/**
+ * ROC points from the highest threshold down, starting at (0,0) and ending at
+ * (1,1). The origin flags nothing, which no score threshold does once a score
+ * can be 1, so it has no threshold; the end point flags everything at 0.
+ */
+export function rocCurve(scores: number[], y: number[]) {
+  const P = y.filter(Boolean).length
+  const N = y.length - P
+  const thresholds = Array.from(new Set(scores)).sort((a, b) => b - a)
+
+  const points: { threshold?: number; tpr: number; fpr: number }[] = [{ tpr: 0, fpr: 0 }]
+  for (const t of thresholds) {
+    const c = confusion(scores, y, t)
+    points.push({ threshold: t, tpr: safeDiv(c.tp, P), fpr: safeDiv(c.fp, N) })
+  }
+  if (points[points.length - 1].tpr !== 1 || points[points.length - 1].fpr !== 1) {
+    points.push({ threshold: 0, tpr: 1, fpr: 1 })
+  }
+  return points
+}
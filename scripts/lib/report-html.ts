@@ -0,0 +1,135 @@
+import type { Analysis } from '../../functions/_lib/analyze'
+import type { Confidence, Label } from '../../shared/api'
+import type { Confusion, ThresholdStats, rocCurve } from './metrics'
+
+export type EvaluationReport = {
+  generated_at: string
+  dataset: string
+  weights_version: number
+  counts: { total: number; human: number; ai: number }
+  auc: number
+  thresholds: Record<'high' | 'medium', ThresholdStats>
+  confusion_matrix: Record<'high' | 'medium', Confusion>
+  signal_auc: Record<string, number>
+  sweep: ThresholdStats[]
+  roc: ReturnType<typeof rocCurve>
+  records: {
+    id: string
+    label: Label
+    words: number
+    ai_probability: number
+    confidence: Confidence
+    scores: Analysis['scores']
+  }[]
+}
+
+function esc(s: string) {
+  return s.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`)
+}
+
+function fmt(n: number) {
+  return Number.isFinite(n) ? n.toFixed(3) : '—'
+}
+
+function rocSvg(points: EvaluationReport['roc']) {
+  const size = 260
+  const path = points
+    .map((p, i) => `${i ? 'L' : 'M'}${(p.fpr * size).toFixed(1)},${(size - p.tpr * size).toFixed(1)}`)
+    .join(' ')
+
+  return `<svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" role="img" aria-label="ROC curve">
+  <rect width="${size}" height="${size}" fill="#fbfcff" stroke="#cbd5e1"/>
+  <path d="M0,${size} L${size},0" stroke="#cbd5e1" stroke-dasharray="4 4"/>
+  <path d="${path}" fill="none" stroke="#2563eb" stroke-width="2"/>
+</svg>`
+}
+
+function confusionTable(name: string, c: Confusion) {
+  return `<table class="cm">
+  <caption>${esc(name)}</caption>
+  <tr><th></th><th>Flagged AI</th><th>Not flagged</th></tr>
+  <tr><th>AI</th><td>${c.tp}</td><td>${c.fn}</td></tr>
+  <tr><th>Human</th><td>${c.fp}</td><td>${c.tn}</td></tr>
+</table>`
+}
+
+export function renderHtmlReport(r: EvaluationReport): string {
+  const signalRows = Object.entries(r.signal_auc)
+    .sort((a, b) => Math.abs(b[1] - 0.5) - Math.abs(a[1] - 0.5))
+    .map(([k, v]) => `<tr><td>${esc(k)}</td><td>${fmt(v)}</td></tr>`)
+    .join('\n')
+
+  const sweepRows = r.sweep
+    .map(t => `<tr><td>${t.threshold.toFixed(2)}</td><td>${fmt(t.precision)}</td><td>${fmt(t.recall)}</td><td>${fmt(t.f1)}</td><td>${fmt(t.false_positive_rate)}</td></tr>`)
+    .join('\n')
+
+  const recordRows = r.records
+    .map(x => `<tr><td>${esc(x.id)}</td><td>${x.label}</td><td>${x.words}</td><td>${fmt(x.ai_probability)}</td><td>${x.confidence}</td><td>${fmt(x.scores.heuristic)}</td><td>${fmt(x.scores.zippy)}</td><td>${fmt(x.scores.detectgpt)}</td><td>${fmt(x.scores.lm)}</td></tr>`)
+    .join('\n')
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Detector evaluation — ${esc(r.dataset)}</title>
+<style>
+  body{ font: 14px/1.5 system-ui, sans-serif; color: #0f172a; margin: 32px; max-width: 1100px; }
+  h1{ font-size: 20px; } h2{ font-size: 16px; margin-top: 28px; }
+  .muted{ color: #64748b; }
+  .row{ display: flex; gap: 24px; flex-wrap: wrap; align-items: flex-start; }
+  table{ border-collapse: collapse; margin: 8px 0; }
+  th, td{ border: 1px solid #e2e8f0; padding: 4px 10px; text-align: right; }
+  th:first-child, td:first-child{ text-align: left; }
+  caption{ font-weight: 700; text-align: left; padding-bottom: 4px; }
+  .kpi{ font-size: 28px; font-weight: 800; }
+</style>
+</head>
+<body>
+<h1>Detector evaluation</h1>
+<p class="muted">${esc(r.dataset)} · weights v${r.weights_version} · ${r.counts.total} records (${r.counts.human} human, ${r.counts.ai} AI) · ${esc(r.generated_at)}</p>
+
+<div class="row">
+  <div>
+    <div class="muted">ROC AUC</div>
+    <div class="kpi">${fmt(r.auc)}</div>
+    ${rocSvg(r.roc)}
+  </div>
+  <div>
+    <h2>Confidence cut-offs</h2>
+    <table>
+      <tr><th>Band</th><th>Threshold</th><th>Precision</th><th>Recall</th><th>F1</th><th>FPR</th></tr>
+      ${(['high', 'medium'] as const).map(k => {
+        const t = r.thresholds[k]
+        return `<tr><td>${k}</td><td>${t.threshold}</td><td>${fmt(t.precision)}</td><td>${fmt(t.recall)}</td><td>${fmt(t.f1)}</td><td>${fmt(t.false_positive_rate)}</td></tr>`
+      }).join('\n')}
+    </table>
+    <div class="row">
+      ${confusionTable(`≥ high (${r.thresholds.high.threshold})`, r.confusion_matrix.high)}
+      ${confusionTable(`≥ medium (${r.thresholds.medium.threshold})`, r.confusion_matrix.medium)}
+    </div>
+  </div>
+  <div>
+    <h2>Per-signal AUC</h2>
+    <table>
+      <tr><th>Signal</th><th>AUC</th></tr>
+      ${signalRows}
+    </table>
+    <p class="muted">Below 0.5 means the signal runs opposite to “AI”.</p>
+  </div>
+</div>
+
+<h2>Threshold sweep</h2>
+<table>
+  <tr><th>Threshold</th><th>Precision</th><th>Recall</th><th>F1</th><th>FPR</th></tr>
+  ${sweepRows}
+</table>
+
+<h2>Records</h2>
+<table>
+  <tr><th>ID</th><th>Label</th><th>Words</th><th>AI prob.</th><th>Confidence</th><th>Heuristic</th><th>Zippy</th><th>DetectGPT</th><th>LM</th></tr>
+  ${recordRows}
+</table>
+</body>
+</html>
+`
+}
@@ -0,0 +1,128 @@
+import {
+  API_VERSION,
+  type ApiError,
+  type BatchItemResult,
+  type CalibrationResponse,
+  type DetectRequest,
+  type DetectResponse,
+} from '../../shared/api'
+import { batchCsv, csvField } from '../../shared/report'
+import { parseDetectRequest } from '../../shared/validate'
+import { calibrateText, detectText } from '../../functions/_lib/detect'
+import type { LanguageModel } from '../../functions/_lib/lm'
+import { DEFAULT_WEIGHTS } from '../../functions/_lib/weights'
+import type { InputDocument } from './inputs'
+
+export type ScanSettings = Omit<DetectRequest, 'text'>
+
+/** `response` is exactly what POST /api/v1/detect returns for the same text and settings. */
+export type ScanResult =
+  | { id: string; ok: true; response: DetectResponse | CalibrationResponse }
+  | { id: string; ok: false; error: ApiError }
+
+/**
+ * Scores one document the way the /api/v1/detect handler does: the same
+ * validation, the same scoring functions and the same shipped weights, so
+ * the numbers match the endpoint's to the last digit.
+ */
+export async function scanDocument(doc: InputDocument, model: LanguageModel, settings: ScanSettings): Promise<ScanResult> {
+  const parsed = parseDetectRequest({ ...settings, text: doc.text })
+  if (!parsed.ok) return { id: doc.id, ok: false, error: parsed.error }
+  const req = parsed.value
+
+  const response: DetectResponse | CalibrationResponse = req.mode === 'calibration'
+    ? { api_version: API_VERSION, ...(await calibrateText(req.text, model, req.options, req.label)) }
+    : { api_version: API_VERSION, ...(await detectText(req.text, model, req.options, DEFAULT_WEIGHTS)) }
+  return { id: doc.id, ok: true, response }
+}
+
+/** The score the threshold is checked against: ai_probability, or the calibrated score in calibration mode. */
+export function scoreOf(r: ScanResult) {
+  if (!r.ok) return null
+  return 'ai_probability' in r.response ? r.response.ai_probability : r.response.scores.calibrated
+}
+
+/* =======================
+   OUTPUT
+======================= */
+
+export const SCAN_FORMATS = ['table', 'json', 'csv'] as const
+export type ScanFormat = typeof SCAN_FORMATS[number]
+
+/** Everything one run prints; `--format json` writes it as is. */
+export type ScanOutput = {
+  results: ScanResult[]
+  threshold: number
+}
+
+export function formatScan(format: ScanFormat, out: ScanOutput) {
+  if (format === 'json') return JSON.stringify(out, null, 2) + '\n'
+  if (format === 'csv') return scanCsv(out.results)
+  return scanTable(out)
+}
+
+function isCalibration(r: ScanResult): r is ScanResult & { ok: true; response: CalibrationResponse } {
+  return r.ok && 'components' in r.response
+}
+
+const CALIBRATION_COLUMNS = [
+  'id', 'ok', 'label', 'words', 'language', 'weights_version',
+  'heuristic', 'zippy', 'detectgpt', 'lm', 'ensemble', 'calibrated', 'error',
+] as const
+
+/** Detect results use the batch export's columns; calibration results list the raw detector scores. */
+function scanCsv(results: ScanResult[]) {
+  if (!results.some(isCalibration)) {
+    return batchCsv(results.map((r): BatchItemResult => {
+      if (!r.ok) return r
+      const { api_version, ...result } = r.response as DetectResponse
+      return { id: r.id, ok: true, ...result }
+    }))
+  }
+
+  const rows = results.map(r => {
+    const c = isCalibration(r) ? r.response : null
+    const row: Record<typeof CALIBRATION_COLUMNS[number], string | number | null> = {
+      id: r.id,
+      ok: String(r.ok),
+      label: c?.label ?? null,
+      words: c?.signals.length ?? null,
+      language: c?.language.code ?? null,
+      weights_version: c?.weights_version ?? null,
+      heuristic: c?.scores.heuristic ?? null,
+      zippy: c?.scores.zippy ?? null,
+      detectgpt: c?.scores.detectgpt ?? null,
+      lm: c?.scores.lm ?? null,
+      ensemble: c?.scores.ensemble ?? null,
+      calibrated: c?.scores.calibrated ?? null,
+      error: r.ok ? null : r.error.message,
+    }
+    return CALIBRATION_COLUMNS.map(k => csvField(row[k])).join(',')
+  })
+  return [CALIBRATION_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+/** Aligned columns for a terminal, with the documents at or over the threshold marked. */
+function scanTable({ results, threshold }: ScanOutput) {
+  const rows = results.map(r => {
+    const score = scoreOf(r)
+    if (!r.ok) return [r.id, '', '', '', '', `error: ${r.error.message}`]
+    const res = r.response
+    return [
+      r.id,
+      String(res.signals.length),
+      res.language.code,
+      score!.toFixed(4),
+      'confidence' in res ? res.confidence : res.label,
+      score! >= threshold ? 'FLAGGED' : '',
+    ]
+  })
+  const head = ['DOCUMENT', 'WORDS', 'LANG', results.some(isCalibration) ? 'CALIBRATED' : 'AI', results.some(isCalibration) ? 'LABEL' : 'CONFIDENCE', '']
+  const widths = head.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)))
+  const line = (cells: string[]) => cells.map((c, i) => (i === 1 || i === 3 ? c.padStart(widths[i]) : c.padEnd(widths[i]))).join('  ').trimEnd()
+
+  const flagged = results.filter(r => (scoreOf(r) ?? -1) >= threshold).length
+  const failed = results.filter(r => !r.ok).length
+  const summary = `${results.length} document${results.length === 1 ? '' : 's'} · ${flagged} at or above ${threshold}` + (failed ? ` · ${failed} failed` : '')
+  return [line(head), ...rows.map(line), '', summary].join('\n') + '\n'
+}
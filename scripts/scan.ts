@@ -0,0 +1,71 @@
+/**
+ * Scan local files with the same scoring code as POST /api/v1/detect.
+ *
+ *   npm run scan -- [files, dirs or globs | -] [--mode detect|calibration] [--label human|ai]
+ *                   [--format table|json|csv] [--threshold 0.8] [--language en] [--profile profile.json]
+ *
+ * Directories give their .txt and .md files; quote globs (e.g. "essays/**\/*.md")
+ * to match them here rather than in the shell. With no inputs, or "-", the text
+ * is read from stdin. Scores are identical to the endpoint's for the same text:
+ * with --format json each `response` is the endpoint's body.
+ *
+ * Exits 1 when any document scores at or above --threshold (ai_probability, or
+ * the calibrated score in calibration mode; default the high-confidence
+ * cut-off), and 2 when an input can't be read or scored.
+ */
+import { readFile } from 'node:fs/promises'
+import { parseArgs } from 'node:util'
+
+import { CONFIDENCE_THRESHOLDS } from '../shared/api'
+import { readInputs } from './lib/inputs'
+import { readModel } from './lib/lm'
+import { formatScan, scanDocument, scoreOf, SCAN_FORMATS, type ScanFormat, type ScanSettings } from './lib/scan'
+
+const USAGE = 'Usage: npm run scan -- [files, dirs or globs | -] [--mode detect|calibration] [--label human|ai] [--format table|json|csv] [--threshold n] [--language code] [--profile file.json]'
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      mode: { type: 'string', default: 'detect' },
+      label: { type: 'string' },
+      format: { type: 'string', default: 'table' },
+      threshold: { type: 'string', default: String(CONFIDENCE_THRESHOLDS.high) },
+      language: { type: 'string' },
+      profile: { type: 'string' },
+    },
+  })
+
+  const format = values.format as ScanFormat
+  if (!SCAN_FORMATS.includes(format)) throw new Error(`--format must be ${SCAN_FORMATS.join(', ')}\n${USAGE}`)
+  const threshold = Number(values.threshold)
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) throw new Error(`--threshold must be between 0 and 1\n${USAGE}`)
+
+  // Passed through unchecked: scanDocument validates them like the endpoint does.
+  const settings = {
+    mode: values.mode,
+    label: values.label,
+    options: {
+      language: values.language,
+      profile: values.profile ? JSON.parse(await readFile(values.profile, 'utf8')) : undefined,
+    },
+  } as ScanSettings
+
+  const docs = await readInputs(positionals)
+  if (!docs.length) throw new Error(USAGE)
+
+  const model = await readModel()
+  const results = []
+  for (const doc of docs) results.push(await scanDocument(doc, model, settings))
+
+  process.stdout.write(formatScan(format, { results, threshold }))
+  for (const r of results) if (!r.ok) console.error(`${r.id}: ${r.error.message}`)
+
+  if (results.some(r => !r.ok)) process.exitCode = 2
+  else if (results.some(r => (scoreOf(r) ?? 0) >= threshold)) process.exitCode = 1
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exit(2)
+})
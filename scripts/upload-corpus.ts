@@ -0,0 +1,90 @@
+/**
+ * Upload a directory of reference texts to the plagiarism corpus.
+ *
+ *   npm run corpus:upload -- <dir> --admin-key <admin key> [--url http://localhost:8788] [--prune] [--key <api key>]
+ *
+ * Every .txt and .md file becomes one source, keyed by its file name, via
+ * PUT /api/v1/corpus/:id on a running deployment (or `npm run pages:dev:kv`
+ * for a local corpus). Uploads run one at a time because each rewrites the
+ * corpus index. --prune deletes sources that no longer have a file.
+ * Corpus writes need the deployment's ADMIN_KEY, as --admin-key or
+ * UPCUBE_ADMIN_KEY. Pass --key (or set UPCUBE_API_KEY) as well when the
+ * deployment requires API keys, for listing the corpus with --prune.
+ */
+import { readdir, readFile } from 'node:fs/promises'
+import { basename, extname, join } from 'node:path'
+import { parseArgs } from 'node:util'
+
+import { API_VERSION, type CorpusListResponse } from '../shared/api'
+import { SOURCE_ID } from '../shared/documents'
+
+const EXTENSIONS = new Set(['.txt', '.md'])
+
+async function call(url: string, key: string | undefined, method: string, body?: unknown) {
+  const headers: Record<string, string> = {}
+  if (body !== undefined) headers['Content-Type'] = 'application/json'
+  if (key) headers.Authorization = `Bearer ${key}`
+
+  const res = await fetch(url, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  if (!res.ok) {
+    const data = await res.json().catch(() => null) as { error?: { message?: string } } | null
+    throw new Error(`${method} ${url}: ${data?.error?.message ?? `HTTP ${res.status}`}`)
+  }
+  return res.status === 204 ? null : res.json()
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      url: { type: 'string', default: 'http://localhost:8788' },
+      prune: { type: 'boolean', default: false },
+      key: { type: 'string', default: process.env.UPCUBE_API_KEY },
+      'admin-key': { type: 'string', default: process.env.UPCUBE_ADMIN_KEY },
+    },
+  })
+
+  const dir = positionals[0]
+  const admin = values['admin-key']
+  if (!dir || !admin) {
+    throw new Error('Usage: npm run corpus:upload -- <dir> --admin-key <admin key> [--url http://localhost:8788] [--prune] [--key <api key>]')
+  }
+  const api = `${values.url!.replace(/\/$/, '')}/api/${API_VERSION}/corpus`
+
+  const files = (await readdir(dir)).filter(f => EXTENSIONS.has(extname(f).toLowerCase())).sort()
+  const uploaded = new Set<string>()
+
+  for (const file of files) {
+    if (!SOURCE_ID.test(file)) {
+      console.warn(`Skipping ${file}: ids may only use letters, digits, ".", "_" and "-"`)
+      continue
+    }
+    const text = await readFile(join(dir, file), 'utf8')
+    if (!text.trim()) {
+      console.warn(`Skipping ${file}: empty`)
+      continue
+    }
+    await call(`${api}/${encodeURIComponent(file)}`, admin, 'PUT', { title: basename(file, extname(file)), text })
+    uploaded.add(file)
+    console.log(`Uploaded ${file}`)
+  }
+
+  if (values.prune) {
+    const { sources } = await call(api, values.key, 'GET') as CorpusListResponse
+    for (const s of sources.filter(s => !uploaded.has(s.id))) {
+      await call(`${api}/${encodeURIComponent(s.id)}`, admin, 'DELETE')
+      console.log(`Removed ${s.id}`)
+    }
+  }
+
+  console.log(`${uploaded.size} of ${files.length} files uploaded to ${api}`)
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exit(1)
+})
@@ -0,0 +1,794 @@
+/**
+ * Request/response contract for the detection API, shared by the Pages
+ * Functions and the React client. Bump API_VERSION on breaking changes.
+ */
+
+export const API_VERSION = 'v1'
+export type ApiVersion = typeof API_VERSION
+
+export const DETECT_MODES = ['detect', 'calibration'] as const
+export type DetectMode = typeof DETECT_MODES[number]
+
+export const LABELS = ['human', 'ai'] as const
+export type Label = typeof LABELS[number]
+
+export type Confidence = 'high' | 'medium' | 'low'
+
+/** Languages with their own detection profile and heuristic baselines. */
+export const LANGUAGES = ['en', 'es', 'de', 'fr', 'it', 'pt', 'nl', 'ja', 'zh'] as const
+export type LanguageCode = typeof LANGUAGES[number]
+
+/** Detectors a scan profile can switch on and weight. */
+export const DETECTORS = ['heuristic', 'zippy', 'detectgpt', 'lm'] as const
+export type Detector = typeof DETECTORS[number]
+
+/** Wire formats for a streamed scan: one JSON event per line, or Server-Sent Events. */
+export const STREAM_FORMATS = ['ndjson', 'sse'] as const
+export type StreamFormat = typeof STREAM_FORMATS[number]
+
+/** Tricks for slipping text past a detector: look-alike letters, invisible characters, words mixing scripts and odd spaces. */
+export const EVASION_KINDS = ['homoglyph', 'invisible', 'mixed_script', 'whitespace'] as const
+export type EvasionKind = typeof EVASION_KINDS[number]
+
+export const RULE_KINDS = ['phrase', 'regex'] as const
+export type RuleKind = typeof RULE_KINDS[number]
+
+/** Default cut-offs for the confidence label; scan profiles can replace them. */
+export const CONFIDENCE_THRESHOLDS = { high: 0.8, medium: 0.55 } as const
+
+export const MAX_BATCH_DOCUMENTS = 50
+export const MAX_DOCUMENT_CHARS = 100_000
+/** Request bodies over this many bytes are refused before parsing; batches get MAX_BATCH_BODY_BYTES. */
+export const MAX_BODY_BYTES = 1_000_000
+export const MAX_BATCH_BODY_BYTES = 20_000_000
+export const MAX_PERTURBATION_SAMPLES = 32
+/** Compare mode measures each change's effect for at most this many changes. */
+export const MAX_ATTRIBUTED_CHANGES = 50
+export const MAX_TITLE_CHARS = 200
+/** Older scans are dropped from a document's history beyond this many. */
+export const MAX_SCANS_PER_DOCUMENT = 100
+/** Plagiarism results list at most this many sources, best first. */
+export const MAX_PLAGIARISM_SOURCES = 10
+export const MAX_PROFILE_RULES = 50
+export const MAX_RULE_PATTERN_CHARS = 200
+/** Requests per minute for API keys created without a `rate_limit`, and for anonymous callers per IP. */
+export const DEFAULT_KEY_RATE_LIMIT = 60
+export const DEFAULT_IP_RATE_LIMIT = 30
+export const MAX_RATE_LIMIT = 10_000
+/** Reference samples kept per author profile. */
+export const MAX_AUTHOR_SAMPLES = 20
+/** The evasion block lists the offsets of at most this many findings; the counts cover them all. */
+export const MAX_EVASION_FINDINGS = 200
+
+/* =======================
+   REQUESTS
+======================= */
+
+/** Overrides for the DetectGPT-style perturbation pass; defaults are server-side. */
+export type PerturbationOptions = {
+  samples?: number
+  seed?: number
+}
+
+/** A user rule: when `pattern` matches, `weight` is added to ai_probability. */
+export type ScanRule = {
+  label: string
+  /** 'phrase' matches the literal text on word boundaries, ignoring case; 'regex' is a JavaScript pattern run with the `giu` flags. */
+  kind: RuleKind
+  pattern: string
+  /** -1..1, in probability units: 0.1 adds ten points when the rule matches. */
+  weight: number
+}
+
+/** A named scan configuration, saved by the client and sent with each request. */
+export type ScanProfile = {
+  id: string
+  name: string
+  /** Ensemble weight per detector, renormalised to sum to 1; detectors left out or at 0 don't run. */
+  detectors: Partial<Record<Detector, number>>
+  /** Cut-offs for the confidence label, replacing CONFIDENCE_THRESHOLDS. */
+  thresholds: { high: number; medium: number }
+  rules: ScanRule[]
+}
+
+export type DetectOptions = {
+  highlightSentences?: boolean
+  showBreakdown?: boolean
+  /** Include per-token log-probabilities and ranks from the language model. */
+  tokens?: boolean
+  /** Skip language identification and score with this language's baselines. */
+  language?: LanguageCode
+  perturbation?: PerturbationOptions
+  /** Score with a custom profile instead of the default weights and thresholds (detect mode only). */
+  profile?: ScanProfile
+  /** Score overlapping windows of long texts as well (default true). */
+  timeline?: boolean
+  /** Also compare the text's style with this registered author's samples (detect mode only). */
+  author?: string
+  /** Stream progress events, then the result, instead of one JSON body (/detect in detect mode only). */
+  stream?: StreamFormat
+}
+
+export type DetectRequest = {
+  text: string
+  mode?: DetectMode
+  label?: Label
+  options?: DetectOptions
+}
+
+export type CompareRequest = {
+  before: string
+  after: string
+  options?: DetectOptions
+}
+
+export type WritingRequest = {
+  text: string
+  /** Only `language` applies to writing feedback. */
+  options?: DetectOptions
+}
+
+export type PlagiarismRequest = {
+  text: string
+}
+
+export type HallucinationsRequest = {
+  /** The generated text to check. */
+  text: string
+  /** What it should be based on; without one only internal contradictions can be found. */
+  source?: string
+  /** Only `language` applies. */
+  options?: DetectOptions
+}
+
+/** Body of PUT /corpus/:id; the id comes from the URL and the title defaults to it. */
+export type CorpusUpload = {
+  title?: string
+  text: string
+}
+
+export type BatchDocument = {
+  id: string
+  text: string
+}
+
+export type BatchRequest = {
+  documents: BatchDocument[]
+  options?: DetectOptions
+}
+
+/* =======================
+   RESPONSES
+======================= */
+
+export type TextSignals = {
+  length: number
+  burstiness: number
+  repetition: number
+  punctuation_rate: number
+  avg_word_len: number
+  unique_word_ratio: number
+}
+
+export type DetectedLanguage = {
+  code: LanguageCode
+  name: string
+  /** 0..1; 1 when the language was given in the request. */
+  confidence: number
+}
+
+/** Word-bigram language model statistics; GLTR shares sum to 1. */
+export type LanguageModelSignals = {
+  /** Mean surprisal in bits per token. */
+  entropy: number
+  perplexity: number
+  gltr_top10: number
+  gltr_top100: number
+  gltr_top1000: number
+  gltr_rest: number
+}
+
+export type TokenScore = {
+  token: string
+  /** log2 probability given the previous token. */
+  logprob: number
+  /** 1-based rank among the model's predictions for this position. */
+  rank: number
+}
+
+/** Signed deltas are original score minus perturbed score. */
+export type Curvature = {
+  samples: number
+  seed: number
+  mean_delta: number
+  mean_abs_delta: number
+  variance: number
+}
+
+export type SentenceScore = {
+  start: number
+  end: number
+  words: number
+  /** Null when none of the detectors the scan runs can score a single sentence. */
+  ai_probability: number | null
+  /** Null when the scan profile switches the heuristic off. */
+  heuristic: number | null
+  zippy: number | null
+}
+
+export type RuleHit = {
+  label: string
+  weight: number
+  hits: number
+  /** Offsets of the first matches, for highlighting. */
+  spans: { start: number; end: number }[]
+}
+
+/** One character or word that looks tampered with; offsets point into the submitted text. */
+export type EvasionFinding = {
+  kind: EvasionKind
+  start: number
+  end: number
+  text: string
+  /** What it was read as for scoring: the Latin letter, '' for a removed character, ' ' for a space. */
+  replacement?: string
+}
+
+/**
+ * What the normalisation stage undid before scoring. `score` (0..1) is how
+ * sure it is that the text was doctored to evade detection, and raises ai_probability.
+ */
+export type EvasionReport = {
+  homoglyphs: number
+  invisible: number
+  mixed_script_words: number
+  unusual_whitespace: number
+  score: number
+  /** In text order; the first MAX_EVASION_FINDINGS. */
+  findings: EvasionFinding[]
+}
+
+/** One term of ai_probability: a heuristic component, another detector, a rule, or evasion. */
+export type Contribution = {
+  key: string
+  kind: 'heuristic' | 'detector' | 'rule' | 'evasion'
+  label: string
+  /** The term's own 0..1 score (1 for a rule that matched, the evasion score for evasion). */
+  value: number
+  /** Its weight within its group: the heuristic or ensemble weight, the rule weight, or the evasion weight. */
+  weight: number
+  /** Probability points it adds to ai_probability, after ensemble share, length damping and calibration. */
+  contribution: number
+}
+
+export type Reason = {
+  /** The contribution this reason explains, or 'length' / 'language'. */
+  key: string
+  direction: 'ai' | 'human' | 'neutral'
+  text: string
+}
+
+export type Explanation = {
+  /** Multiplier on the heuristic score: 0.55 for very short texts, 1 from about 300 words. */
+  length_factor: number
+  /** Largest first; they sum to ai_probability unless it was clamped to 0 or 1. */
+  contributions: Contribution[]
+  /** Plain-language reasons, most influential first. */
+  reasons: Reason[]
+}
+
+export type TimelineWindow = {
+  start: number
+  end: number
+  words: number
+  ai_probability: number
+  confidence: Confidence
+}
+
+/** Scores of overlapping windows across a long text, in text order. */
+export type Timeline = {
+  window_words: number
+  /** Words between window starts; windows overlap by window_words minus this. */
+  stride_words: number
+  windows: TimelineWindow[]
+  stats: {
+    max: number
+    mean: number
+    /** The high-confidence cut-off the `above_threshold` share is measured against. */
+    threshold: number
+    /** Share of windows scoring at or above `threshold`. */
+    above_threshold: number
+  }
+}
+
+/**
+ * Why a detector did or didn't count: switched off by the scan profile, the text
+ * under its minimum length (it counts as 0), or a language it doesn't cover
+ * (left out, the other weights renormalised).
+ */
+export type DetectorStatus = 'scored' | 'disabled' | 'too_short' | 'unsupported_language'
+
+/** One detector's part in a scan, with its version so stored results can be traced to the code that scored them. */
+export type DetectorReport = {
+  id: Detector
+  version: number
+  label: string
+  status: DetectorStatus
+  /** 0..1, higher is more machine-like; 0 unless scored. */
+  score: number
+  /** 0..1, how far the score can be trusted on this text (mostly its length). */
+  confidence: number
+  /** Share of the ensemble after renormalisation. */
+  weight: number
+  min_words: number
+}
+
+/** Detector scores repeated under `signals`; each detector names its key in the registry. */
+export type DetectorSignals = {
+  zippy_score: number
+  detectgpt_stability: number
+  lm_score: number
+}
+
+export type DetectResponse = {
+  api_version: ApiVersion
+  ai_probability: number
+  confidence: Confidence
+  weights_version: number
+  detectors: DetectorReport[]
+  language: DetectedLanguage
+  signals: TextSignals & LanguageModelSignals & DetectorSignals
+  perturbation: Curvature
+  evasion: EvasionReport
+  explanation: Explanation
+  /** Present for texts long enough to split into several windows. */
+  timeline?: Timeline
+  sentences?: SentenceScore[]
+  tokens?: TokenScore[]
+  /** Present when the request carried a scan profile. */
+  profile?: {
+    id: string
+    name: string
+    thresholds: ScanProfile['thresholds']
+    rules: RuleHit[]
+  }
+  /** Present when `options.author` was given. */
+  author?: AuthorComparison
+}
+
+/**
+ * One event of a streamed scan. Every detector is reported once, in ensemble
+ * order, then each timeline window; `result` is last. A failure after the
+ * stream has started arrives as an `error` event.
+ */
+export type DetectStreamEvent =
+  | { type: 'detector'; detector: DetectorReport }
+  | { type: 'window'; index: number; total: number; window: TimelineWindow }
+  | { type: 'result'; result: DetectResponse }
+  | { type: 'error'; error: ApiError }
+
+export type CalibrationResponse = {
+  api_version: ApiVersion
+  label: Label | 'unlabeled'
+  weights_version: number
+  detectors: DetectorReport[]
+  language: DetectedLanguage
+  signals: TextSignals & LanguageModelSignals
+  components: Record<string, number>
+  perturbation: Curvature
+  /** Reported only; calibration scores are not raised by it. */
+  evasion: EvasionReport
+  scores: Record<Detector, number> & {
+    ensemble: number
+    calibrated: number
+  }
+}
+
+export type BatchItemResult =
+  | ({ id: string; ok: true } & Omit<DetectResponse, 'api_version'>)
+  | { id: string; ok: false; error: ApiError }
+
+export type BatchStats = {
+  total: number
+  scored: number
+  failed: number
+  mean: number | null
+  median: number | null
+  min: number | null
+  max: number | null
+  high: number
+  medium: number
+}
+
+export type BatchResponse = {
+  api_version: ApiVersion
+  weights_version: number
+  results: BatchItemResult[]
+  stats: BatchStats
+}
+
+/* =======================
+   COMPARE
+======================= */
+
+export type TextRange = {
+  start: number
+  end: number
+}
+
+export type WordDiff = {
+  op: 'equal' | 'insert' | 'delete'
+  text: string
+}
+
+/** Document-level signals moved by one change: `before` with only that change applied, minus `before`. */
+export type ChangeEffect = {
+  heuristic: number
+  burstiness: number
+  repetition: number
+  zippy: number
+}
+
+/** A run of consecutive sentences that differ between the drafts. */
+export type CompareChange = {
+  kind: 'edited' | 'added' | 'removed'
+  /** Offsets of the changed sentences in each draft; null on the side where they don't exist. */
+  before: TextRange | null
+  after: TextRange | null
+  words: WordDiff[]
+  /** Mean per-sentence ai_probability of the changed sentences on each side. */
+  sentence_score: { before: number | null; after: number | null }
+  /** Null past the first MAX_ATTRIBUTED_CHANGES changes. */
+  effect: ChangeEffect | null
+}
+
+export type DraftScore = Pick<DetectResponse, 'ai_probability' | 'confidence' | 'signals'>
+
+export type CompareResponse = {
+  api_version: ApiVersion
+  weights_version: number
+  /** Both drafts are scored as this language so their baselines match. */
+  language: DetectedLanguage
+  before: DraftScore
+  after: DraftScore
+  /** after minus before. */
+  delta: {
+    ai_probability: number
+    signals: Record<keyof DetectResponse['signals'], number>
+  }
+  changes: CompareChange[]
+}
+
+/* =======================
+   WRITING FEEDBACK
+======================= */
+
+export const WRITING_ISSUES = ['stock_phrase', 'filler', 'passive', 'overused', 'long_sentence', 'short_sentence'] as const
+export type WritingIssue = typeof WRITING_ISSUES[number]
+
+/** One flagged span, as offsets into the submitted text. */
+export type WritingAnnotation = {
+  kind: WritingIssue
+  start: number
+  end: number
+  text: string
+  message: string
+  /** Replacement wording or advice; '' means the phrase can simply be cut. */
+  suggestion?: string
+}
+
+/** English readability formulas; null for other languages. */
+export type Readability = {
+  flesch_reading_ease: number
+  flesch_kincaid_grade: number
+  gunning_fog: number
+  words: number
+  sentences: number
+  syllables_per_word: number
+  /** Words of three or more syllables, excluding proper nouns. */
+  complex_word_ratio: number
+}
+
+export type WritingResponse = {
+  api_version: ApiVersion
+  language: DetectedLanguage
+  readability: Readability | null
+  /** Content words repeated noticeably often, most frequent first. */
+  overused: { word: string; count: number }[]
+  counts: Record<WritingIssue, number>
+  annotations: WritingAnnotation[]
+}
+
+/* =======================
+   PLAGIARISM
+======================= */
+
+/** A run of words found verbatim in a source, as offsets into each text. */
+export type PlagiarismPassage = {
+  start: number
+  end: number
+  source_start: number
+  source_end: number
+  words: number
+}
+
+export type PlagiarismMatch = {
+  source_id: string
+  title: string
+  /** Estimated Jaccard similarity of the two shingle sets (MinHash). */
+  similarity: number
+  /** Share of the submitted text's words inside matched passages. */
+  coverage: number
+  /** Share of the source's words inside matched passages. */
+  source_coverage: number
+  passages: PlagiarismPassage[]
+}
+
+export type PlagiarismResponse = {
+  api_version: ApiVersion
+  corpus: { sources: number; updated_at: string | null }
+  words: number
+  /** Share of the submitted text's words matched by any source. */
+  coverage: number
+  matches: PlagiarismMatch[]
+}
+
+/** A reference text the plagiarism check compares against. */
+export type CorpusSource = {
+  id: string
+  title: string
+  text: string
+  added_at: string
+}
+
+export type CorpusSourceSummary = Omit<CorpusSource, 'text'> & {
+  words: number
+}
+
+export type CorpusListResponse = {
+  api_version: ApiVersion
+  updated_at: string | null
+  sources: CorpusSourceSummary[]
+}
+
+export type CorpusSourceResponse = {
+  api_version: ApiVersion
+  source: CorpusSource
+}
+
+/* =======================
+   HALLUCINATIONS
+======================= */
+
+export const CLAIM_KINDS = ['number', 'date', 'entity', 'quote'] as const
+export type ClaimKind = typeof CLAIM_KINDS[number]
+
+/** 'unverified' is used when no source was given and nothing in the text conflicts. */
+export const CLAIM_STATUSES = ['supported', 'unsupported', 'contradicted', 'unverified'] as const
+export type ClaimStatus = typeof CLAIM_STATUSES[number]
+
+/** A checkable detail inside a claim, as offsets into the submitted text. */
+export type ClaimFact = {
+  kind: ClaimKind
+  start: number
+  end: number
+  text: string
+  /** Whether the source contains it; null without a source. */
+  in_source: boolean | null
+}
+
+/** A span that disagrees with the claim: elsewhere in the text, or in the source. */
+export type ClaimConflict = {
+  in: 'text' | 'source'
+  start: number
+  end: number
+  text: string
+}
+
+/** One sentence with at least one fact in it. */
+export type ClaimAnnotation = {
+  start: number
+  end: number
+  text: string
+  status: ClaimStatus
+  facts: ClaimFact[]
+  /** Share of the claim's content words found in the closest source sentence; null without a source. */
+  support: number | null
+  /** The closest source sentence, as offsets into `source`. */
+  evidence?: { start: number; end: number }
+  conflicts: ClaimConflict[]
+  message: string
+}
+
+export type HallucinationsResponse = {
+  api_version: ApiVersion
+  language: DetectedLanguage
+  has_source: boolean
+  counts: Record<ClaimStatus, number>
+  /** In text order. */
+  claims: ClaimAnnotation[]
+}
+
+/* =======================
+   AUTHOR PROFILES
+======================= */
+
+/** A known piece of an author's writing; ai_probability is its score under the weights it was added with. */
+export type AuthorSample = {
+  id: string
+  title: string
+  text: string
+  added_at: string
+  words: number
+  ai_probability: number
+  weights_version: number
+}
+
+export type AuthorSampleSummary = Omit<AuthorSample, 'text'>
+
+export type Author = {
+  id: string
+  name: string
+  created_at: string
+  updated_at: string
+  samples: AuthorSample[]
+}
+
+export type AuthorSummary = Omit<Author, 'samples'> & {
+  samples: number
+  words: number
+}
+
+/** Body of PUT /authors/:id, which creates the author or renames it. */
+export type AuthorUpsert = {
+  name: string
+}
+
+export type AuthorListResponse = {
+  api_version: ApiVersion
+  authors: AuthorSummary[]
+}
+
+export type AuthorResponse = {
+  api_version: ApiVersion
+  author: Omit<Author, 'samples'> & { samples: AuthorSampleSummary[] }
+}
+
+export const STYLE_VERDICTS = ['consistent', 'unusual', 'inconsistent'] as const
+export type StyleVerdict = typeof STYLE_VERDICTS[number]
+
+/** 'word' and 'chars' values are rates per token and per character trigram; 'signal' values are the signal itself. */
+export type StyleFeature = {
+  kind: 'word' | 'chars' | 'signal'
+  key: string
+  value: number
+  /** The mean over the author's samples. */
+  baseline: number
+  /** Distance from the baseline in the author's own spread, signed. */
+  z: number
+}
+
+export type AuthorComparison = {
+  author: { id: string; name: string }
+  samples: number
+  /** Burrows' Delta from the author's samples: the mean absolute z-score, averaged over the three feature groups. */
+  delta: number
+  groups: { words: number; chars: number; signals: number }
+  /** The author's own typical Delta: each sample against the rest, or with one sample its halves. Null if that sample is too short to halve. */
+  baseline_delta: number | null
+  verdict: StyleVerdict
+  /** The features furthest from the baseline, largest first. */
+  features: StyleFeature[]
+  /** Mean ai_probability of the samples scored with the current weights; null if none were. */
+  baseline_ai_probability: number | null
+}
+
+/* =======================
+   DOCUMENTS
+======================= */
+
+/** One scan of a saved document, kept so scores can be compared over time. */
+export type ScanRecord = {
+  scanned_at: string
+  ai_probability: number
+  confidence: Confidence
+  weights_version: number
+  language: LanguageCode
+  words: number
+}
+
+export type StoredDocument = {
+  id: string
+  title: string
+  text: string
+  created_at: string
+  updated_at: string
+  /** Oldest first. */
+  scans: ScanRecord[]
+}
+
+export type DocumentSummary = Omit<StoredDocument, 'text' | 'scans'> & {
+  scan_count: number
+  /** ai_probability of the most recent scans, oldest first. */
+  recent_scores: number[]
+}
+
+export type DocumentListResponse = {
+  api_version: ApiVersion
+  documents: DocumentSummary[]
+}
+
+export type DocumentResponse = {
+  api_version: ApiVersion
+  document: StoredDocument
+}
+
+/* =======================
+   API KEYS
+======================= */
+
+/** An API key as the admin routes show it; the secret itself is never stored. */
+export type ApiKey = {
+  id: string
+  name: string
+  created_at: string
+  revoked_at: string | null
+  /** Requests per minute. */
+  rate_limit: number
+  /** Requests per UTC day, or null for no daily cap. */
+  daily_quota: number | null
+}
+
+export type ApiKeyCreateRequest = {
+  name: string
+  rate_limit?: number
+  daily_quota?: number | null
+}
+
+export type ApiKeyListResponse = {
+  api_version: ApiVersion
+  keys: ApiKey[]
+}
+
+export type ApiKeyResponse = {
+  api_version: ApiVersion
+  key: ApiKey
+}
+
+/** Returned once, on creation: `secret` is the value to send as `Authorization: Bearer <secret>`. */
+export type ApiKeyCreatedResponse = ApiKeyResponse & {
+  secret: string
+}
+
+/* =======================
+   ERRORS
+======================= */
+
+export type ErrorCode =
+  | 'invalid_json'
+  | 'invalid_request'
+  | 'missing_text'
+  | 'unsupported_mode'
+  | 'too_many_documents'
+  | 'text_too_long'
+  | 'body_too_large'
+  | 'duplicate_id'
+  | 'not_found'
+  | 'storage_unavailable'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'internal_error'
+
+export type ApiError = {
+  code: ErrorCode
+  message: string
+  /** Dotted path of the offending request field, when there is one. */
+  field?: string
+}
+
+export type ApiErrorResponse = {
+  api_version: ApiVersion
+  error: ApiError
+}
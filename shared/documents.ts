@@ -0,0 +1,60 @@
+import {
+  MAX_SCANS_PER_DOCUMENT,
+  type DocumentSummary,
+  type ScanRecord,
+  type StoredDocument,
+} from './api'
+
+/** How many past scores a summary carries for the history sparkline. */
+export const RECENT_SCORES = 20
+
+export const DEFAULT_TITLE = 'Untitled Document'
+
+/** Document ids double as storage keys and URL segments. */
+export const DOCUMENT_ID = /^[A-Za-z0-9_-]{1,64}$/
+
+/** Plagiarism-corpus source ids, usually the uploaded file name. Author samples use the same form. */
+export const SOURCE_ID = /^[A-Za-z0-9._-]{1,128}$/
+
+/** Author profile ids, e.g. a student number. */
+export const AUTHOR_ID = /^[A-Za-z0-9_-]{1,64}$/
+
+/** Callers without an API key name themselves with a random id in this header, such as a UUID the browser keeps. */
+export const CLIENT_ID_HEADER = 'X-Client-Id'
+/** Long enough that one caller can't guess another's. */
+export const CLIENT_ID = /^[A-Za-z0-9_-]{16,64}$/
+
+export function newDocument(text: string, title = DEFAULT_TITLE): StoredDocument {
+  const now = new Date().toISOString()
+  return {
+    id: crypto.randomUUID(),
+    title,
+    text,
+    created_at: now,
+    updated_at: now,
+    scans: [],
+  }
+}
+
+/** Append a scan, keeping at most MAX_SCANS_PER_DOCUMENT of the newest. */
+export function withScan(doc: StoredDocument, text: string, scan: ScanRecord): StoredDocument {
+  return {
+    ...doc,
+    text,
+    updated_at: scan.scanned_at,
+    scans: [...doc.scans, scan].slice(-MAX_SCANS_PER_DOCUMENT),
+  }
+}
+
+export function summarizeDocument({ text, scans, ...rest }: StoredDocument): DocumentSummary {
+  return {
+    ...rest,
+    scan_count: scans.length,
+    recent_scores: scans.slice(-RECENT_SCORES).map(s => Math.round(s.ai_probability * 1000) / 1000),
+  }
+}
+
+/** Most recently updated first. */
+export function byUpdated(a: { updated_at: string }, b: { updated_at: string }) {
+  return b.updated_at.localeCompare(a.updated_at)
+}
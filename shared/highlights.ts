@@ -0,0 +1,73 @@
+import { CONFIDENCE_THRESHOLDS, type EvasionFinding, type RuleHit, type ScanProfile, type SentenceScore } from './api'
+
+/**
+ * Highlight spans over a scanned text, shared by the editor overlay and the
+ * exported reports. `className` is one of the hl* classes both of them style.
+ */
+export type Highlight = {
+  start: number
+  end: number
+  className: string
+}
+
+/** Same cut-offs the backend uses for its confidence label, or the scan profile's. */
+export function sentenceBand(score: number, t: ScanProfile['thresholds'] = CONFIDENCE_THRESHOLDS) {
+  return score >= t.high ? 'hlHigh' : score >= t.medium ? 'hlMedium' : 'hlLow'
+}
+
+export function sentenceHighlights(sentences: SentenceScore[], thresholds?: ScanProfile['thresholds']): Highlight[] {
+  return sentences.map(s => ({ start: s.start, end: s.end, className: s.ai_probability == null ? 'hlLow' : sentenceBand(s.ai_probability, thresholds) }))
+}
+
+/** Rule matches drawn over the sentence bands, which are split around them. */
+export function withRuleHighlights(base: Highlight[], rules: RuleHit[]): Highlight[] {
+  return overlay(base, rules.flatMap(r => r.spans.map(sp => ({ ...sp, className: 'hlRule' }))))
+}
+
+/** Look-alike letters, invisible characters, mixed-script words and odd spaces, drawn over everything else. */
+export function withEvasionHighlights(base: Highlight[], findings: EvasionFinding[]): Highlight[] {
+  return overlay(base, findings.map(f => ({ start: f.start, end: f.end, className: 'hlEvasion' })))
+}
+
+function overlay(base: Highlight[], spans: Highlight[]): Highlight[] {
+  const top = [...spans].sort((a, b) => a.start - b.start)
+  if (!top.length) return base
+
+  const out: Highlight[] = [...top]
+  for (const b of base) {
+    let start = b.start
+    for (const t of top) {
+      if (t.end <= start || t.start >= b.end) continue
+      if (t.start > start) out.push({ ...b, start, end: t.start })
+      start = Math.max(start, t.end)
+    }
+    if (start < b.end) out.push({ ...b, start })
+  }
+  return out.sort((a, b) => a.start - b.start)
+}
+
+export type Run = {
+  text: string
+  className?: string
+}
+
+/**
+ * `text` cut into plain and highlighted runs. Spans are in text order, shifted
+ * by `offset`; where two overlap, the later one is clipped.
+ */
+export function highlightRuns(text: string, spans: Highlight[], offset = 0): Run[] {
+  const out: Run[] = []
+  let cursor = 0
+
+  for (const s of spans) {
+    const start = Math.max(s.start + offset, cursor)
+    const end = s.end + offset
+    if (end <= start) continue
+    if (start > cursor) out.push({ text: text.slice(cursor, start) })
+    out.push({ text: text.slice(start, end), className: s.className })
+    cursor = end
+  }
+
+  if (cursor < text.length) out.push({ text: text.slice(cursor) })
+  return out
+}
@@ -0,0 +1,259 @@
+import { CONFIDENCE_THRESHOLDS, type BatchItemResult, type Confidence, type DetectResponse } from './api'
+import { highlightRuns, sentenceHighlights, withEvasionHighlights, withRuleHighlights } from './highlights'
+
+/**
+ * Scan reports built from detect responses, as plain strings so they can be
+ * generated and checked without a browser. The HTML report is self-contained
+ * (inline styles and SVG, no scripts) and prints cleanly to PDF.
+ */
+
+export type ScanReportInput = {
+  title: string
+  /** The text exactly as it was scanned; the result's offsets point into it. */
+  text: string
+  result: Omit<DetectResponse, 'api_version'>
+  generated_at: string
+}
+
+const CONFIDENCE_LABELS: Record<Confidence, string> = {
+  high: 'High confidence',
+  medium: 'Medium confidence',
+  low: 'Low confidence',
+}
+
+const SIGNAL_ROWS: { key: keyof DetectResponse['signals']; label: string }[] = [
+  { key: 'burstiness', label: 'Burstiness (sentence variation)' },
+  { key: 'repetition', label: 'Repetition' },
+  { key: 'unique_word_ratio', label: 'Unique word ratio' },
+  { key: 'punctuation_rate', label: 'Punctuation rate' },
+  { key: 'avg_word_len', label: 'Average word length' },
+  { key: 'zippy_score', label: 'Compressibility (Zippy)' },
+  { key: 'detectgpt_stability', label: 'DetectGPT stability' },
+  { key: 'lm_score', label: 'Language-model score' },
+  { key: 'entropy', label: 'Entropy (bits per token)' },
+  { key: 'gltr_top10', label: 'Top-10 tokens (GLTR)' },
+]
+
+export function escapeHtml(s: string) {
+  return s.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`)
+}
+
+function pct(n: number) {
+  return `${Math.round(Math.max(0, Math.min(1, n)) * 100)}%`
+}
+
+function pts(n: number) {
+  const v = Math.round(n * 100)
+  return v === 0 ? '±0 pts' : `${v > 0 ? '+' : '−'}${Math.abs(v)} pts`
+}
+
+function num(n: number) {
+  return Number.isFinite(n) ? String(Math.round(n * 1000) / 1000) : '—'
+}
+
+/* =======================
+   HTML
+======================= */
+
+function timelineSvg(values: number[], threshold: number) {
+  const w = 640
+  const h = 80
+  const x = (i: number) => (values.length === 1 ? w / 2 : (i / (values.length - 1)) * (w - 8) + 4)
+  const y = (v: number) => h - 4 - v * (h - 8)
+  const points = values.map((v, i) => `${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(' ')
+
+  return `<svg width="${w}" height="${h}" viewBox="0 0 ${w} ${h}" role="img" aria-label="AI likelihood across the document">
+  <rect width="${w}" height="${h}" fill="#fbfcff" stroke="#e2e8f0"/>
+  <line x1="0" x2="${w}" y1="${y(threshold).toFixed(1)}" y2="${y(threshold).toFixed(1)}" stroke="#cbd5e1" stroke-dasharray="4 4"/>
+  <polyline points="${points}" fill="none" stroke="#2563eb" stroke-width="2" stroke-linejoin="round"/>
+</svg>`
+}
+
+function highlightedText(text: string, result: ScanReportInput['result']) {
+  const sentences = result.sentences
+    ? withRuleHighlights(sentenceHighlights(result.sentences, result.profile?.thresholds), result.profile?.rules ?? [])
+    : []
+  const spans = withEvasionHighlights(sentences, result.evasion.findings)
+  return highlightRuns(text, spans)
+    .map(r => (r.className && r.className !== 'hlLow' ? `<mark class="${r.className}">${escapeHtml(r.text)}</mark>` : escapeHtml(r.text)))
+    .join('')
+}
+
+export function renderScanReport({ title, text, result: r, generated_at }: ScanReportInput): string {
+  const thresholds = r.profile?.thresholds ?? CONFIDENCE_THRESHOLDS
+
+  const meta: [string, string][] = [
+    ['Generated', generated_at],
+    ['Words', String(r.signals.length)],
+    ['Characters', String(text.length)],
+    ['Language', r.language.confidence ? `${r.language.name} (${pct(r.language.confidence)} confident)` : r.language.name],
+    ['Weights', `v${r.weights_version}`],
+    ['Scan', r.profile ? `${r.profile.name} (custom)` : 'Advanced AI Scan'],
+    ['Confidence cut-offs', `medium ${pct(thresholds.medium)}, high ${pct(thresholds.high)}`],
+  ]
+
+  const reasons = r.explanation.reasons
+    .map(x => `<li><span class="tag ${x.direction}">${x.direction === 'ai' ? 'AI-like' : x.direction === 'human' ? 'Human-like' : 'Note'}</span>${escapeHtml(x.text)}</li>`)
+    .join('\n')
+
+  const contributions = r.explanation.contributions
+    .filter(c => Math.abs(c.contribution) >= 0.0005)
+    .map(c => `<tr><td>${escapeHtml(c.label)}</td><td>${c.kind === 'rule' || c.kind === 'evasion' ? c.kind : `${num(c.value)} × ${num(c.weight)}`}</td><td>${pts(c.contribution)}</td></tr>`)
+    .join('\n')
+
+  const signals = SIGNAL_ROWS
+    .map(s => `<tr><td>${s.label}</td><td>${num(r.signals[s.key])}</td></tr>`)
+    .join('\n')
+
+  const rules = r.profile?.rules.length
+    ? `<h2>Rules</h2>
+<table>
+  <tr><th>Rule</th><th>Matches</th><th>Weight</th></tr>
+  ${r.profile.rules.map(x => `<tr><td>${escapeHtml(x.label)}</td><td>${x.hits}</td><td>${pts(x.weight)}</td></tr>`).join('\n')}
+</table>`
+    : ''
+
+  const e = r.evasion
+  const evasion = e.findings.length
+    ? `<h2>Evasion</h2>
+<table>
+  <tr><td>Look-alike letters</td><td>${e.homoglyphs}</td></tr>
+  <tr><td>Invisible characters</td><td>${e.invisible}</td></tr>
+  <tr><td>Words mixing alphabets</td><td>${e.mixed_script_words}</td></tr>
+  <tr><td>Unusual spaces</td><td>${e.unusual_whitespace}</td></tr>
+</table>
+<p class="muted">${pct(e.score)} likely doctored to evade detection; the characters are marked in the text below.</p>`
+    : ''
+
+  const timeline = r.timeline
+    ? `<h2>Across the document</h2>
+${timelineSvg(r.timeline.windows.map(w => w.ai_probability), r.timeline.stats.threshold)}
+<p class="muted">${r.timeline.windows.length} overlapping windows of ~${r.timeline.window_words} words · peak ${pct(r.timeline.stats.max)} · mean ${pct(r.timeline.stats.mean)} · ${pct(r.timeline.stats.above_threshold)} of windows at ${pct(r.timeline.stats.threshold)} or more</p>`
+    : ''
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Scan report — ${escapeHtml(title)}</title>
+<style>
+  body{ font: 14px/1.5 system-ui, sans-serif; color: #0f172a; margin: 32px auto; max-width: 860px; padding: 0 24px; }
+  h1{ font-size: 20px; margin-bottom: 4px; } h2{ font-size: 16px; margin-top: 28px; }
+  .muted{ color: #64748b; }
+  .score{ display: flex; gap: 16px; align-items: baseline; margin: 16px 0; }
+  .kpi{ font-size: 36px; font-weight: 800; }
+  .band{ font-weight: 700; } .band.high{ color: #b91c1c; } .band.medium{ color: #b45309; } .band.low{ color: #15803d; }
+  table{ border-collapse: collapse; margin: 8px 0; }
+  th, td{ border: 1px solid #e2e8f0; padding: 4px 10px; text-align: left; vertical-align: top; }
+  th{ background: #f8fafc; }
+  ul.reasons{ padding-left: 0; list-style: none; }
+  ul.reasons li{ margin: 4px 0; }
+  .tag{ display: inline-block; min-width: 84px; font-weight: 700; color: #64748b; }
+  .tag.ai{ color: #b91c1c; } .tag.human{ color: #15803d; }
+  .text{ white-space: pre-wrap; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px 14px; background: #fbfcff; }
+  mark{ border-radius: 3px; color: inherit; }
+  .hlHigh{ background: rgba(239, 68, 68, 0.22); }
+  .hlMedium{ background: rgba(245, 158, 11, 0.22); }
+  .hlRule{ background: rgba(13, 148, 136, 0.22); }
+  .hlEvasion{ background: rgba(219, 39, 119, 0.28); box-shadow: 0 0 0 1px rgba(219, 39, 119, 0.9); }
+  .legend mark{ padding: 0 6px; margin-right: 8px; }
+  footer{ margin-top: 32px; font-size: 12px; }
+  @page{ margin: 16mm; }
+  @media print{
+    body{ margin: 0; max-width: none; padding: 0; }
+    mark, .text, th{ -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    h2{ break-after: avoid; }
+    tr{ break-inside: avoid; }
+  }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="muted">AI text scan report</div>
+
+<div class="score">
+  <div class="kpi">${pct(r.ai_probability)}</div>
+  <div>AI likelihood · <span class="band ${r.confidence}">${CONFIDENCE_LABELS[r.confidence]}</span></div>
+</div>
+
+<table>
+  ${meta.map(([k, v]) => `<tr><th>${k}</th><td>${escapeHtml(v)}</td></tr>`).join('\n  ')}
+</table>
+
+<h2>Why this score</h2>
+${reasons ? `<ul class="reasons">\n${reasons}\n</ul>` : '<p class="muted">No single signal stands out; the score comes from many small ones.</p>'}
+<table>
+  <tr><th>Signal</th><th>Score × weight</th><th>Adds</th></tr>
+  ${contributions}
+</table>
+<p class="muted">Length factor ${pct(r.explanation.length_factor)}: heuristic terms are scaled down for short texts.</p>
+
+<h2>Signals</h2>
+<table>
+  ${signals}
+</table>
+${rules}
+${evasion}
+${timeline}
+
+<h2>Text</h2>
+${r.sentences || r.evasion.findings.length ? `<p class="legend muted">${r.sentences ? '<mark class="hlHigh">High</mark><mark class="hlMedium">Medium</mark>' : ''}${r.profile?.rules.some(x => x.hits) ? '<mark class="hlRule">Rule</mark>' : ''}${r.evasion.findings.length ? '<mark class="hlEvasion">Evasion</mark>' : ''}</p>` : ''}
+<div class="text">${highlightedText(text, r)}</div>
+
+<footer class="muted">The AI likelihood is a probabilistic estimate from statistical signals, not proof of authorship. Review flagged passages before acting on them.</footer>
+</body>
+</html>
+`
+}
+
+/* =======================
+   CSV
+======================= */
+
+/**
+ * RFC 4180 field: quoted when it holds a comma, quote or line break. Text that
+ * a spreadsheet would run as a formula (=, +, -, @) gets a leading apostrophe.
+ */
+export function csvField(v: string | number | null | undefined) {
+  let s = v == null ? '' : String(v)
+  if (typeof v === 'string' && /^[=+\-@\t\r]/.test(s)) s = `'${s}`
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+const CSV_COLUMNS = [
+  'id', 'ok', 'words', 'ai_probability', 'confidence', 'language', 'weights_version',
+  'burstiness', 'repetition', 'unique_word_ratio', 'zippy_score', 'detectgpt_stability', 'lm_score',
+  'timeline_max', 'timeline_above_threshold', 'error',
+] as const
+
+/** One row per batch result, with CRLF line endings. */
+export function batchCsv(results: BatchItemResult[]): string {
+  const rows = results.map(r => {
+    const row: Record<typeof CSV_COLUMNS[number], string | number | null> = r.ok
+      ? {
+          id: r.id,
+          ok: 'true',
+          words: r.signals.length,
+          ai_probability: num(r.ai_probability),
+          confidence: r.confidence,
+          language: r.language.code,
+          weights_version: r.weights_version,
+          burstiness: num(r.signals.burstiness),
+          repetition: num(r.signals.repetition),
+          unique_word_ratio: num(r.signals.unique_word_ratio),
+          zippy_score: num(r.signals.zippy_score),
+          detectgpt_stability: num(r.signals.detectgpt_stability),
+          lm_score: num(r.signals.lm_score),
+          timeline_max: r.timeline ? num(r.timeline.stats.max) : null,
+          timeline_above_threshold: r.timeline ? num(r.timeline.stats.above_threshold) : null,
+          error: null,
+        }
+      : {
+          id: r.id, ok: 'false', words: null, ai_probability: null, confidence: null, language: null, weights_version: null,
+          burstiness: null, repetition: null, unique_word_ratio: null, zippy_score: null, detectgpt_stability: null, lm_score: null,
+          timeline_max: null, timeline_above_threshold: null, error: r.error.message,
+        }
+    return CSV_COLUMNS.map(k => csvField(row[k])).join(',')
+  })
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+}
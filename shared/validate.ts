@@ -0,0 +1,479 @@
+import {
+  DEFAULT_KEY_RATE_LIMIT,
+  DETECTORS,
+  DETECT_MODES,
+  LABELS,
+  LANGUAGES,
+  MAX_BATCH_DOCUMENTS,
+  MAX_DOCUMENT_CHARS,
+  MAX_PERTURBATION_SAMPLES,
+  MAX_PROFILE_RULES,
+  MAX_RATE_LIMIT,
+  MAX_RULE_PATTERN_CHARS,
+  MAX_SCANS_PER_DOCUMENT,
+  MAX_TITLE_CHARS,
+  RULE_KINDS,
+  STREAM_FORMATS,
+  type ApiError,
+  type ApiKeyCreateRequest,
+  type AuthorUpsert,
+  type CompareRequest,
+  type CorpusUpload,
+  type DetectOptions,
+  type DetectRequest,
+  type HallucinationsRequest,
+  type PerturbationOptions,
+  type PlagiarismRequest,
+  type ScanProfile,
+  type ScanRule,
+  type ScanRecord,
+  type StoredDocument,
+  type WritingRequest,
+} from './api'
+import { AUTHOR_ID, DOCUMENT_ID } from './documents'
+
+export type Parsed<T> = { ok: true; value: T } | { ok: false; error: ApiError }
+
+function fail(code: ApiError['code'], message: string, field?: string): { ok: false; error: ApiError } {
+  return { ok: false, error: { code, message, field } }
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+function parsePerturbation(v: unknown): Parsed<PerturbationOptions | undefined> {
+  if (v === undefined) return { ok: true, value: undefined }
+  if (!isObject(v)) return fail('invalid_request', '"options.perturbation" must be an object', 'options.perturbation')
+
+  const { samples, seed } = v
+  if (samples !== undefined && (!Number.isInteger(samples) || (samples as number) < 1 || (samples as number) > MAX_PERTURBATION_SAMPLES)) {
+    return fail('invalid_request', `"options.perturbation.samples" must be an integer from 1 to ${MAX_PERTURBATION_SAMPLES}`, 'options.perturbation.samples')
+  }
+  if (seed !== undefined && !Number.isSafeInteger(seed)) {
+    return fail('invalid_request', '"options.perturbation.seed" must be an integer', 'options.perturbation.seed')
+  }
+
+  return { ok: true, value: { samples: samples as number | undefined, seed: seed as number | undefined } }
+}
+
+function isFraction(v: unknown): v is number {
+  return typeof v === 'number' && v >= 0 && v <= 1
+}
+
+/**
+ * Why a rule regex could backtrack for a very long time, or null if it can't.
+ * Only a safe subset is allowed: no backreferences, no group that is
+ * repeated (*, +, {n,}, {n,m} with m > 1) while it holds an alternation or
+ * a repeat of its own, as in (a|aa)+ or (a+)*, and at most one unbounded
+ * quantifier (*, + or {n,}) in the whole pattern, since neighbours such as
+ * \w*\w*! can split the same run in polynomially many ways.
+ */
+export function unsafeRegex(pattern: string): string | null {
+  type Frame = { risky: boolean }
+  const stack: Frame[] = [{ risky: false }]
+  let unbounded = 0
+  let i = 0
+
+  const isUnbounded = (at: number) => pattern[at] === '*' || pattern[at] === '+' || /^\{\d+,\}/.test(pattern.slice(at))
+
+  // Length of the repeating quantifier at `at`, 0 for none or one that matches at most once.
+  const repeat = (at: number) => {
+    const ch = pattern[at]
+    if (ch === '*' || ch === '+') return 1
+    const braces = ch === '{' ? /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(at)) : null
+    if (braces && braces[2] && (braces[3] === '' || Number(braces[3]) > 1)) return braces[0].length
+    if (braces && !braces[2] && Number(braces[1]) > 1) return braces[0].length
+    return 0
+  }
+
+  while (i < pattern.length) {
+    const ch = pattern[i]
+    const top = stack[stack.length - 1]
+    if (ch === '\\') {
+      const next = pattern[i + 1] ?? ''
+      if (/[1-9]/.test(next) || next === 'k') return 'backreferences are not allowed'
+      i += next === 'u' && pattern[i + 2] === '{' ? pattern.indexOf('}', i) + 1 - i : 2
+    } else if (ch === '[') {
+      i++
+      while (i < pattern.length && pattern[i] !== ']') i += pattern[i] === '\\' ? 2 : 1
+      i++
+    } else if (ch === '(') {
+      stack.push({ risky: false })
+      i++
+      continue
+    } else if (ch === ')') {
+      const group = stack.pop()!
+      if (!stack.length) return null
+      i++
+      const n = repeat(i)
+      if (n && group.risky) return 'a repeated group may not contain alternation or another repeat'
+      if (isUnbounded(i) && ++unbounded > 1) return 'only one unbounded quantifier (*, + or {n,}) is allowed'
+      stack[stack.length - 1].risky ||= group.risky || n > 0
+      i += n
+      continue
+    } else if (ch === '|') {
+      top.risky = true
+      i++
+      continue
+    } else {
+      i++
+    }
+    const n = repeat(i)
+    if (n) top.risky = true
+    if (isUnbounded(i) && ++unbounded > 1) return 'only one unbounded quantifier (*, + or {n,}) is allowed'
+    i += n
+  }
+  return null
+}
+
+function parseRule(v: unknown, field: string): Parsed<ScanRule> {
+  if (!isObject(v)) return fail('invalid_request', `"${field}" must be an object`, field)
+
+  const { label, kind, pattern, weight } = v
+  if (typeof label !== 'string' || !label.trim() || label.length > MAX_TITLE_CHARS) {
+    return fail('invalid_request', `"${field}.label" must be a non-empty string of at most ${MAX_TITLE_CHARS} characters`, `${field}.label`)
+  }
+  if (!RULE_KINDS.includes(kind as any)) return fail('invalid_request', `"${field}.kind" must be ${RULE_KINDS.join(' or ')}`, `${field}.kind`)
+  if (typeof pattern !== 'string' || !pattern.trim() || pattern.length > MAX_RULE_PATTERN_CHARS) {
+    return fail('invalid_request', `"${field}.pattern" must be a non-empty string of at most ${MAX_RULE_PATTERN_CHARS} characters`, `${field}.pattern`)
+  }
+  if (kind === 'regex') {
+    try {
+      new RegExp(pattern, 'giu')
+    } catch (err) {
+      return fail('invalid_request', `"${field}.pattern" is not a valid regular expression: ${(err as Error).message}`, `${field}.pattern`)
+    }
+    const unsafe = unsafeRegex(pattern)
+    if (unsafe) return fail('invalid_request', `"${field}.pattern" could be too slow to run: ${unsafe}`, `${field}.pattern`)
+  }
+  if (typeof weight !== 'number' || !(weight >= -1 && weight <= 1)) {
+    return fail('invalid_request', `"${field}.weight" must be a number from -1 to 1`, `${field}.weight`)
+  }
+
+  return { ok: true, value: { label: label.trim(), kind: kind as ScanRule['kind'], pattern, weight } }
+}
+
+/** A scan profile sent inline with a request; the client owns where profiles are saved. */
+export function parseProfile(v: unknown, field = 'options.profile'): Parsed<ScanProfile> {
+  if (!isObject(v)) return fail('invalid_request', `"${field}" must be an object`, field)
+
+  if (typeof v.id !== 'string' || !DOCUMENT_ID.test(v.id)) {
+    return fail('invalid_request', `"${field}.id" must be 1-64 letters, digits, "_" or "-"`, `${field}.id`)
+  }
+  if (typeof v.name !== 'string' || !v.name.trim() || v.name.length > MAX_TITLE_CHARS) {
+    return fail('invalid_request', `"${field}.name" must be a non-empty string of at most ${MAX_TITLE_CHARS} characters`, `${field}.name`)
+  }
+
+  if (!isObject(v.detectors)) return fail('invalid_request', `"${field}.detectors" must be an object`, `${field}.detectors`)
+  const detectors: ScanProfile['detectors'] = {}
+  for (const [k, w] of Object.entries(v.detectors)) {
+    if (!DETECTORS.includes(k as any)) {
+      return fail('invalid_request', `Unknown detector "${k}" (expected ${DETECTORS.join(', ')})`, `${field}.detectors.${k}`)
+    }
+    if (!isFraction(w)) return fail('invalid_request', `"${field}.detectors.${k}" must be a number from 0 to 1`, `${field}.detectors.${k}`)
+    detectors[k as keyof ScanProfile['detectors']] = w
+  }
+  if (!Object.values(detectors).some(w => w! > 0)) {
+    return fail('invalid_request', `"${field}.detectors" must give at least one detector a weight above 0`, `${field}.detectors`)
+  }
+
+  const t = v.thresholds
+  if (!isObject(t) || !isFraction(t.high) || !isFraction(t.medium) || !(t.medium > 0 && t.medium < t.high)) {
+    return fail('invalid_request', `"${field}.thresholds" must be { high, medium } with 0 < medium < high <= 1`, `${field}.thresholds`)
+  }
+
+  if (!Array.isArray(v.rules) || v.rules.length > MAX_PROFILE_RULES) {
+    return fail('invalid_request', `"${field}.rules" must be an array of at most ${MAX_PROFILE_RULES} rules`, `${field}.rules`)
+  }
+  const rules: ScanRule[] = []
+  for (const [i, r] of v.rules.entries()) {
+    const rule = parseRule(r, `${field}.rules.${i}`)
+    if (!rule.ok) return rule
+    rules.push(rule.value)
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: v.id,
+      name: v.name.trim(),
+      detectors,
+      thresholds: { high: t.high as number, medium: t.medium as number },
+      rules,
+    },
+  }
+}
+
+function parseOptions(v: unknown): Parsed<DetectOptions | undefined> {
+  if (v === undefined) return { ok: true, value: undefined }
+  if (!isObject(v)) return fail('invalid_request', '"options" must be an object', 'options')
+
+  for (const key of ['highlightSentences', 'showBreakdown', 'tokens', 'timeline'] as const) {
+    if (v[key] !== undefined && typeof v[key] !== 'boolean') {
+      return fail('invalid_request', `"options.${key}" must be a boolean`, `options.${key}`)
+    }
+  }
+
+  if (v.language !== undefined && !LANGUAGES.includes(v.language as any)) {
+    return fail('invalid_request', `"options.language" must be one of ${LANGUAGES.join(', ')}`, 'options.language')
+  }
+
+  const perturbation = parsePerturbation(v.perturbation)
+  if (!perturbation.ok) return perturbation
+
+  const profile = v.profile === undefined ? undefined : parseProfile(v.profile)
+  if (profile && !profile.ok) return profile
+
+  if (v.author !== undefined && (typeof v.author !== 'string' || !AUTHOR_ID.test(v.author))) {
+    return fail('invalid_request', '"options.author" must be an author id', 'options.author')
+  }
+
+  if (v.stream !== undefined && !STREAM_FORMATS.includes(v.stream as any)) {
+    return fail('invalid_request', `"options.stream" must be ${STREAM_FORMATS.join(' or ')}`, 'options.stream')
+  }
+
+  return {
+    ok: true,
+    value: {
+      highlightSentences: v.highlightSentences as boolean | undefined,
+      showBreakdown: v.showBreakdown as boolean | undefined,
+      tokens: v.tokens as boolean | undefined,
+      timeline: v.timeline as boolean | undefined,
+      language: v.language as DetectOptions['language'],
+      perturbation: perturbation.value,
+      profile: profile?.value,
+      author: v.author as string | undefined,
+      stream: v.stream as DetectOptions['stream'],
+    },
+  }
+}
+
+export function parseDetectRequest(body: unknown): Parsed<DetectRequest> {
+  if (!isObject(body)) return fail('invalid_request', 'Request body must be a JSON object')
+
+  if (typeof body.text !== 'string' || !body.text.trim()) return fail('missing_text', 'Missing text', 'text')
+  if (body.text.length > MAX_DOCUMENT_CHARS) {
+    return fail('text_too_long', `Text too long (max ${MAX_DOCUMENT_CHARS} characters)`, 'text')
+  }
+
+  if (body.mode !== undefined && !DETECT_MODES.includes(body.mode as any)) {
+    return fail('unsupported_mode', `Unsupported mode "${String(body.mode)}" (expected ${DETECT_MODES.join(' or ')})`, 'mode')
+  }
+
+  if (body.label !== undefined && !LABELS.includes(body.label as any)) {
+    return fail('invalid_request', `"label" must be ${LABELS.join(' or ')}`, 'label')
+  }
+
+  const options = parseOptions(body.options)
+  if (!options.ok) return options
+
+  return {
+    ok: true,
+    value: {
+      text: body.text,
+      mode: body.mode as DetectRequest['mode'],
+      label: body.label as DetectRequest['label'],
+      options: options.value,
+    },
+  }
+}
+
+export function parseCompareRequest(body: unknown): Parsed<CompareRequest> {
+  if (!isObject(body)) return fail('invalid_request', 'Request body must be a JSON object')
+
+  for (const key of ['before', 'after'] as const) {
+    const v = body[key]
+    if (typeof v !== 'string' || !v.trim()) return fail('missing_text', `Missing "${key}" text`, key)
+    if (v.length > MAX_DOCUMENT_CHARS) {
+      return fail('text_too_long', `"${key}" is too long (max ${MAX_DOCUMENT_CHARS} characters)`, key)
+    }
+  }
+
+  const options = parseOptions(body.options)
+  if (!options.ok) return options
+
+  return { ok: true, value: { before: body.before as string, after: body.after as string, options: options.value } }
+}
+
+export function parseWritingRequest(body: unknown): Parsed<WritingRequest> {
+  if (!isObject(body)) return fail('invalid_request', 'Request body must be a JSON object')
+
+  if (typeof body.text !== 'string' || !body.text.trim()) return fail('missing_text', 'Missing text', 'text')
+  if (body.text.length > MAX_DOCUMENT_CHARS) {
+    return fail('text_too_long', `Text too long (max ${MAX_DOCUMENT_CHARS} characters)`, 'text')
+  }
+
+  const options = parseOptions(body.options)
+  if (!options.ok) return options
+
+  return { ok: true, value: { text: body.text, options: options.value } }
+}
+
+export function parsePlagiarismRequest(body: unknown): Parsed<PlagiarismRequest> {
+  if (!isObject(body)) return fail('invalid_request', 'Request body must be a JSON object')
+
+  if (typeof body.text !== 'string' || !body.text.trim()) return fail('missing_text', 'Missing text', 'text')
+  if (body.text.length > MAX_DOCUMENT_CHARS) {
+    return fail('text_too_long', `Text too long (max ${MAX_DOCUMENT_CHARS} characters)`, 'text')
+  }
+
+  return { ok: true, value: { text: body.text } }
+}
+
+export function parseHallucinationsRequest(body: unknown): Parsed<HallucinationsRequest> {
+  if (!isObject(body)) return fail('invalid_request', 'Request body must be a JSON object')
+
+  if (typeof body.text !== 'string' || !body.text.trim()) return fail('missing_text', 'Missing text', 'text')
+  if (body.text.length > MAX_DOCUMENT_CHARS) {
+    return fail('text_too_long', `Text too long (max ${MAX_DOCUMENT_CHARS} characters)`, 'text')
+  }
+  if (body.source !== undefined && typeof body.source !== 'string') {
+    return fail('invalid_request', '"source" must be a string', 'source')
+  }
+  if (typeof body.source === 'string' && body.source.length > MAX_DOCUMENT_CHARS) {
+    return fail('text_too_long', `Source too long (max ${MAX_DOCUMENT_CHARS} characters)`, 'source')
+  }
+
+  const options = parseOptions(body.options)
+  if (!options.ok) return options
+
+  // A blank source is the same as none.
+  const source = (body.source as string | undefined)?.trim() ? (body.source as string) : undefined
+  return { ok: true, value: { text: body.text, source, options: options.value } }
+}
+
+export function parseCorpusUpload(body: unknown): Parsed<CorpusUpload> {
+  if (!isObject(body)) return fail('invalid_request', 'Request body must be a JSON object')
+
+  if (body.title !== undefined && (typeof body.title !== 'string' || !body.title.trim() || body.title.length > MAX_TITLE_CHARS)) {
+    return fail('invalid_request', `"title" must be a non-empty string of at most ${MAX_TITLE_CHARS} characters`, 'title')
+  }
+  if (typeof body.text !== 'string' || !body.text.trim()) return fail('missing_text', 'Missing text', 'text')
+  if (body.text.length > MAX_DOCUMENT_CHARS) {
+    return fail('text_too_long', `Text too long (max ${MAX_DOCUMENT_CHARS} characters)`, 'text')
+  }
+
+  return { ok: true, value: { title: (body.title as string | undefined)?.trim(), text: body.text } }
+}
+
+export function parseAuthorUpsert(body: unknown): Parsed<AuthorUpsert> {
+  if (!isObject(body)) return fail('invalid_request', 'Request body must be a JSON object')
+
+  if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > MAX_TITLE_CHARS) {
+    return fail('invalid_request', `"name" must be a non-empty string of at most ${MAX_TITLE_CHARS} characters`, 'name')
+  }
+  return { ok: true, value: { name: body.name.trim() } }
+}
+
+function isLimit(v: unknown): v is number {
+  return Number.isInteger(v) && (v as number) >= 1
+}
+
+export function parseApiKeyCreate(body: unknown): Parsed<Required<ApiKeyCreateRequest>> {
+  if (!isObject(body)) return fail('invalid_request', 'Request body must be a JSON object')
+
+  if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > MAX_TITLE_CHARS) {
+    return fail('invalid_request', `"name" must be a non-empty string of at most ${MAX_TITLE_CHARS} characters`, 'name')
+  }
+  if (body.rate_limit !== undefined && !(isLimit(body.rate_limit) && body.rate_limit <= MAX_RATE_LIMIT)) {
+    return fail('invalid_request', `"rate_limit" must be an integer from 1 to ${MAX_RATE_LIMIT} (requests per minute)`, 'rate_limit')
+  }
+  if (body.daily_quota != null && !isLimit(body.daily_quota)) {
+    return fail('invalid_request', '"daily_quota" must be a positive integer or null', 'daily_quota')
+  }
+
+  return {
+    ok: true,
+    value: {
+      name: body.name.trim(),
+      rate_limit: (body.rate_limit as number | undefined) ?? DEFAULT_KEY_RATE_LIMIT,
+      daily_quota: (body.daily_quota as number | null | undefined) ?? null,
+    },
+  }
+}
+
+/**
+ * Validates the envelope only; individual documents are checked by the handler
+ * so one bad document doesn't reject the whole batch.
+ */
+export function parseBatchRequest(body: unknown): Parsed<{ documents: unknown[]; options?: DetectOptions }> {
+  if (!isObject(body)) return fail('invalid_request', 'Request body must be a JSON object')
+
+  if (!Array.isArray(body.documents) || !body.documents.length) {
+    return fail('invalid_request', '"documents" must be a non-empty array', 'documents')
+  }
+  if (body.documents.length > MAX_BATCH_DOCUMENTS) {
+    return fail('too_many_documents', `Too many documents (max ${MAX_BATCH_DOCUMENTS} per request)`, 'documents')
+  }
+
+  const options = parseOptions(body.options)
+  if (!options.ok) return options
+  if (options.value?.stream !== undefined) {
+    return fail('invalid_request', '"options.stream" is not supported on batches; stream single documents from /detect', 'options.stream')
+  }
+
+  return { ok: true, value: { documents: body.documents, options: options.value } }
+}
+
+const CONFIDENCES = ['high', 'medium', 'low']
+
+function isTimestamp(v: unknown): v is string {
+  return typeof v === 'string' && !Number.isNaN(Date.parse(v))
+}
+
+function parseScan(v: unknown, field: string): Parsed<ScanRecord> {
+  if (!isObject(v)) return fail('invalid_request', `"${field}" must be an object`, field)
+
+  const { scanned_at, ai_probability, confidence, weights_version, language, words } = v
+  if (!isTimestamp(scanned_at)) return fail('invalid_request', `"${field}.scanned_at" must be an ISO date`, `${field}.scanned_at`)
+  if (typeof ai_probability !== 'number' || ai_probability < 0 || ai_probability > 1) {
+    return fail('invalid_request', `"${field}.ai_probability" must be a number from 0 to 1`, `${field}.ai_probability`)
+  }
+  if (!CONFIDENCES.includes(confidence as string)) {
+    return fail('invalid_request', `"${field}.confidence" must be ${CONFIDENCES.join(', ')}`, `${field}.confidence`)
+  }
+  if (!Number.isInteger(weights_version)) return fail('invalid_request', `"${field}.weights_version" must be an integer`, `${field}.weights_version`)
+  if (!LANGUAGES.includes(language as any)) return fail('invalid_request', `"${field}.language" is not a supported language`, `${field}.language`)
+  if (!Number.isInteger(words) || (words as number) < 0) return fail('invalid_request', `"${field}.words" must be a non-negative integer`, `${field}.words`)
+
+  return { ok: true, value: { scanned_at, ai_probability, confidence, weights_version, language, words } as ScanRecord }
+}
+
+/** A full document as sent to PUT /documents/:id; `id` must match the path. */
+export function parseStoredDocument(body: unknown, id: string): Parsed<StoredDocument> {
+  if (!isObject(body)) return fail('invalid_request', 'Request body must be a JSON object')
+
+  if (body.id !== id) return fail('invalid_request', '"id" must match the document URL', 'id')
+  if (typeof body.title !== 'string' || !body.title.trim() || body.title.length > MAX_TITLE_CHARS) {
+    return fail('invalid_request', `"title" must be a non-empty string of at most ${MAX_TITLE_CHARS} characters`, 'title')
+  }
+  if (typeof body.text !== 'string') return fail('missing_text', 'Missing text', 'text')
+  if (body.text.length > MAX_DOCUMENT_CHARS) {
+    return fail('text_too_long', `Text too long (max ${MAX_DOCUMENT_CHARS} characters)`, 'text')
+  }
+  if (!isTimestamp(body.created_at)) return fail('invalid_request', '"created_at" must be an ISO date', 'created_at')
+  if (!isTimestamp(body.updated_at)) return fail('invalid_request', '"updated_at" must be an ISO date', 'updated_at')
+
+  if (!Array.isArray(body.scans) || body.scans.length > MAX_SCANS_PER_DOCUMENT) {
+    return fail('invalid_request', `"scans" must be an array of at most ${MAX_SCANS_PER_DOCUMENT} entries`, 'scans')
+  }
+  const scans: ScanRecord[] = []
+  for (const [i, v] of body.scans.entries()) {
+    const scan = parseScan(v, `scans.${i}`)
+    if (!scan.ok) return scan
+    scans.push(scan.value)
+  }
+
+  return {
+    ok: true,
+    value: {
+      id,
+      title: body.title.trim(),
+      text: body.text,
+      created_at: body.created_at,
+      updated_at: body.updated_at,
+      scans,
+    },
+  }
+}
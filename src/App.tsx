@@ -1,35 +1,128 @@
-import React, { useMemo, useRef, useState } from 'react'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import {
+  API_VERSION,
+  DETECTORS,
+  type AuthorSummary,
+  type ClaimStatus,
+  type DetectResponse,
+  type DetectStreamEvent,
+  type DetectorReport,
+  type HallucinationsResponse,
+  type PlagiarismResponse,
+  type ScanProfile,
+  type WritingAnnotation,
+  type WritingResponse,
+  type ScanRecord,
+  type StoredDocument,
+  type TimelineWindow,
+} from '../shared/api'
+import { DEFAULT_TITLE, newDocument, withScan } from '../shared/documents'
+import { highlightRuns, sentenceHighlights, withEvasionHighlights, withRuleHighlights, type Highlight } from '../shared/highlights'
+import { renderScanReport } from '../shared/report'
+import AuthorStyle from './components/AuthorStyle'
+import BatchView from './components/BatchView'
+import CompareView from './components/CompareView'
+import DetectorList from './components/DetectorList'
+import EvasionSignals from './components/EvasionSignals'
+import HallucinationResults from './components/HallucinationResults'
+import PlagiarismResults from './components/PlagiarismResults'
+import ProfileEditor from './components/ProfileEditor'
+import ScoreBreakdown from './components/ScoreBreakdown'
+import Sparkline from './components/Sparkline'
+import WritingResults from './components/WritingResults'
+import ReviewView from './components/ReviewView'
+import {
+  ApiClientError,
+  detectStream,
+  hallucinations as checkHallucinations,
+  listAuthors,
+  plagiarism as checkPlagiarism,
+  putAuthor,
+  putAuthorSample,
+  setApiKey,
+  writing as checkWriting,
+} from './lib/api'
+import { downloadFile, fileSlug, printHtml } from './lib/download'
+import { ACCEPT_ATTR, extractText } from './lib/extract'
+import { pct, wordCount } from './lib/format'
+import { openStore, type DocumentStore } from './lib/history'
+import { enabledDetectors, loadProfiles, newProfile, removeProfile, saveProfile } from './lib/profiles'
 
 type ScanMode = 'advanced' | 'plagiarism' | 'hallucinations' | 'writing' | 'custom'
 
-type ApiDetectResponse = {
-  ok: boolean
-  score?: number // 0..1 (higher => more likely AI)
-  model?: string
-  details?: {
-    entropy?: number
-    burstiness?: number
-    tokenCount?: number
-    sentenceCount?: number
-  }
-  notes?: string[]
-  error?: string
+/** What a streamed scan has reported so far. */
+type ScanProgress = {
+  detectors: DetectorReport[]
+  windows: TimelineWindow[]
+  /** Timeline windows to score; 0 until the first one arrives. */
+  total: number
 }
 
-function clamp(n: number, min = 0, max = 1) {
-  return Math.max(min, Math.min(max, n))
+function withEvent(p: ScanProgress, e: DetectStreamEvent): ScanProgress {
+  if (e.type === 'detector') return { ...p, detectors: [...p.detectors, e.detector] }
+  if (e.type === 'window') return { ...p, windows: [...p.windows, e.window], total: e.total }
+  return p
 }
 
-function pct(n: number) {
-  return `${Math.round(clamp(n) * 100)}%`
+const ENDPOINTS: Record<ScanMode, string> = {
+  advanced: 'detect',
+  plagiarism: 'plagiarism',
+  hallucinations: 'hallucinations',
+  writing: 'writing',
+  custom: 'detect',
 }
 
 function shortCountLabel(text: string) {
-  const words = text.trim().length ? text.trim().split(/\s+/).length : 0
+  const words = wordCount(text)
   const chars = text.length
   return { words, chars }
 }
 
+/** Passages from every matched source, in text order; overlaps are clipped when rendered. */
+function passageHighlights(res: PlagiarismResponse): Highlight[] {
+  return res.matches
+    .flatMap(m => m.passages.map(p => ({ start: p.start, end: p.end, className: 'hlMatch' })))
+    .sort((a, b) => a.start - b.start)
+}
+
+/** Phrase-level findings only; sentence-length flags would cover everything inside them. */
+const WRITING_HIGHLIGHT: Partial<Record<WritingAnnotation['kind'], string>> = {
+  stock_phrase: 'hlHigh',
+  filler: 'hlMedium',
+  passive: 'hlMedium',
+  overused: 'hlRepeat',
+}
+
+const CLAIM_HIGHLIGHT: Partial<Record<ClaimStatus, string>> = {
+  contradicted: 'hlHigh',
+  unsupported: 'hlMedium',
+  supported: 'hlSupported',
+}
+
+function claimHighlights(res: HallucinationsResponse): Highlight[] {
+  return res.claims.flatMap(c => {
+    const className = CLAIM_HIGHLIGHT[c.status]
+    return className ? [{ start: c.start, end: c.end, className }] : []
+  })
+}
+
+function writingHighlights(res: WritingResponse): Highlight[] {
+  return res.annotations.flatMap(a => {
+    const className = WRITING_HIGHLIGHT[a.kind]
+    return className ? [{ start: a.start, end: a.end, className }] : []
+  })
+}
+
+/** Mirror of the textarea content with the highlighted spans wrapped in <mark>. */
+function renderHighlights(text: string, spans: Highlight[], offset: number) {
+  const out: React.ReactNode[] = highlightRuns(text, spans, offset).map((r, i) =>
+    r.className ? <mark key={i} className={`hl ${r.className}`}>{r.text}</mark> : r.text
+  )
+  // trailing newline keeps the layer as tall as the textarea content
+  out.push('\n')
+  return out
+}
+
 function iconSvg(kind: string) {
   const common = { width: 20, height: 20, viewBox: '0 0 24 24', fill: 'none', xmlns: 'http://www.w3.org/2000/svg' }
   switch (kind) {
@@ -54,6 +147,13 @@ function iconSvg(kind: string) {
           <path d="M8 9h6M8 12h4" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
         </svg>
       )
+    case 'compare':
+      return (
+        <svg {...common}>
+          <path d="M8 4v16M16 4v16" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+          <path d="M3 9l5-5 5 5M11 15l5 5 5-5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+        </svg>
+      )
     case 'plus':
       return (
         <svg {...common}>
@@ -80,48 +180,11 @@ function iconSvg(kind: string) {
   }
 }
 
-/** Pull a numeric score from lots of common API shapes. Returns 0..1 if found. */
-function extractScore(raw: any): number | null {
-  const candidates: any[] = [
-    raw?.score,
-    raw?.ai_likelihood,
-    raw?.aiLikelihood,
-    raw?.likelihood,
-    raw?.probability,
-    raw?.ai_probability,
-    raw?.aiProbability,
-    raw?.result?.score,
-    raw?.result?.ai_likelihood,
-    raw?.result?.likelihood,
-    raw?.data?.score,
-    raw?.data?.likelihood,
-    raw?.data?.ai_likelihood,
-  ]
-
-  let n: number | null = null
-
-  for (const c of candidates) {
-    if (typeof c === 'number' && Number.isFinite(c)) { n = c; break }
-    if (typeof c === 'string') {
-      const parsed = Number(c)
-      if (Number.isFinite(parsed)) { n = parsed; break }
-    }
-  }
-
-  if (n == null) return null
-
-  // normalize 0..100 → 0..1 if needed
-  if (n > 1 && n <= 100) n = n / 100
-
-  // clamp sanity
-  if (n < 0 || n > 1) return null
-  return n
-}
-
 export default function App() {
   const fileRef = useRef<HTMLInputElement | null>(null)
+  const highlightRef = useRef<HTMLDivElement | null>(null)
 
-  const [activeSide, setActiveSide] = useState<'home' | 'docs' | 'review'>('docs')
+  const [activeSide, setActiveSide] = useState<'home' | 'docs' | 'review' | 'compare'>('home')
 
   const [text, setText] = useState<string>('')
 
@@ -131,11 +194,38 @@ export default function App() {
 
   const [mode, setMode] = useState<ScanMode>('advanced')
   const [loading, setLoading] = useState(false)
-  const [result, setResult] = useState<ApiDetectResponse | null>(null)
+  const [progress, setProgress] = useState<ScanProgress | null>(null)
+  const scanAbort = useRef<AbortController | null>(null)
+  const [result, setResult] = useState<DetectResponse | null>(null)
+  const [matches, setMatches] = useState<PlagiarismResponse | null>(null)
+  const [feedback, setFeedback] = useState<WritingResponse | null>(null)
+  const [claims, setClaims] = useState<HallucinationsResponse | null>(null)
+  const [source, setSource] = useState('')
   const [error, setError] = useState<string | null>(null)
+  const [scannedText, setScannedText] = useState<string | null>(null)
+  const [warnings, setWarnings] = useState<string[]>([])
+  const [extracting, setExtracting] = useState(false)
+  const [dragging, setDragging] = useState(false)
+
+  const [store, setStore] = useState<DocumentStore | null>(null)
+  const [docId, setDocId] = useState<string | null>(null)
+  const [title, setTitle] = useState(DEFAULT_TITLE)
+  const [lastScan, setLastScan] = useState<ScanRecord | null>(null)
+
+  const [profiles, setProfiles] = useState<ScanProfile[]>(loadProfiles)
+  const [profileId, setProfileId] = useState<string | null>(null)
+  const [editing, setEditing] = useState<ScanProfile | null>(null)
+  const profile = profiles.find(p => p.id === profileId) ?? null
+
+  // null when the deployment has no AUTHORS binding; the author picker is hidden then.
+  const [authors, setAuthors] = useState<AuthorSummary[] | null>(null)
+  const [authorId, setAuthorId] = useState('')
+
+  useEffect(() => { openStore().then(setStore) }, [])
+  useEffect(() => { listAuthors().then(setAuthors, () => setAuthors(null)) }, [])
 
   const counts = useMemo(() => shortCountLabel(text), [text])
-  const endpointLabel = useMemo(() => `POST /api/detect`, [])
+  const endpointLabel = useMemo(() => `POST /api/${API_VERSION}/${ENDPOINTS[mode]}`, [mode])
 
   function setSample(which: 'human' | 'ai') {
     const human =
@@ -150,16 +240,93 @@ achieve better outcomes and maintain consistent progress toward their goals.`
 
     setText(which === 'human' ? human : ai)
     setResult(null)
+    setMatches(null)
+    setFeedback(null)
+    setClaims(null)
     setError(null)
+    setWarnings([])
   }
 
-  async function onPickFile(e: React.ChangeEvent<HTMLInputElement>) {
-    const f = e.target.files?.[0]
-    if (!f) return
-    const content = await f.text()
-    setText(content)
+  async function loadFile(f: File) {
     setResult(null)
+    setMatches(null)
+    setFeedback(null)
+    setClaims(null)
     setError(null)
+    setWarnings([])
+    setExtracting(true)
+    try {
+      const extracted = await extractText(f)
+      setWarnings(extracted.warnings)
+      // Keep whatever is in the editor rather than replacing it with nothing.
+      if (extracted.text) setText(extracted.text)
+    } finally {
+      setExtracting(false)
+    }
+  }
+
+  async function onPickFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const f = e.target.files?.[0]
+    e.target.value = ''
+    if (f) await loadFile(f)
+  }
+
+  function onDragOver(e: React.DragEvent) {
+    if (!e.dataTransfer.types.includes('Files')) return
+    e.preventDefault()
+    setDragging(true)
+  }
+
+  function onDrop(e: React.DragEvent) {
+    if (!e.dataTransfer.files.length) return
+    e.preventDefault()
+    setDragging(false)
+    loadFile(e.dataTransfer.files[0])
+  }
+
+  function selectProfile(p: ScanProfile) {
+    setProfileId(p.id)
+    setMode('custom')
+  }
+
+  function onSaveProfile(p: ScanProfile) {
+    setProfiles(saveProfile(p))
+    setEditing(null)
+    selectProfile(p)
+  }
+
+  function onDeleteProfile(id: string) {
+    if (!confirm('Delete this custom scan?')) return
+    setProfiles(removeProfile(id))
+    setEditing(null)
+    if (id === profileId) {
+      setProfileId(null)
+      setMode('advanced')
+    }
+  }
+
+  async function newAuthor() {
+    const name = window.prompt('Author name:')?.trim()
+    if (!name) return
+    try {
+      const author = await putAuthor(crypto.randomUUID(), name)
+      setAuthors(await listAuthors())
+      setAuthorId(author.id)
+    } catch (err: any) {
+      setError(err?.message || 'Could not create the author.')
+    }
+  }
+
+  /** The editor text becomes one of the chosen author's reference samples. */
+  async function addAuthorSample() {
+    const payloadText = normalizedText()
+    if (!authorId || !payloadText.trim()) return
+    try {
+      await putAuthorSample(authorId, crypto.randomUUID(), { title: title.trim() || DEFAULT_TITLE, text: payloadText })
+      setAuthors(await listAuthors())
+    } catch (err: any) {
+      setError(err?.message || 'Could not add the sample.')
+    }
   }
 
   function normalizedText() {
@@ -168,86 +335,195 @@ achieve better outcomes and maintain consistent progress toward their goals.`
     return t
   }
 
+  function newDoc() {
+    setDocId(null)
+    setTitle(DEFAULT_TITLE)
+    setLastScan(null)
+    setText('')
+    setResult(null)
+    setMatches(null)
+    setFeedback(null)
+    setClaims(null)
+    setScannedText(null)
+    setError(null)
+    setWarnings([])
+    setActiveSide('home')
+  }
+
+  function openDoc(doc: StoredDocument) {
+    setDocId(doc.id)
+    setTitle(doc.title)
+    setLastScan(doc.scans[doc.scans.length - 1] ?? null)
+    setText(doc.text)
+    setResult(null)
+    setMatches(null)
+    setFeedback(null)
+    setClaims(null)
+    setScannedText(null)
+    setError(null)
+    setWarnings([])
+    setActiveSide('home')
+  }
+
+  async function renameDoc() {
+    const next = title.trim() || DEFAULT_TITLE
+    setTitle(next)
+    if (!store || !docId) return
+    try {
+      const doc = await store.get(docId)
+      if (doc && doc.title !== next) await store.put({ ...doc, title: next, updated_at: new Date().toISOString() })
+    } catch (err: any) {
+      setWarnings([`Could not rename: ${err?.message || 'storage error'}`])
+    }
+  }
+
+  /** Every successful scan is saved with the document, creating it on first scan. */
+  async function saveScan(scanned: string, res: DetectResponse) {
+    if (!store) return
+    const scan: ScanRecord = {
+      scanned_at: new Date().toISOString(),
+      ai_probability: res.ai_probability,
+      confidence: res.confidence,
+      weights_version: res.weights_version,
+      language: res.language.code,
+      words: wordCount(scanned),
+    }
+    try {
+      const existing = docId ? await store.get(docId) : null
+      const doc = withScan(existing ?? newDocument(scanned), scanned, scan)
+      const saved = await store.put({ ...doc, title: title.trim() || DEFAULT_TITLE })
+      setDocId(saved.id)
+      setLastScan(scan)
+    } catch (err: any) {
+      setWarnings([`Scan not saved to history: ${err?.message || 'storage error'}`])
+    }
+  }
+
   async function runScan() {
     setError(null)
     setResult(null)
+    setMatches(null)
+    setFeedback(null)
+    setClaims(null)
+    setScannedText(null)
 
     const payloadText = normalizedText()
-    if (!payloadText || payloadText.split(/\s+/).filter(Boolean).length < 10) {
+    if (!payloadText || wordCount(payloadText) < 10) {
       setError('Paste more text (recommended 40+ words) for a more stable score.')
       return
     }
 
+    const abort = new AbortController()
+    scanAbort.current = abort
     setLoading(true)
     try {
-      const res = await fetch('/api/detect', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          text: payloadText,
-          mode,
-          options: {
-            highlightSentences,
-            showBreakdown,
-          },
-        }),
-      })
-
-      if (!res.ok) {
-        let msg = `Scan failed (HTTP ${res.status}).`
-        try {
-          const maybeJson = await res.json()
-          msg = (maybeJson?.error as string) || msg
-        } catch {
-          // non-JSON response
-        }
-        setError(msg)
-        setResult(null)
+      if (mode === 'plagiarism') {
+        setMatches(await checkPlagiarism({ text: payloadText }, abort.signal))
+        setScannedText(payloadText)
         return
       }
-
-      const raw = (await res.json()) as any
-
-      // If backend explicitly says ok:false, respect it.
-      if (typeof raw?.ok === 'boolean' && raw.ok === false) {
-        setError(raw?.error || 'Scan failed.')
-        setResult(null)
+      if (mode === 'writing') {
+        setFeedback(await checkWriting({ text: payloadText }, abort.signal))
+        setScannedText(payloadText)
         return
       }
-
-      // Try to extract score from many possible shapes.
-      const score = extractScore(raw)
-
-      if (score == null) {
-        const keys = raw && typeof raw === 'object' ? Object.keys(raw).slice(0, 12).join(', ') : String(raw)
-        setError(`Scan failed (unexpected response). Missing score. Keys: ${keys}`)
-        setResult(null)
+      if (mode === 'hallucinations') {
+        setClaims(await checkHallucinations({ text: payloadText, source: source.trim() ? source : undefined }, abort.signal))
+        setScannedText(payloadText)
         return
       }
 
-      const normalized: ApiDetectResponse = {
-        ok: true,
-        score,
-        model: raw?.model || raw?.detector || raw?.result?.model || raw?.data?.model || 'local-heuristic',
-        details: raw?.details || raw?.result?.details || raw?.data?.details,
-        notes: raw?.notes || raw?.result?.notes || raw?.data?.notes,
+      if (mode === 'custom' && !profile) {
+        setError('Pick a custom scan, or create one.')
+        return
       }
 
-      setResult(normalized)
+      setProgress({ detectors: [], windows: [], total: 0 })
+      const res = await detectStream(
+        {
+          text: payloadText,
+          mode: 'detect',
+          options: {
+            highlightSentences,
+            showBreakdown,
+            profile: mode === 'custom' ? profile! : undefined,
+            author: authors?.some(a => a.id === authorId && a.samples) ? authorId : undefined,
+          },
+        },
+        (e) => setProgress(p => p && withEvent(p, e)),
+        abort.signal
+      )
+
+      setResult(res)
+      setScannedText(payloadText)
+      await saveScan(payloadText, res)
     } catch (err: any) {
+      if (err?.name === 'AbortError') {
+        setError('Scan cancelled.')
+        return
+      }
+      if (err instanceof ApiClientError && err.code === 'unauthorized') {
+        const key = window.prompt(`${err.message}. Enter an API key for this deployment:`)
+        if (key?.trim()) {
+          setApiKey(key.trim())
+          setError('API key saved. Run the scan again.')
+          return
+        }
+      }
       setError(err?.message || 'Network error.')
     } finally {
+      scanAbort.current = null
       setLoading(false)
+      setProgress(null)
     }
   }
 
-  const uiScore = result?.score ?? null
+  function cancelScan() {
+    scanAbort.current?.abort()
+  }
+
+  function exportReport(as: 'html' | 'pdf') {
+    if (!result || scannedText == null) return
+    const html = renderScanReport({
+      title: title.trim() || DEFAULT_TITLE,
+      text: scannedText,
+      result,
+      generated_at: new Date().toISOString(),
+    })
+    try {
+      if (as === 'html') downloadFile(`${fileSlug(title)}-scan-report.html`, html, 'text/html')
+      else printHtml(html)
+    } catch (err: any) {
+      setError(err?.message || 'Could not export the report.')
+    }
+  }
+
+  const uiScore = result?.ai_probability ?? null
   const confidence =
-    uiScore == null ? null :
-    uiScore >= 0.7 ? 'High confidence' :
-    uiScore >= 0.45 ? 'Medium confidence' :
+    result == null ? null :
+    result.confidence === 'high' ? 'High confidence' :
+    result.confidence === 'medium' ? 'Medium confidence' :
     'Low confidence'
 
+  // Sentence offsets refer to the scanned (possibly trimmed) text; drop them once the editor diverges.
+  const highlightOffset = scannedText == null ? -1 : text.indexOf(scannedText)
+  const highlights =
+    mode === 'plagiarism' ? (matches ? passageHighlights(matches) : []) :
+    mode === 'writing' ? (feedback ? writingHighlights(feedback) : []) :
+    mode === 'hallucinations' ? (claims ? claimHighlights(claims) : []) :
+    result
+      ? withEvasionHighlights(
+          highlightSentences && result.sentences
+            ? withRuleHighlights(sentenceHighlights(result.sentences, result.profile?.thresholds), result.profile?.rules ?? [])
+            : [],
+          result.evasion.findings
+        )
+      : []
+  const showHighlights =
+    !!highlights.length &&
+    highlightOffset >= 0 &&
+    normalizedText() === scannedText
+
   return (
     <div className="appShell">
       <aside className="sidebar" aria-label="UpCube Detect navigation">
@@ -281,9 +557,18 @@ achieve better outcomes and maintain consistent progress toward their goals.`
             {iconSvg('review')}
           </button>
 
+          <button
+            className={`sideItem ${activeSide === 'compare' ? 'sideItemActive' : ''}`}
+            onClick={() => setActiveSide('compare')}
+            title="Compare drafts"
+            aria-label="Compare drafts"
+          >
+            {iconSvg('compare')}
+          </button>
+
           <button
             className="sideItem"
-            onClick={() => alert('Coming soon')}
+            onClick={newDoc}
             title="New"
             aria-label="New"
           >
@@ -303,213 +588,493 @@ achieve better outcomes and maintain consistent progress toward their goals.`
         </div>
       </aside>
 
-      <main className="main">
+      <main
+        className={`main ${dragging && activeSide !== 'docs' ? 'mainDragging' : ''}`}
+        onDragOver={activeSide !== 'docs' ? onDragOver : undefined}
+        onDragLeave={(e) => { if (e.currentTarget === e.target) setDragging(false) }}
+        onDrop={activeSide !== 'docs' ? onDrop : undefined}
+      >
         <div className="wrap">
-          <div className="topBar">
-            <div className="docTitle">
-              <div>
-                <h1>UpCube Detect <span>Untitled Document</span></h1>
-              </div>
-            </div>
-
-            <div className="actionRow">
-              <button className="btn btnGhost" onClick={() => setSample('human')}>Human sample</button>
-              <button className="btn btnGhost" onClick={() => setSample('ai')}>AI sample</button>
-
-              <input
-                ref={fileRef}
-                type="file"
-                accept=".txt,.md,.docx"
-                style={{ display: 'none' }}
-                onChange={onPickFile}
-              />
-              <button className="btn" onClick={() => fileRef.current?.click()}>
-                Upload
-              </button>
-
-              <button className="btn btnPrimary" onClick={runScan} disabled={loading}>
-                {loading ? 'Scanning…' : 'Scan'}
-              </button>
-            </div>
-          </div>
-
-          <div className="grid">
-            <section className="card editorShell" aria-label="Text input">
-              <div className="editorHead">
-                <div>
-                  <h2>Paste text</h2>
-                  <div className="sub">Or drag-drop a file anywhere · Recommended: 40+ words</div>
+          {activeSide === 'docs' ? <BatchView /> : activeSide === 'compare' ? (
+            <CompareView initialAfter={text} />
+          ) : activeSide === 'review' ? (
+            <ReviewView
+              store={store}
+              currentId={docId}
+              onOpen={openDoc}
+              onRenamed={(id, t) => { if (id === docId) setTitle(t) }}
+              onDeleted={(id) => { if (id === docId) { setDocId(null); setLastScan(null) } }}
+            />
+          ) : (
+            <>
+              <div className="topBar">
+                <div className="docTitle">
+                  <div>
+                    <h1>
+                      UpCube Detect
+                      <span>
+                        <input
+                          className="titleInput"
+                          value={title}
+                          maxLength={200}
+                          aria-label="Document title"
+                          onChange={(e) => setTitle(e.target.value)}
+                          onBlur={renameDoc}
+                          onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+                        />
+                      </span>
+                    </h1>
+                  </div>
                 </div>
 
-                <div className="chips" aria-label="Counters">
-                  <div className="chip">{counts.words} words</div>
-                  <div className="chip">{counts.chars} chars</div>
-                  <div className="chip">{endpointLabel}</div>
+                <div className="actionRow">
+                  <button className="btn btnGhost" onClick={() => setSample('human')}>Human sample</button>
+                  <button className="btn btnGhost" onClick={() => setSample('ai')}>AI sample</button>
+
+                  <input
+                    ref={fileRef}
+                    type="file"
+                    accept={ACCEPT_ATTR}
+                    style={{ display: 'none' }}
+                    onChange={onPickFile}
+                  />
+                  <button className="btn" onClick={() => fileRef.current?.click()} disabled={extracting}>
+                    {extracting ? 'Reading…' : 'Upload'}
+                  </button>
+
+                  {loading ? <button className="btn" onClick={cancelScan}>Cancel</button> : null}
+                  <button className="btn btnPrimary" onClick={runScan} disabled={loading}>
+                    {loading ? 'Scanning…' : 'Scan'}
+                  </button>
                 </div>
               </div>
 
-              <div className="textareaWrap">
-                <textarea
-                  value={text}
-                  onChange={(e) => setText(e.target.value)}
-                  placeholder="Paste text here…"
-                />
-              </div>
+              <div className="grid">
+                <section className="card editorShell" aria-label="Text input">
+                  <div className="editorHead">
+                    <div>
+                      <h2>Paste text</h2>
+                      <div className="sub">Or drag-drop a file anywhere · Recommended: 40+ words</div>
+                    </div>
 
-              <div className="editorFoot">
-                <div className="checkRow">
-                  <label>
-                    <input type="checkbox" checked={showBreakdown} onChange={(e) => setShowBreakdown(e.target.checked)} />
-                    Show breakdown
-                  </label>
-                  <label>
-                    <input type="checkbox" checked={highlightSentences} onChange={(e) => setHighlightSentences(e.target.checked)} />
-                    Highlight sentences
-                  </label>
-                </div>
+                    <div className="chips" aria-label="Counters">
+                      <div className="chip">{counts.words} words</div>
+                      <div className="chip">{counts.chars} chars</div>
+                      <div className="chip">{endpointLabel}</div>
+                    </div>
+                  </div>
 
-                <div className="checkRow">
-                  <label>
-                    <input type="checkbox" checked={autoTrim} onChange={(e) => setAutoTrim(e.target.checked)} />
-                    Auto-trim
-                  </label>
-                </div>
-              </div>
-            </section>
+                  <div className="textareaWrap">
+                  {warnings.map((w, i) => <div key={i} className="toast toastWarn">{w}</div>)}
 
-            <aside className="rightStack" aria-label="Scan options and results">
-              <section className="card">
-                <div className="cardInner">
-                  <div className="panelTitle">
-                    <div>
-                      <h3>Scan types</h3>
-                      <p>Choose a scan, then click Scan.</p>
+                    <div className="highlightField">
+                      {showHighlights ? (
+                        <div className="highlightLayer" ref={highlightRef} aria-hidden="true">
+                          {renderHighlights(text, highlights, highlightOffset)}
+                        </div>
+                      ) : null}
+                      <textarea
+                        className={showHighlights ? 'textareaHighlighted' : undefined}
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        onScroll={(e) => {
+                          if (highlightRef.current) highlightRef.current.scrollTop = e.currentTarget.scrollTop
+                        }}
+                        placeholder="Paste text here…"
+                      />
                     </div>
+
+                    {mode === 'hallucinations' ? (
+                      <label className="sourceField">
+                        <div className="kpiLabel">Source (optional)</div>
+                        <textarea
+                          value={source}
+                          onChange={(e) => setSource(e.target.value)}
+                          placeholder="Paste what the text should be based on. Without a source, only contradictions within the text are found."
+                        />
+                      </label>
+                    ) : null}
                   </div>
 
-                  <div className="scanList">
-                    <div className="scanItem" onClick={() => setMode('advanced')} role="button" aria-label="Advanced AI Scan">
-                      <div className="scanLeft">
-                        <div className="badge">AI</div>
-                        <div>
-                          <div style={{ fontWeight: 800, fontSize: 13 }}>Advanced AI Scan</div>
-                          <div className="small">Multi-signal AI likelihood</div>
-                        </div>
-                      </div>
-                      <div className={`badge ${mode === 'advanced' ? 'badgeOn' : 'badgeSoon'}`}>On</div>
+                  <div className="editorFoot">
+                    <div className="checkRow">
+                      <label>
+                        <input type="checkbox" checked={showBreakdown} onChange={(e) => setShowBreakdown(e.target.checked)} />
+                        Show breakdown
+                      </label>
+                      <label>
+                        <input type="checkbox" checked={highlightSentences} onChange={(e) => setHighlightSentences(e.target.checked)} />
+                        Highlight sentences
+                      </label>
                     </div>
 
-                    <div className="scanItem" role="button" aria-label="Plagiarism Check (coming soon)">
-                      <div className="scanLeft">
-                        <div className="badge">P</div>
-                        <div>
-                          <div style={{ fontWeight: 800, fontSize: 13 }}>Plagiarism Check</div>
-                          <div className="small">Coming soon</div>
-                        </div>
+                    {showHighlights ? (
+                      <div className="checkRow" aria-label="Highlight legend">
+                        {mode === 'plagiarism' ? (
+                          <span className="hl hlMatch">Matched</span>
+                        ) : mode === 'writing' ? (
+                          <>
+                            <span className="hl hlHigh">AI-ish</span>
+                            <span className="hl hlMedium">Style</span>
+                            <span className="hl hlRepeat">Repeated</span>
+                          </>
+                        ) : mode === 'hallucinations' ? (
+                          <>
+                            <span className="hl hlHigh">Contradicted</span>
+                            <span className="hl hlMedium">Unsupported</span>
+                            <span className="hl hlSupported">Supported</span>
+                          </>
+                        ) : (
+                          <>
+                            <span className="hl hlHigh">High</span>
+                            <span className="hl hlMedium">Medium</span>
+                            {result?.profile?.rules.some(r => r.hits) ? <span className="hl hlRule">Rule</span> : null}
+                            {result?.evasion.findings.length ? <span className="hl hlEvasion">Evasion</span> : null}
+                          </>
+                        )}
                       </div>
-                      <div className="badge badgeSoon">Soon</div>
-                    </div>
+                    ) : null}
+
+                    {authors && (mode === 'advanced' || mode === 'custom') ? (
+                      <div className="checkRow">
+                        <label>
+                          Author
+                          <select className="fieldInput" value={authorId} onChange={(e) => setAuthorId(e.target.value)}>
+                            <option value="">None</option>
+                            {authors.map(a => (
+                              <option key={a.id} value={a.id}>
+                                {a.name} · {a.samples} sample{a.samples === 1 ? '' : 's'}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        {authorId ? <button className="linkBtn" onClick={addAuthorSample}>Add text as a sample</button> : null}
+                        <button className="linkBtn" onClick={newAuthor}>New author</button>
+                      </div>
+                    ) : null}
 
-                    <div className="scanItem" role="button" aria-label="AI Hallucinations (coming soon)">
-                      <div className="scanLeft">
-                        <div className="badge">H</div>
-                        <div>
-                          <div style={{ fontWeight: 800, fontSize: 13 }}>AI Hallucinations</div>
-                          <div className="small">Coming soon</div>
+                    <div className="checkRow">
+                      <label>
+                        <input type="checkbox" checked={autoTrim} onChange={(e) => setAutoTrim(e.target.checked)} />
+                        Auto-trim
+                      </label>
+                    </div>
+                  </div>
+                </section>
+
+                <aside className="rightStack" aria-label="Scan options and results">
+                  {editing ? (
+                    <section className="card">
+                      <div className="cardInner">
+                        <div className="panelTitle">
+                          <div>
+                            <h3>Custom scan</h3>
+                            <p>Saved in this browser and sent with each scan.</p>
+                          </div>
                         </div>
+                        <ProfileEditor
+                          key={editing.id}
+                          profile={editing}
+                          saved={profiles.some(p => p.id === editing.id)}
+                          onSave={onSaveProfile}
+                          onDelete={onDeleteProfile}
+                          onCancel={() => setEditing(null)}
+                        />
                       </div>
-                      <div className="badge badgeSoon">Soon</div>
-                    </div>
+                    </section>
+                  ) : null}
 
-                    <div className="scanItem" role="button" aria-label="Writing Feedback (coming soon)">
-                      <div className="scanLeft">
-                        <div className="badge">W</div>
+                  <section className="card">
+                    <div className="cardInner">
+                      <div className="panelTitle">
                         <div>
-                          <div style={{ fontWeight: 800, fontSize: 13 }}>Writing Feedback</div>
-                          <div className="small">Coming soon</div>
+                          <h3>Scan types</h3>
+                          <p>Choose a scan, then click Scan.</p>
                         </div>
                       </div>
-                      <div className="badge badgeSoon">Soon</div>
-                    </div>
 
-                    <div className="scanItem" role="button" aria-label="Create Custom Scan (coming soon)">
-                      <div className="scanLeft">
-                        <div className="badge">+</div>
-                        <div>
-                          <div style={{ fontWeight: 800, fontSize: 13 }}>Create Custom Scan</div>
-                          <div className="small">Coming soon</div>
+                      <div className="scanList">
+                        <div className="scanItem" onClick={() => setMode('advanced')} role="button" aria-label="Advanced AI Scan">
+                          <div className="scanLeft">
+                            <div className="badge">AI</div>
+                            <div>
+                              <div style={{ fontWeight: 800, fontSize: 13 }}>Advanced AI Scan</div>
+                              <div className="small">Multi-signal AI likelihood</div>
+                            </div>
+                          </div>
+                          <div className={`badge ${mode === 'advanced' ? 'badgeOn' : 'badgeSoon'}`}>On</div>
                         </div>
-                      </div>
-                      <div className="badge badgeSoon">Soon</div>
-                    </div>
-                  </div>
 
-                  <div className="hr" />
+                        <div className="scanItem" onClick={() => setMode('plagiarism')} role="button" aria-label="Plagiarism Check">
+                          <div className="scanLeft">
+                            <div className="badge">P</div>
+                            <div>
+                              <div style={{ fontWeight: 800, fontSize: 13 }}>Plagiarism Check</div>
+                              <div className="small">Matches against your reference corpus</div>
+                            </div>
+                          </div>
+                          <div className={`badge ${mode === 'plagiarism' ? 'badgeOn' : 'badgeSoon'}`}>On</div>
+                        </div>
 
-                  <div className="small">
-                    Usability tip: if you’re testing content, compare multiple drafts, not just one paragraph.
-                  </div>
-                </div>
-              </section>
+                        <div className="scanItem" onClick={() => setMode('hallucinations')} role="button" aria-label="AI Hallucinations">
+                          <div className="scanLeft">
+                            <div className="badge">H</div>
+                            <div>
+                              <div style={{ fontWeight: 800, fontSize: 13 }}>AI Hallucinations</div>
+                              <div className="small">Claims checked against a source</div>
+                            </div>
+                          </div>
+                          <div className={`badge ${mode === 'hallucinations' ? 'badgeOn' : 'badgeSoon'}`}>On</div>
+                        </div>
 
-              <section className="card">
-                <div className="cardInner">
-                  <div className="panelTitle">
-                    <div>
-                      <h3>Results</h3>
-                      <p>Probabilistic score — not a guarantee.</p>
-                    </div>
-                  </div>
+                        <div className="scanItem" onClick={() => setMode('writing')} role="button" aria-label="Writing Feedback">
+                          <div className="scanLeft">
+                            <div className="badge">W</div>
+                            <div>
+                              <div style={{ fontWeight: 800, fontSize: 13 }}>Writing Feedback</div>
+                              <div className="small">Readability, style and stock phrases</div>
+                            </div>
+                          </div>
+                          <div className={`badge ${mode === 'writing' ? 'badgeOn' : 'badgeSoon'}`}>On</div>
+                        </div>
 
-                  {error ? <div className="toast">{error}</div> : null}
+                        {profiles.map(p => (
+                          <div key={p.id} className="scanItem" onClick={() => selectProfile(p)} role="button" aria-label={`Custom scan: ${p.name}`}>
+                            <div className="scanLeft">
+                              <div className="badge">C</div>
+                              <div>
+                                <div style={{ fontWeight: 800, fontSize: 13 }}>{p.name}</div>
+                                <div className="small">
+                                  {enabledDetectors(p).length} detectors · {p.rules.length} rule{p.rules.length === 1 ? '' : 's'} ·{' '}
+                                  <button className="linkBtn" onClick={(e) => { e.stopPropagation(); setEditing(p) }}>Edit</button>
+                                </div>
+                              </div>
+                            </div>
+                            <div className={`badge ${mode === 'custom' && p.id === profileId ? 'badgeOn' : 'badgeSoon'}`}>On</div>
+                          </div>
+                        ))}
+
+                        <div className="scanItem" onClick={() => setEditing(newProfile())} role="button" aria-label="Create Custom Scan">
+                          <div className="scanLeft">
+                            <div className="badge">+</div>
+                            <div>
+                              <div style={{ fontWeight: 800, fontSize: 13 }}>Create Custom Scan</div>
+                              <div className="small">Your own detectors, weights, thresholds and rules</div>
+                            </div>
+                          </div>
+                        </div>
+                      </div>
 
-                  <div className="kpiRow" style={{ marginTop: 12 }}>
-                    <div className="kpi">
-                      <div className="kpiLabel">AI likelihood</div>
-                      <div className="kpiValue">{uiScore == null ? '—' : pct(uiScore)}</div>
-                      <div className="kpiHint">{uiScore == null ? 'Paste text and click Scan' : (confidence || '')}</div>
-                    </div>
+                      <div className="hr" />
 
-                    <div className="kpi">
-                      <div className="kpiLabel">Model</div>
-                      <div className="kpiValue" style={{ fontSize: 14, marginTop: 10 }}>
-                        {result?.model || 'local-heuristic'}
+                      <div className="small">
+                        Usability tip: if you’re testing content,{' '}
+                        <button className="linkBtn" onClick={() => setActiveSide('compare')}>compare multiple drafts</button>,
+                        not just one paragraph.
                       </div>
-                      <div className="kpiHint">Edge-safe, no external APIs</div>
                     </div>
-                  </div>
+                  </section>
 
-                  {result?.details && showBreakdown ? (
-                    <>
-                      <div className="hr" />
-                      <div className="small" style={{ fontWeight: 800, marginBottom: 8 }}>Signals</div>
-                      <div className="kpiRow">
-                        <div className="kpi">
-                          <div className="kpiLabel">Entropy</div>
-                          <div className="kpiValue" style={{ fontSize: 18 }}>
-                            {result.details.entropy == null ? '—' : result.details.entropy.toFixed(2)}
-                          </div>
-                          <div className="kpiHint">Lexical diversity proxy</div>
+                  <section className="card">
+                    <div className="cardInner">
+                      <div className="panelTitle">
+                        <div>
+                          <h3>Results</h3>
+                          <p>Probabilistic score — not a guarantee.</p>
                         </div>
-                        <div className="kpi">
-                          <div className="kpiLabel">Burstiness</div>
-                          <div className="kpiValue" style={{ fontSize: 18 }}>
-                            {result.details.burstiness == null ? '—' : result.details.burstiness.toFixed(2)}
+                        {result && scannedText != null && mode === 'advanced' || mode === 'custom' ? (
+                          <div className="rowActions">
+                            <button className="btn btnSmall" onClick={() => exportReport('html')}>HTML report</button>
+                            <button className="btn btnSmall" onClick={() => exportReport('pdf')}>Print / PDF</button>
                           </div>
-                          <div className="kpiHint">Sentence variation</div>
-                        </div>
+                        ) : null}
                       </div>
-                    </>
-                  ) : null}
 
-                  <div className="hr" />
-                  <div className="small">
-                    Tip: Best signal quality comes from longer samples (80+ words). Avoid super-short fragments.
-                  </div>
-                </div>
-              </section>
-            </aside>
-          </div>
+                      {error ? <div className="toast">{error}</div> : null}
+
+                      {mode === 'plagiarism' ? <PlagiarismResults result={matches} /> :
+                        mode === 'writing' ? <WritingResults result={feedback} /> :
+                        mode === 'hallucinations' ? <HallucinationResults result={claims} /> : (
+                        <>
+                          <div className="kpiRow" style={{ marginTop: 12 }}>
+                            <div className="kpi">
+                              <div className="kpiLabel">AI likelihood</div>
+                              <div className="kpiValue">{uiScore == null ? '—' : pct(uiScore)}</div>
+                              <div className="kpiHint">
+                                {uiScore != null ? (confidence || '') :
+                                  lastScan ? `Last scan ${pct(lastScan.ai_probability)} · ${new Date(lastScan.scanned_at).toLocaleDateString()}` :
+                                  'Paste text and click Scan'}
+                              </div>
+                            </div>
+
+                            <div className="kpi">
+                              <div className="kpiLabel">Model</div>
+                              <div className="kpiValue" style={{ fontSize: 14, marginTop: 10 }}>
+                                {result?.profile ? result.profile.name : 'local-heuristic'}
+                              </div>
+                              <div className="kpiHint">
+                                {result ? `Weights v${result.weights_version} · no external APIs` : 'Edge-safe, no external APIs'}
+                              </div>
+                            </div>
+
+                            <div className="kpi">
+                              <div className="kpiLabel">Language</div>
+                              <div className="kpiValue" style={{ fontSize: 14, marginTop: 10 }}>
+                                {result ? result.language.name : '—'}
+                              </div>
+                              <div className="kpiHint">
+                                {!result ? 'Detected automatically' :
+                                  result.language.confidence ? `${pct(result.language.confidence)} confident` : 'Too short to tell; scored as English'}
+                              </div>
+                            </div>
+                          </div>
+
+                          {progress ? (
+                            <>
+                              <div className="hr" />
+                              <div className="small" style={{ fontWeight: 800, marginBottom: 8 }}>
+                                Scanning · {progress.detectors.length} of {DETECTORS.length} detectors
+                                {progress.total ? ` · ${progress.windows.length} of ${progress.total} windows` : ''}
+                              </div>
+                              {progress.windows.length ? (
+                                <Sparkline values={progress.windows.map(w => w.ai_probability)} width={320} height={48} />
+                              ) : null}
+                              {progress.detectors.length ? <DetectorList detectors={progress.detectors} /> : null}
+                            </>
+                          ) : null}
+
+                          {result?.timeline ? (
+                            <>
+                              <div className="hr" />
+                              <div className="small" style={{ fontWeight: 800, marginBottom: 8 }}>Across the document</div>
+                              <Sparkline
+                                values={result.timeline.windows.map(w => w.ai_probability)}
+                                width={320}
+                                height={48}
+                                cuts={[result.timeline.stats.threshold]}
+                              />
+                              <div className="small" style={{ marginTop: 6 }}>
+                                {result.timeline.windows.length} overlapping windows of ~{result.timeline.window_words} words ·
+                                peak {pct(result.timeline.stats.max)} · mean {pct(result.timeline.stats.mean)} ·{' '}
+                                {pct(result.timeline.stats.above_threshold)} of windows at {pct(result.timeline.stats.threshold)} or more
+                              </div>
+                            </>
+                          ) : null}
+
+                          {result && showBreakdown ? (
+                            <>
+                              <div className="hr" />
+                              <ScoreBreakdown explanation={result.explanation} />
+
+                              <div className="hr" />
+                              <DetectorList detectors={result.detectors} />
+
+                              <div className="hr" />
+                              <div className="small" style={{ fontWeight: 800, marginBottom: 8 }}>Signals</div>
+                              <div className="kpiRow">
+                                <div className="kpi">
+                                  <div className="kpiLabel">Lexical diversity</div>
+                                  <div className="kpiValue" style={{ fontSize: 18 }}>
+                                    {result.signals.unique_word_ratio.toFixed(2)}
+                                  </div>
+                                  <div className="kpiHint">Unique word ratio</div>
+                                </div>
+                                <div className="kpi">
+                                  <div className="kpiLabel">Burstiness</div>
+                                  <div className="kpiValue" style={{ fontSize: 18 }}>
+                                    {result.signals.burstiness.toFixed(2)}
+                                  </div>
+                                  <div className="kpiHint">Sentence variation</div>
+                                </div>
+                                <div className="kpi">
+                                  <div className="kpiLabel">Compression</div>
+                                  <div className="kpiValue" style={{ fontSize: 18 }}>
+                                    {result.signals.zippy_score.toFixed(2)}
+                                  </div>
+                                  <div className="kpiHint">{result.detectors.find(d => d.id === 'zippy')?.status === 'too_short' ? 'Needs 60+ words' : 'Zippy score'}</div>
+                                </div>
+                                <div className="kpi">
+                                  <div className="kpiLabel">Stability</div>
+                                  <div className="kpiValue" style={{ fontSize: 18 }}>
+                                    {result.signals.detectgpt_stability.toFixed(2)}
+                                  </div>
+                                  <div className="kpiHint">
+                                    {result.perturbation.samples} perturbations · Δ {result.perturbation.mean_delta.toFixed(3)}
+                                  </div>
+                                </div>
+                                <div className="kpi">
+                                  <div className="kpiLabel">Entropy</div>
+                                  <div className="kpiValue" style={{ fontSize: 18 }}>
+                                    {result.signals.entropy.toFixed(2)} bits
+                                  </div>
+                                  <div className="kpiHint">
+                                    {result.language.code !== 'en' ? 'English-only model' :
+                                      result.signals.length < 20 ? 'Needs 20+ words' : `Perplexity ${Math.round(result.signals.perplexity)}`}
+                                  </div>
+                                </div>
+                                <div className="kpi">
+                                  <div className="kpiLabel">Top-10 tokens</div>
+                                  <div className="kpiValue" style={{ fontSize: 18 }}>
+                                    {pct(result.signals.gltr_top10)}
+                                  </div>
+                                  <div className="kpiHint">
+                                    GLTR · {pct(result.signals.gltr_top100)} top-100 · {pct(result.signals.gltr_rest)} rare
+                                  </div>
+                                </div>
+                              </div>
+                            </>
+                          ) : null}
+
+                          {result?.evasion.findings.length ? (
+                            <>
+                              <div className="hr" />
+                              <EvasionSignals evasion={result.evasion} />
+                            </>
+                          ) : null}
+
+                          {result?.author ? (
+                            <>
+                              <div className="hr" />
+                              <AuthorStyle comparison={result.author} aiProbability={result.ai_probability} />
+                            </>
+                          ) : null}
+
+                          {result?.profile ? (
+                            <>
+                              <div className="hr" />
+                              <div className="small" style={{ fontWeight: 800, marginBottom: 8 }}>
+                                Rules · confidence cut-offs {pct(result.profile.thresholds.medium)} / {pct(result.profile.thresholds.high)}
+                              </div>
+                              {result.profile.rules.length ? (
+                                <table className="dataTable">
+                                  <tbody>
+                                    {result.profile.rules.map((r, i) => (
+                                      <tr key={i}>
+                                        <td>{r.label}</td>
+                                        <td>{r.hits} match{r.hits === 1 ? '' : 'es'}</td>
+                                        <td>{r.hits ? `${r.weight > 0 ? '+' : ''}${Math.round(r.weight * 100)} pts` : '—'}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              ) : (
+                                <div className="small">This scan has no rules.</div>
+                              )}
+                            </>
+                          ) : null}
+                        </>
+                      )}
+
+                      <div className="hr" />
+                      <div className="small">
+                        Tip: Best signal quality comes from longer samples (80+ words). Avoid super-short fragments.
+                      </div>
+                    </div>
+                  </section>
+                </aside>
+              </div>
+            </>
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,88 @@
+import React from 'react'
+import type { AuthorComparison, StyleFeature, StyleVerdict } from '../../shared/api'
+import { pct } from '../lib/format'
+
+type Props = {
+  comparison: AuthorComparison
+  aiProbability: number
+}
+
+const VERDICT_LABELS: Record<StyleVerdict, string> = {
+  consistent: 'Consistent',
+  unusual: 'Unusual',
+  inconsistent: 'Inconsistent',
+}
+
+const VERDICT_CLASS: Record<StyleVerdict, string> = {
+  consistent: 'deltaDown',
+  unusual: '',
+  inconsistent: 'deltaUp',
+}
+
+const SIGNAL_LABELS: Record<string, string> = {
+  burstiness: 'Sentence variation',
+  punctuation_rate: 'Punctuation',
+  avg_word_len: 'Word length',
+}
+
+function featureLabel(f: StyleFeature) {
+  return f.kind === 'signal' ? SIGNAL_LABELS[f.key] ?? f.key : `“${f.key}”`
+}
+
+/** Rates as uses per 1,000 words or trigrams; signals as they are. */
+function featureValue(f: StyleFeature, v: number) {
+  return f.kind === 'signal' ? v.toFixed(2) : `${(v * 1000).toFixed(1)}‰`
+}
+
+/** How this text compares with the chosen author's samples, next to the AI score. */
+export default function AuthorStyle({ comparison: c, aiProbability }: Props) {
+  return (
+    <>
+      <div className="small" style={{ fontWeight: 800, marginBottom: 8 }}>Author style · {c.author.name}</div>
+      <div className="kpiRow">
+        <div className="kpi">
+          <div className="kpiLabel">Style</div>
+          <div className="kpiValue" style={{ fontSize: 18 }}>
+            <span className={`badge ${VERDICT_CLASS[c.verdict]}`}>{VERDICT_LABELS[c.verdict]}</span>
+          </div>
+          <div className="kpiHint">{c.samples} sample{c.samples === 1 ? '' : 's'}</div>
+        </div>
+        <div className="kpi">
+          <div className="kpiLabel">Delta</div>
+          <div className="kpiValue" style={{ fontSize: 18 }}>{c.delta.toFixed(2)}</div>
+          <div className="kpiHint">
+            {c.baseline_delta != null ? `Usually ${c.baseline_delta.toFixed(2)} for this author` : 'Add longer samples for a baseline'}
+          </div>
+        </div>
+        <div className="kpi">
+          <div className="kpiLabel">AI likelihood</div>
+          <div className="kpiValue" style={{ fontSize: 18 }}>{pct(aiProbability)}</div>
+          <div className="kpiHint">
+            {c.baseline_ai_probability != null ? `${pct(c.baseline_ai_probability)} on their samples` : 'Samples scored with older weights'}
+          </div>
+        </div>
+      </div>
+
+      {c.features.length ? (
+        <table className="dataTable" style={{ marginTop: 8 }}>
+          <thead>
+            <tr>
+              <th>Furthest from their style</th>
+              <th>Here</th>
+              <th>Usually</th>
+            </tr>
+          </thead>
+          <tbody>
+            {c.features.map((f, i) => (
+              <tr key={i}>
+                <td>{featureLabel(f)}</td>
+                <td>{featureValue(f, f.value)}</td>
+                <td>{featureValue(f, f.baseline)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+    </>
+  )
+}
@@ -0,0 +1,209 @@
+import React, { useMemo, useRef, useState } from 'react'
+import { MAX_BATCH_DOCUMENTS as BATCH_SIZE, type BatchItemResult } from '../../shared/api'
+import { batchCsv } from '../../shared/report'
+import { detectBatch } from '../lib/api'
+import { downloadFile } from '../lib/download'
+import { ACCEPT_ATTR, extractText } from '../lib/extract'
+import { pct, wordCount } from '../lib/format'
+
+type BatchRow = {
+  id: string
+  words: number
+  ok: boolean
+  ai_probability?: number
+  confidence?: string
+  error?: string
+  warnings?: string[]
+}
+
+type SortKey = 'id' | 'words' | 'ai_probability'
+
+function summarize(rows: BatchRow[]) {
+  const scores = rows.flatMap(r => (r.ok && r.ai_probability != null ? [r.ai_probability] : []))
+  return {
+    scored: scores.length,
+    failed: rows.length - scores.length,
+    mean: scores.length ? scores.reduce((a, b) => a + b, 0) / scores.length : null,
+    max: scores.length ? Math.max(...scores) : null,
+    flagged: rows.filter(r => r.confidence === 'high').length,
+  }
+}
+
+export default function BatchView() {
+  const fileRef = useRef<HTMLInputElement | null>(null)
+
+  const [rows, setRows] = useState<BatchRow[]>([])
+  const [results, setResults] = useState<BatchItemResult[]>([])
+  const [loading, setLoading] = useState(false)
+  const [dragging, setDragging] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [sort, setSort] = useState<{ key: SortKey; dir: 1 | -1 }>({ key: 'ai_probability', dir: -1 })
+
+  const stats = useMemo(() => summarize(rows), [rows])
+
+  const sorted = useMemo(() => {
+    const { key, dir } = sort
+    return [...rows].sort((a, b) => {
+      const x = a[key] ?? -1
+      const y = b[key] ?? -1
+      const cmp = typeof x === 'string' && typeof y === 'string' ? x.localeCompare(y) : Number(x) - Number(y)
+      return cmp * dir
+    })
+  }, [rows, sort])
+
+  function toggleSort(key: SortKey) {
+    setSort(s => (s.key === key ? { key, dir: s.dir === 1 ? -1 : 1 } : { key, dir: key === 'id' ? 1 : -1 }))
+  }
+
+  async function scanFiles(files: File[]) {
+    if (!files.length) return
+    setError(null)
+    setLoading(true)
+
+    try {
+      const extracted = await Promise.all(files.map(extractText))
+      const warnings = new Map(extracted.map(x => [x.name, x.warnings]))
+      const words = new Map(extracted.map(x => [x.name, wordCount(x.text)]))
+      const docs = extracted.map(x => ({ id: x.name, text: x.text }))
+      const next: BatchRow[] = []
+      const all: BatchItemResult[] = []
+
+      for (let i = 0; i < docs.length; i += BATCH_SIZE) {
+        const res = await detectBatch({ documents: docs.slice(i, i + BATCH_SIZE) })
+
+        all.push(...res.results)
+        for (const r of res.results) {
+          next.push({
+            id: r.id,
+            words: words.get(r.id) ?? 0,
+            ok: r.ok,
+            ai_probability: r.ok ? r.ai_probability : undefined,
+            confidence: r.ok ? r.confidence : undefined,
+            error: r.ok ? undefined : r.error.message,
+            warnings: warnings.get(r.id),
+          })
+        }
+      }
+
+      setRows(next)
+      setResults(all)
+    } catch (err: any) {
+      setError(err?.message || 'Network error.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function onDrop(e: React.DragEvent) {
+    e.preventDefault()
+    setDragging(false)
+    scanFiles(Array.from(e.dataTransfer.files))
+  }
+
+  function header(key: SortKey, label: string) {
+    const arrow = sort.key === key ? (sort.dir === 1 ? ' ▲' : ' ▼') : ''
+    return (
+      <th>
+        <button className="sortBtn" onClick={() => toggleSort(key)}>{label}{arrow}</button>
+      </th>
+    )
+  }
+
+  return (
+    <>
+      <div className="topBar">
+        <div className="docTitle">
+          <div>
+            <h1>UpCube Detect <span>Documents</span></h1>
+          </div>
+        </div>
+
+        <div className="actionRow">
+          <input
+            ref={fileRef}
+            type="file"
+            multiple
+            accept={ACCEPT_ATTR}
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              scanFiles(Array.from(e.target.files ?? []))
+              e.target.value = ''
+            }}
+          />
+          {results.length ? (
+            <button className="btn" onClick={() => downloadFile(`batch-scan-${new Date().toISOString().slice(0, 10)}.csv`, batchCsv(results), 'text/csv')}>
+              Export CSV
+            </button>
+          ) : null}
+          <button className="btn btnPrimary" onClick={() => fileRef.current?.click()} disabled={loading}>
+            {loading ? 'Scanning…' : 'Add files'}
+          </button>
+        </div>
+      </div>
+
+      <section className="card">
+        <div className="cardInner">
+          <div
+            className={`dropZone ${dragging ? 'dropZoneActive' : ''}`}
+            onDragOver={(e) => { e.preventDefault(); setDragging(true) }}
+            onDragLeave={() => setDragging(false)}
+            onDrop={onDrop}
+          >
+            <div style={{ fontWeight: 800, fontSize: 13 }}>Drop files to scan them together</div>
+            <div className="small">TXT, Markdown, HTML, DOCX or PDF · up to {BATCH_SIZE} files per request, larger sets are split automatically</div>
+          </div>
+
+          {error ? <div className="toast" style={{ marginTop: 12 }}>{error}</div> : null}
+
+          {rows.length ? (
+            <>
+              <div className="kpiRow" style={{ marginTop: 12 }}>
+                <div className="kpi">
+                  <div className="kpiLabel">Documents</div>
+                  <div className="kpiValue">{stats.scored}</div>
+                  <div className="kpiHint">{stats.failed ? `${stats.failed} failed` : 'All scored'}</div>
+                </div>
+                <div className="kpi">
+                  <div className="kpiLabel">Mean</div>
+                  <div className="kpiValue">{stats.mean == null ? '—' : pct(stats.mean)}</div>
+                  <div className="kpiHint">Max {stats.max == null ? '—' : pct(stats.max)}</div>
+                </div>
+                <div className="kpi">
+                  <div className="kpiLabel">High confidence</div>
+                  <div className="kpiValue">{stats.flagged}</div>
+                  <div className="kpiHint">Documents flagged</div>
+                </div>
+              </div>
+
+              <div className="hr" />
+
+              <table className="dataTable">
+                <thead>
+                  <tr>
+                    {header('id', 'Document')}
+                    {header('words', 'Words')}
+                    {header('ai_probability', 'AI likelihood')}
+                    <th>Confidence</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sorted.map(r => (
+                    <tr key={r.id}>
+                      <td>
+                        {r.id}
+                        {r.warnings?.length ? <div className="small" style={{ color: '#92400e' }}>{r.warnings.join(' ')}</div> : null}
+                      </td>
+                      <td>{r.words}</td>
+                      <td>{r.ok && r.ai_probability != null ? pct(r.ai_probability) : '—'}</td>
+                      <td>{r.ok ? r.confidence : <span className="small">{r.error}</span>}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          ) : null}
+        </div>
+      </section>
+    </>
+  )
+}
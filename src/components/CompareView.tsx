@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react'
+import type { ChangeEffect, CompareChange, CompareResponse } from '../../shared/api'
+import { compare } from '../lib/api'
+import { deltaPts, pct } from '../lib/format'
+
+type Props = {
+  /** The editor's current text, offered as the newer draft. */
+  initialAfter: string
+}
+
+type SignalRow = {
+  key: keyof CompareResponse['delta']['signals']
+  label: string
+  /** Higher reads as more machine-like. */
+  direction: 1 | -1
+}
+
+const SIGNALS: SignalRow[] = [
+  { key: 'burstiness', label: 'Burstiness', direction: -1 },
+  { key: 'repetition', label: 'Repetition', direction: 1 },
+  { key: 'zippy_score', label: 'Compressibility (Zippy)', direction: 1 },
+  { key: 'unique_word_ratio', label: 'Unique words', direction: -1 },
+  { key: 'detectgpt_stability', label: 'DetectGPT stability', direction: 1 },
+  { key: 'lm_score', label: 'Language model', direction: 1 },
+]
+
+const EFFECTS: { key: keyof ChangeEffect; label: string }[] = [
+  { key: 'heuristic', label: 'Heuristic' },
+  { key: 'burstiness', label: 'Burstiness' },
+  { key: 'repetition', label: 'Repetition' },
+  { key: 'zippy', label: 'Zippy' },
+]
+
+/** Changes with the biggest movement in their own sentences first. */
+function impact(c: CompareChange) {
+  return Math.abs((c.sentence_score.after ?? 0) - (c.sentence_score.before ?? 0))
+}
+
+function deltaClass(n: number, direction: 1 | -1 = 1) {
+  const v = n * direction
+  return Math.abs(v) < 0.005 ? '' : v > 0 ? 'deltaUp' : 'deltaDown'
+}
+
+function Words({ change }: { change: CompareChange }) {
+  return (
+    <div className="diffText">
+      {change.words.map((w, i) =>
+        w.op === 'insert' ? <ins key={i}>{w.text}</ins> :
+        w.op === 'delete' ? <del key={i}>{w.text}</del> :
+        <span key={i}>{w.text}</span>
+      )}
+    </div>
+  )
+}
+
+export default function CompareView({ initialAfter }: Props) {
+  const [before, setBefore] = useState('')
+  const [after, setAfter] = useState(initialAfter)
+  const [result, setResult] = useState<CompareResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const changes = useMemo(() => (result ? [...result.changes].sort((a, b) => impact(b) - impact(a)) : []), [result])
+
+  async function run() {
+    setError(null)
+    if (!before.trim() || !after.trim()) {
+      setError('Paste both drafts to compare them.')
+      return
+    }
+    setLoading(true)
+    try {
+      setResult(await compare({ before, after }))
+    } catch (err: any) {
+      setError(err?.message || 'Network error.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="topBar">
+        <div className="docTitle">
+          <div>
+            <h1>UpCube Detect <span>Compare drafts</span></h1>
+          </div>
+        </div>
+        <div className="actionRow">
+          <button className="btn btnGhost" onClick={() => { setBefore(after); setAfter(before) }} disabled={loading}>Swap</button>
+          <button className="btn btnPrimary" onClick={run} disabled={loading}>
+            {loading ? 'Comparing…' : 'Compare'}
+          </button>
+        </div>
+      </div>
+
+      <section className="card">
+        <div className="cardInner">
+          <div className="compareInputs">
+            <label>
+              <div className="kpiLabel">Before</div>
+              <textarea value={before} onChange={(e) => setBefore(e.target.value)} placeholder="Paste the earlier draft…" />
+            </label>
+            <label>
+              <div className="kpiLabel">After</div>
+              <textarea value={after} onChange={(e) => setAfter(e.target.value)} placeholder="Paste the rewrite…" />
+            </label>
+          </div>
+
+          {error ? <div className="toast" style={{ marginTop: 12 }}>{error}</div> : null}
+
+          {result ? (
+            <>
+              <div className="kpiRow" style={{ marginTop: 12 }}>
+                <div className="kpi">
+                  <div className="kpiLabel">Before</div>
+                  <div className="kpiValue">{pct(result.before.ai_probability)}</div>
+                  <div className="kpiHint">{result.before.confidence} confidence</div>
+                </div>
+                <div className="kpi">
+                  <div className="kpiLabel">After</div>
+                  <div className="kpiValue">{pct(result.after.ai_probability)}</div>
+                  <div className="kpiHint">{result.after.confidence} confidence</div>
+                </div>
+                <div className="kpi">
+                  <div className="kpiLabel">Change</div>
+                  <div className={`kpiValue ${deltaClass(result.delta.ai_probability)}`}>{deltaPts(result.delta.ai_probability)}</div>
+                  <div className="kpiHint">{result.changes.length} changed passages · {result.language.name}</div>
+                </div>
+              </div>
+
+              <div className="hr" />
+
+              <table className="dataTable">
+                <thead>
+                  <tr>
+                    <th>Signal</th>
+                    <th>Before</th>
+                    <th>After</th>
+                    <th>Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {SIGNALS.map(s => (
+                    <tr key={s.key}>
+                      <td>{s.label}</td>
+                      <td>{result.before.signals[s.key].toFixed(3)}</td>
+                      <td>{result.after.signals[s.key].toFixed(3)}</td>
+                      <td className={deltaClass(result.delta.signals[s.key], s.direction)}>{deltaPts(result.delta.signals[s.key])}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="hr" />
+
+              {!changes.length ? (
+                <div className="small">The drafts have the same sentences.</div>
+              ) : (
+                <div className="changeList">
+                  {changes.map((c, i) => (
+                    <div className="changeItem" key={i}>
+                      <div className="changeHead">
+                        <div className="badge">{c.kind}</div>
+                        <div className="small">
+                          Sentence score {c.sentence_score.before == null ? '—' : pct(c.sentence_score.before)}
+                          {' → '}
+                          {c.sentence_score.after == null ? '—' : pct(c.sentence_score.after)}
+                        </div>
+                      </div>
+                      <Words change={c} />
+                      {c.effect ? (
+                        <div className="changeEffects">
+                          {EFFECTS.map(e => (
+                            <span key={e.key} className={`small ${deltaClass(c.effect![e.key], e.key === 'burstiness' ? -1 : 1)}`}>
+                              {e.label} {deltaPts(c.effect![e.key])}
+                            </span>
+                          ))}
+                        </div>
+                      ) : null}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : null}
+        </div>
+      </section>
+    </>
+  )
+}
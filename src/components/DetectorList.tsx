@@ -0,0 +1,51 @@
+import React from 'react'
+import type { DetectorReport } from '../../shared/api'
+import { pct } from '../lib/format'
+
+type Props = {
+  detectors: DetectorReport[]
+}
+
+function statusText(d: DetectorReport) {
+  switch (d.status) {
+    case 'scored':
+      return `${pct(d.confidence)} confidence`
+    case 'disabled':
+      return 'Off in this profile'
+    case 'too_short':
+      return `Needs ${d.min_words}+ words`
+    case 'unsupported_language':
+      return 'Not available for this language'
+  }
+}
+
+/** Each registered detector with the version that scored this text. */
+export default function DetectorList({ detectors }: Props) {
+  return (
+    <>
+      <div className="small" style={{ fontWeight: 800, marginBottom: 8 }}>Detectors</div>
+      <table className="dataTable">
+        <thead>
+          <tr>
+            <th>Detector</th>
+            <th>Score</th>
+            <th>Weight</th>
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {detectors.map(d => (
+            <tr key={d.id}>
+              <td>
+                {d.label} <span className="small">v{d.version}</span>
+              </td>
+              <td>{d.status === 'scored' ? d.score.toFixed(2) : '—'}</td>
+              <td>{pct(d.weight)}</td>
+              <td>{statusText(d)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </>
+  )
+}
@@ -0,0 +1,72 @@
+import React from 'react'
+import type { EvasionFinding, EvasionKind, EvasionReport } from '../../shared/api'
+import { pct } from '../lib/format'
+
+type Props = {
+  evasion: EvasionReport
+}
+
+const KIND_LABELS: Record<EvasionKind, string> = {
+  homoglyph: 'Look-alike letter',
+  invisible: 'Invisible character',
+  mixed_script: 'Mixed alphabets',
+  whitespace: 'Unusual space',
+}
+
+/** Findings listed under the counts; the rest are only highlighted. */
+const LISTED = 12
+
+function codePoints(s: string) {
+  return [...s].map(ch => `U+${ch.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`).join(' ')
+}
+
+/** Zero-width and space characters shown by their code point; letters as themselves. */
+function shown(f: EvasionFinding) {
+  if (f.kind === 'invisible' || f.kind === 'whitespace') return codePoints(f.text)
+  if (f.kind === 'homoglyph') return `${f.text} (${codePoints(f.text)}) → ${f.replacement}`
+  return f.text
+}
+
+/** What the normalisation stage found and undid, with where to look in the text. */
+export default function EvasionSignals({ evasion: e }: Props) {
+  const kpis: [string, number, string][] = [
+    ['Look-alikes', e.homoglyphs, 'Letters from other alphabets'],
+    ['Invisible', e.invisible, 'Zero-width characters'],
+    ['Mixed scripts', e.mixed_script_words, 'Words mixing alphabets'],
+    ['Odd spaces', e.unusual_whitespace, 'Non-standard spaces'],
+  ]
+
+  return (
+    <>
+      <div className="small" style={{ fontWeight: 800, marginBottom: 8 }}>
+        Evasion · {pct(e.score)} likely doctored
+      </div>
+      <div className="kpiRow">
+        {kpis.map(([label, n, hint]) => (
+          <div className="kpi" key={label}>
+            <div className="kpiLabel">{label}</div>
+            <div className="kpiValue" style={{ fontSize: 18 }}>{n}</div>
+            <div className="kpiHint">{hint}</div>
+          </div>
+        ))}
+      </div>
+
+      <table className="dataTable" style={{ marginTop: 8 }}>
+        <tbody>
+          {e.findings.slice(0, LISTED).map((f, i) => (
+            <tr key={i}>
+              <td>{KIND_LABELS[f.kind]}</td>
+              <td>{shown(f)}</td>
+              <td>char {f.start + 1}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {e.findings.length > LISTED ? (
+        <div className="small" style={{ marginTop: 6 }}>
+          {e.findings.length - LISTED} more highlighted in the text.
+        </div>
+      ) : null}
+    </>
+  )
+}
@@ -0,0 +1,89 @@
+import React from 'react'
+import type { ClaimKind, ClaimStatus, HallucinationsResponse } from '../../shared/api'
+import { pct } from '../lib/format'
+
+type Props = {
+  result: HallucinationsResponse | null
+}
+
+const STATUS_LABELS: Record<ClaimStatus, string> = {
+  contradicted: 'Contradicted',
+  unsupported: 'Unsupported',
+  supported: 'Supported',
+  unverified: 'Unchecked',
+}
+
+const STATUS_CLASS: Record<ClaimStatus, string> = {
+  contradicted: 'deltaUp',
+  unsupported: 'deltaUp',
+  supported: 'deltaDown',
+  unverified: '',
+}
+
+const KIND_LABELS: Record<ClaimKind, string> = {
+  number: 'Number',
+  date: 'Date',
+  entity: 'Name',
+  quote: 'Quote',
+}
+
+/** Claims listed under the results, worst first; supported ones are only highlighted. */
+const LISTED: ClaimStatus[] = ['contradicted', 'unsupported', 'unverified']
+const MAX_LISTED = 30
+
+export default function HallucinationResults({ result }: Props) {
+  const listed = result
+    ? LISTED.flatMap(status => result.claims.filter(c => c.status === status)).slice(0, MAX_LISTED)
+    : []
+
+  return (
+    <>
+      <div className="kpiRow" style={{ marginTop: 12 }}>
+        <div className="kpi">
+          <div className="kpiLabel">Contradicted</div>
+          <div className="kpiValue">{result ? result.counts.contradicted : '—'}</div>
+          <div className="kpiHint">{result ? (result.has_source ? 'By the source or the text itself' : 'Within the text') : 'Paste text and click Scan'}</div>
+        </div>
+
+        <div className="kpi">
+          <div className="kpiLabel">Unsupported</div>
+          <div className="kpiValue">{result?.has_source ? result.counts.unsupported : '—'}</div>
+          <div className="kpiHint">{result && !result.has_source ? 'Needs a source' : 'Not found in the source'}</div>
+        </div>
+
+        <div className="kpi">
+          <div className="kpiLabel">Claims</div>
+          <div className="kpiValue">{result ? result.claims.length : '—'}</div>
+          <div className="kpiHint">{result?.has_source ? `${result.counts.supported} supported` : 'Numbers, dates, names and quotes'}</div>
+        </div>
+      </div>
+
+      {result ? (
+        <>
+          <div className="hr" />
+          {listed.length ? (
+            <div className="changeList">
+              {listed.map((c, i) => (
+                <div className="changeItem" key={i}>
+                  <div className="changeHead">
+                    <div className={`badge ${STATUS_CLASS[c.status]}`}>{STATUS_LABELS[c.status]}</div>
+                    {c.support != null ? <div className="small">{pct(c.support)} word overlap</div> : null}
+                  </div>
+                  <div className="diffText">{c.text.length > 200 ? `${c.text.slice(0, 200)}…` : c.text}</div>
+                  <div className="small" style={{ marginTop: 6 }}>
+                    {c.message}{' '}
+                    {c.facts.map(f => `${KIND_LABELS[f.kind]}: ${f.text}`).join(' · ')}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="small">
+              {result.claims.length ? 'Every claim is backed by the source.' : 'No numbers, dates, names or quotes to check.'}
+            </div>
+          )}
+        </>
+      ) : null}
+    </>
+  )
+}
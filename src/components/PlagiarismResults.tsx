@@ -0,0 +1,71 @@
+import React from 'react'
+import type { PlagiarismResponse } from '../../shared/api'
+import { pct } from '../lib/format'
+
+type Props = {
+  result: PlagiarismResponse | null
+}
+
+export default function PlagiarismResults({ result }: Props) {
+  return (
+    <>
+      <div className="kpiRow" style={{ marginTop: 12 }}>
+        <div className="kpi">
+          <div className="kpiLabel">Matched text</div>
+          <div className="kpiValue">{result ? pct(result.coverage) : '—'}</div>
+          <div className="kpiHint">{result ? `of ${result.words} words` : 'Paste text and click Scan'}</div>
+        </div>
+
+        <div className="kpi">
+          <div className="kpiLabel">Sources</div>
+          <div className="kpiValue">{result ? result.matches.length : '—'}</div>
+          <div className="kpiHint">With a matching passage</div>
+        </div>
+
+        <div className="kpi">
+          <div className="kpiLabel">Corpus</div>
+          <div className="kpiValue" style={{ fontSize: 14, marginTop: 10 }}>
+            {result ? `${result.corpus.sources} sources` : '—'}
+          </div>
+          <div className="kpiHint">
+            {result?.corpus.updated_at ? `Updated ${new Date(result.corpus.updated_at).toLocaleDateString()}` : 'Your own reference texts, offline'}
+          </div>
+        </div>
+      </div>
+
+      {result?.matches.length ? (
+        <>
+          <div className="hr" />
+          <table className="dataTable">
+            <thead>
+              <tr>
+                <th>Source</th>
+                <th>Matched</th>
+                <th>Of source</th>
+                <th>Passages</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.matches.map(m => (
+                <tr key={m.source_id}>
+                  <td>
+                    {m.title}
+                    <div className="small">{m.source_id} · similarity {pct(m.similarity)}</div>
+                  </td>
+                  <td>{pct(m.coverage)}</td>
+                  <td>{pct(m.source_coverage)}</td>
+                  <td>{m.passages.length}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      ) : result ? (
+        <>
+          <div className="hr" />
+          <div className="small">No passages match the corpus.</div>
+        </>
+      ) : null}
+    </>
+  )
+}
@@ -0,0 +1,174 @@
+import React, { useState } from 'react'
+import { DETECTORS, MAX_PROFILE_RULES, RULE_KINDS, type Detector, type ScanProfile, type ScanRule } from '../../shared/api'
+import { parseProfile } from '../../shared/validate'
+import { DETECTOR_LABELS } from '../lib/profiles'
+
+type Props = {
+  profile: ScanProfile
+  /** Whether the profile is already saved, so it can be deleted. */
+  saved: boolean
+  onSave: (profile: ScanProfile) => void
+  onDelete: (id: string) => void
+  onCancel: () => void
+}
+
+const NEW_RULE: ScanRule = { label: '', kind: 'phrase', pattern: '', weight: 0.1 }
+
+/** Number inputs hand back '' while being edited; keep that as NaN so validation reports it. */
+function num(v: string) {
+  return v === '' ? NaN : Number(v)
+}
+
+function shown(n: number | undefined) {
+  return n === undefined || Number.isNaN(n) ? '' : n
+}
+
+export default function ProfileEditor({ profile, saved, onSave, onDelete, onCancel }: Props) {
+  const [draft, setDraft] = useState<ScanProfile>(profile)
+  const [error, setError] = useState<string | null>(null)
+
+  function setDetector(d: Detector, weight: number | undefined) {
+    const detectors = { ...draft.detectors }
+    if (weight === undefined) delete detectors[d]
+    else detectors[d] = weight
+    setDraft({ ...draft, detectors })
+  }
+
+  function setRule(i: number, patch: Partial<ScanRule>) {
+    setDraft({ ...draft, rules: draft.rules.map((r, j) => (j === i ? { ...r, ...patch } : r)) })
+  }
+
+  function save() {
+    // Same checks the server runs, so a saved profile is always accepted.
+    const parsed = parseProfile(draft, 'profile')
+    if (!parsed.ok) {
+      setError(parsed.error.message)
+      return
+    }
+    setError(null)
+    onSave(parsed.value)
+  }
+
+  return (
+    <div className="profileEditor">
+      <label className="fieldLabel">
+        Name
+        <input className="fieldInput" value={draft.name} maxLength={200} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+      </label>
+
+      <div className="small" style={{ fontWeight: 800 }}>Detectors</div>
+      <table className="dataTable">
+        <tbody>
+          {DETECTORS.map(d => {
+            const on = draft.detectors[d] !== undefined
+            return (
+              <tr key={d}>
+                <td>
+                  <label className="checkRow">
+                    <input type="checkbox" checked={on} onChange={(e) => setDetector(d, e.target.checked ? 0.25 : undefined)} />
+                    {DETECTOR_LABELS[d]}
+                  </label>
+                </td>
+                <td>
+                  <input
+                    className="fieldInput fieldNumber"
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    disabled={!on}
+                    value={shown(draft.detectors[d])}
+                    aria-label={`${DETECTOR_LABELS[d]} weight`}
+                    onChange={(e) => setDetector(d, num(e.target.value))}
+                  />
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+      <div className="small">Weights are relative; they are rescaled to sum to 1.</div>
+
+      <div className="small" style={{ fontWeight: 800 }}>Confidence thresholds</div>
+      <div className="checkRow">
+        <label>
+          High from
+          <input
+            className="fieldInput fieldNumber"
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={shown(draft.thresholds.high)}
+            onChange={(e) => setDraft({ ...draft, thresholds: { ...draft.thresholds, high: num(e.target.value) } })}
+          />
+        </label>
+        <label>
+          Medium from
+          <input
+            className="fieldInput fieldNumber"
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={shown(draft.thresholds.medium)}
+            onChange={(e) => setDraft({ ...draft, thresholds: { ...draft.thresholds, medium: num(e.target.value) } })}
+          />
+        </label>
+      </div>
+
+      <div className="small" style={{ fontWeight: 800 }}>Rules</div>
+      {draft.rules.length ? (
+        <div className="ruleList">
+          {draft.rules.map((r, i) => (
+            <div key={i} className="ruleRow">
+              <input className="fieldInput" placeholder="Label" value={r.label} aria-label="Rule label" onChange={(e) => setRule(i, { label: e.target.value })} />
+              <select className="fieldInput" value={r.kind} aria-label="Rule kind" onChange={(e) => setRule(i, { kind: e.target.value as ScanRule['kind'] })}>
+                {RULE_KINDS.map(k => <option key={k} value={k}>{k === 'phrase' ? 'Phrase' : 'Regex'}</option>)}
+              </select>
+              <input
+                className="fieldInput"
+                placeholder={r.kind === 'phrase' ? 'as an AI language model' : '\\bdelv(e|es|ing)\\b'}
+                value={r.pattern}
+                aria-label="Rule pattern"
+                onChange={(e) => setRule(i, { pattern: e.target.value })}
+              />
+              <input
+                className="fieldInput fieldNumber"
+                type="number"
+                min={-1}
+                max={1}
+                step={0.05}
+                value={shown(r.weight)}
+                aria-label="Rule weight"
+                onChange={(e) => setRule(i, { weight: num(e.target.value) })}
+              />
+              <button className="btn btnSmall btnGhost" onClick={() => setDraft({ ...draft, rules: draft.rules.filter((_, j) => j !== i) })}>
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="small">No rules. A matching rule adds its weight (-1 to 1) to the AI likelihood.</div>
+      )}
+      <div>
+        <button
+          className="btn btnSmall"
+          disabled={draft.rules.length >= MAX_PROFILE_RULES}
+          onClick={() => setDraft({ ...draft, rules: [...draft.rules, NEW_RULE] })}
+        >
+          Add rule
+        </button>
+      </div>
+
+      {error ? <div className="toast">{error}</div> : null}
+
+      <div className="actionRow">
+        <button className="btn btnPrimary" onClick={save}>Save</button>
+        <button className="btn btnGhost" onClick={onCancel}>Cancel</button>
+        {saved ? <button className="btn btnGhost" onClick={() => onDelete(draft.id)}>Delete</button> : null}
+      </div>
+    </div>
+  )
+}
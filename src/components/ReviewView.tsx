@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react'
+import type { DocumentSummary, StoredDocument } from '../../shared/api'
+import { pct } from '../lib/format'
+import type { DocumentStore } from '../lib/history'
+import Sparkline from './Sparkline'
+
+type Props = {
+  store: DocumentStore | null
+  currentId: string | null
+  onOpen: (doc: StoredDocument) => void
+  onRenamed: (id: string, title: string) => void
+  onDeleted: (id: string) => void
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+export default function ReviewView({ store, currentId, onOpen, onRenamed, onDeleted }: Props) {
+  const [docs, setDocs] = useState<DocumentSummary[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null)
+  const [expanded, setExpanded] = useState<StoredDocument | null>(null)
+
+  async function refresh() {
+    if (!store) return
+    try {
+      setDocs(await store.list())
+    } catch (err: any) {
+      setError(err?.message || 'Could not load history.')
+    }
+  }
+
+  useEffect(() => { refresh() }, [store])
+
+  async function run(action: () => Promise<void>) {
+    setError(null)
+    try {
+      await action()
+      await refresh()
+    } catch (err: any) {
+      setError(err?.message || 'Something went wrong.')
+    }
+  }
+
+  function open(id: string) {
+    run(async () => {
+      const doc = await store!.get(id)
+      if (doc) onOpen(doc)
+      else throw new Error('That document no longer exists.')
+    })
+  }
+
+  function commitRename() {
+    const r = renaming
+    setRenaming(null)
+    if (!r || !r.title.trim()) return
+    run(async () => {
+      const doc = await store!.get(r.id)
+      if (!doc) return
+      const title = r.title.trim()
+      await store!.put({ ...doc, title, updated_at: new Date().toISOString() })
+      onRenamed(r.id, title)
+    })
+  }
+
+  function remove(doc: DocumentSummary) {
+    if (!confirm(`Delete “${doc.title}” and its scan history?`)) return
+    run(async () => {
+      await store!.remove(doc.id)
+      if (expanded?.id === doc.id) setExpanded(null)
+      onDeleted(doc.id)
+    })
+  }
+
+  function toggleHistory(id: string) {
+    if (expanded?.id === id) return setExpanded(null)
+    run(async () => setExpanded(await store!.get(id)))
+  }
+
+  const scanned = docs?.filter(d => d.recent_scores.length) ?? []
+  const latest = scanned.map(d => d.recent_scores[d.recent_scores.length - 1])
+
+  return (
+    <>
+      <div className="topBar">
+        <div className="docTitle">
+          <div>
+            <h1>UpCube Detect <span>AI Review</span></h1>
+          </div>
+        </div>
+        <div className="actionRow">
+          <div className="chip">{store?.kind === 'server' ? 'Saved on server' : 'Saved in this browser'}</div>
+        </div>
+      </div>
+
+      <section className="card">
+        <div className="cardInner">
+          {error ? <div className="toast" style={{ marginBottom: 12 }}>{error}</div> : null}
+
+          {docs == null ? (
+            <div className="small">Loading history…</div>
+          ) : !docs.length ? (
+            <div className="small">No saved documents yet. Every scan from the editor is saved here with its score.</div>
+          ) : (
+            <>
+              <div className="kpiRow">
+                <div className="kpi">
+                  <div className="kpiLabel">Documents</div>
+                  <div className="kpiValue">{docs.length}</div>
+                  <div className="kpiHint">{docs.reduce((a, d) => a + d.scan_count, 0)} scans in total</div>
+                </div>
+                <div className="kpi">
+                  <div className="kpiLabel">Latest mean</div>
+                  <div className="kpiValue">{latest.length ? pct(latest.reduce((a, b) => a + b, 0) / latest.length) : '—'}</div>
+                  <div className="kpiHint">Most recent scan per document</div>
+                </div>
+                <div className="kpi">
+                  <div className="kpiLabel">High confidence</div>
+                  <div className="kpiValue">{latest.filter(s => s >= 0.8).length}</div>
+                  <div className="kpiHint">Documents at ≥ 80% now</div>
+                </div>
+              </div>
+
+              <div className="hr" />
+
+              <table className="dataTable">
+                <thead>
+                  <tr>
+                    <th>Document</th>
+                    <th>Updated</th>
+                    <th>Scans</th>
+                    <th>Latest</th>
+                    <th>Over time</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {docs.map(d => (
+                    <React.Fragment key={d.id}>
+                      <tr>
+                        <td>
+                          {renaming?.id === d.id ? (
+                            <input
+                              className="titleInput"
+                              autoFocus
+                              value={renaming.title}
+                              maxLength={200}
+                              onChange={(e) => setRenaming({ id: d.id, title: e.target.value })}
+                              onBlur={commitRename}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') commitRename()
+                                if (e.key === 'Escape') setRenaming(null)
+                              }}
+                            />
+                          ) : (
+                            <button className="sortBtn" onClick={() => open(d.id)} title="Open in editor">
+                              {d.title}{d.id === currentId ? ' · open' : ''}
+                            </button>
+                          )}
+                        </td>
+                        <td>{formatDate(d.updated_at)}</td>
+                        <td>{d.scan_count}</td>
+                        <td>{d.recent_scores.length ? pct(d.recent_scores[d.recent_scores.length - 1]) : '—'}</td>
+                        <td><Sparkline values={d.recent_scores} /></td>
+                        <td>
+                          <div className="rowActions">
+                            <button className="btn btnGhost btnSmall" onClick={() => toggleHistory(d.id)}>
+                              {expanded?.id === d.id ? 'Hide' : 'History'}
+                            </button>
+                            <button className="btn btnGhost btnSmall" onClick={() => setRenaming({ id: d.id, title: d.title })}>Rename</button>
+                            <button className="btn btnGhost btnSmall" onClick={() => remove(d)}>Delete</button>
+                          </div>
+                        </td>
+                      </tr>
+
+                      {expanded?.id === d.id ? (
+                        <tr>
+                          <td colSpan={6}>
+                            <table className="dataTable historyTable">
+                              <thead>
+                                <tr>
+                                  <th>Scanned</th>
+                                  <th>AI likelihood</th>
+                                  <th>Confidence</th>
+                                  <th>Language</th>
+                                  <th>Words</th>
+                                  <th>Weights</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {[...expanded.scans].reverse().map((s, i) => (
+                                  <tr key={i}>
+                                    <td>{formatDate(s.scanned_at)}</td>
+                                    <td>{pct(s.ai_probability)}</td>
+                                    <td>{s.confidence}</td>
+                                    <td>{s.language}</td>
+                                    <td>{s.words}</td>
+                                    <td>v{s.weights_version}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      ) : null}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      </section>
+    </>
+  )
+}
@@ -0,0 +1,73 @@
+import React from 'react'
+import type { Explanation, Reason } from '../../shared/api'
+import { deltaPts, pct } from '../lib/format'
+
+type Props = {
+  explanation: Explanation
+}
+
+const DIRECTION_CLASS: Record<Reason['direction'], string> = {
+  ai: 'deltaUp',
+  human: 'deltaDown',
+  neutral: '',
+}
+
+const DIRECTION_LABEL: Record<Reason['direction'], string> = {
+  ai: 'AI-like',
+  human: 'Human-like',
+  neutral: 'Note',
+}
+
+/** The ranked "why this score" view; terms that added nothing are left out. */
+export default function ScoreBreakdown({ explanation }: Props) {
+  const terms = explanation.contributions.filter(c => Math.abs(c.contribution) >= 0.0005)
+  const largest = Math.max(0.01, ...terms.map(c => Math.abs(c.contribution)))
+
+  return (
+    <>
+      <div className="small" style={{ fontWeight: 800, marginBottom: 8 }}>Why this score</div>
+      {explanation.reasons.length ? (
+        <ul className="reasonList">
+          {explanation.reasons.map((r, i) => (
+            <li key={i}>
+              <span className={`reasonTag ${DIRECTION_CLASS[r.direction]}`}>{DIRECTION_LABEL[r.direction]}</span>
+              {r.text}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="small">No single signal stands out; the score comes from many small ones.</div>
+      )}
+
+      <table className="dataTable" style={{ marginTop: 8 }}>
+        <thead>
+          <tr>
+            <th>Signal</th>
+            <th>Score × weight</th>
+            <th>Adds</th>
+          </tr>
+        </thead>
+        <tbody>
+          {terms.map(c => (
+            <tr key={c.key}>
+              <td>
+                {c.label}
+                <div className="contribBar">
+                  <div
+                    className={c.contribution < 0 ? 'contribNeg' : undefined}
+                    style={{ width: `${(Math.abs(c.contribution) / largest) * 100}%` }}
+                  />
+                </div>
+              </td>
+              <td>{c.kind === 'rule' || c.kind === 'evasion' ? c.kind : `${c.value.toFixed(2)} × ${c.weight.toFixed(2)}`}</td>
+              <td>{deltaPts(c.contribution)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="small" style={{ marginTop: 6 }}>
+        Length factor {pct(explanation.length_factor)}: heuristic terms are scaled down for short texts.
+      </div>
+    </>
+  )
+}
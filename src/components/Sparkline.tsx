@@ -0,0 +1,31 @@
+import React from 'react'
+import { CONFIDENCE_THRESHOLDS } from '../../shared/api'
+import { pct } from '../lib/format'
+
+type Props = {
+  values: number[]
+  width?: number
+  height?: number
+  /** Dashed reference lines; the default confidence cut-offs unless given. */
+  cuts?: number[]
+}
+
+/** Scores in order on a fixed 0..1 scale, with the high/medium cut-offs dashed. */
+export default function Sparkline({ values, width = 120, height = 28, cuts = [CONFIDENCE_THRESHOLDS.high, CONFIDENCE_THRESHOLDS.medium] }: Props) {
+  const w = width
+  const h = height
+  if (!values.length) return <span className="small">—</span>
+
+  const x = (i: number) => (values.length === 1 ? w / 2 : (i / (values.length - 1)) * (w - 4) + 2)
+  const y = (v: number) => h - 2 - v * (h - 4)
+  const points = values.map((v, i) => `${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(' ')
+  const last = values[values.length - 1]
+
+  return (
+    <svg className="sparkline" width={w} height={h} viewBox={`0 0 ${w} ${h}`} role="img" aria-label={`Scores: ${values.map(pct).join(', ')}`}>
+      {cuts.map(c => <line key={c} x1={0} x2={w} y1={y(c)} y2={y(c)} className="sparkCut" />)}
+      <polyline points={points} className="sparkLine" />
+      <circle cx={x(values.length - 1)} cy={y(last)} r={2.5} className="sparkDot" />
+    </svg>
+  )
+}
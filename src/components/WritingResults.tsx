@@ -0,0 +1,92 @@
+import React from 'react'
+import type { WritingIssue, WritingResponse } from '../../shared/api'
+
+type Props = {
+  result: WritingResponse | null
+}
+
+const LABELS: Record<WritingIssue, string> = {
+  stock_phrase: 'AI-ish phrases',
+  filler: 'Filler & wordiness',
+  passive: 'Passive voice',
+  overused: 'Overused words',
+  long_sentence: 'Long sentences',
+  short_sentence: 'Fragments',
+}
+
+/** Findings listed under the results; the rest are only highlighted. */
+const LISTED: WritingIssue[] = ['stock_phrase', 'filler', 'passive', 'long_sentence', 'short_sentence']
+const MAX_LISTED = 30
+
+/** Flesch reading ease → the usual plain-language band. */
+function easeLabel(score: number) {
+  return score >= 80 ? 'Easy' : score >= 60 ? 'Plain English' : score >= 30 ? 'Difficult' : 'Very difficult'
+}
+
+export default function WritingResults({ result }: Props) {
+  const r = result?.readability
+  const listed = result?.annotations.filter(a => LISTED.includes(a.kind)).slice(0, MAX_LISTED) ?? []
+
+  return (
+    <>
+      <div className="kpiRow" style={{ marginTop: 12 }}>
+        <div className="kpi">
+          <div className="kpiLabel">Reading ease</div>
+          <div className="kpiValue">{r ? Math.round(r.flesch_reading_ease) : '—'}</div>
+          <div className="kpiHint">{r ? `${easeLabel(r.flesch_reading_ease)} · Flesch` : result ? `English only (${result.language.name})` : 'Paste text and click Scan'}</div>
+        </div>
+
+        <div className="kpi">
+          <div className="kpiLabel">Grade level</div>
+          <div className="kpiValue">{r ? r.flesch_kincaid_grade.toFixed(1) : '—'}</div>
+          <div className="kpiHint">{r ? `Flesch-Kincaid · Fog ${r.gunning_fog.toFixed(1)}` : 'Flesch-Kincaid & Gunning Fog'}</div>
+        </div>
+
+        <div className="kpi">
+          <div className="kpiLabel">Findings</div>
+          <div className="kpiValue">{result ? result.annotations.length : '—'}</div>
+          <div className="kpiHint">{r ? `${r.words} words · ${r.sentences} sentences` : 'Highlighted in the editor'}</div>
+        </div>
+      </div>
+
+      {result ? (
+        <>
+          <div className="hr" />
+          <table className="dataTable">
+            <tbody>
+              {(Object.keys(LABELS) as WritingIssue[]).map(k => (
+                <tr key={k}>
+                  <td>{LABELS[k]}</td>
+                  <td>{result.counts[k]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {result.overused.length ? (
+            <div className="small" style={{ marginTop: 10 }}>
+              Most repeated: {result.overused.map(o => `${o.word} ×${o.count}`).join(', ')}
+            </div>
+          ) : null}
+
+          {listed.length ? (
+            <div className="changeList" style={{ marginTop: 12 }}>
+              {listed.map((a, i) => (
+                <div className="changeItem" key={i}>
+                  <div className="changeHead">
+                    <div className="badge">{LABELS[a.kind]}</div>
+                  </div>
+                  <div className="diffText">{a.text.length > 160 ? `${a.text.slice(0, 160)}…` : a.text}</div>
+                  <div className="small" style={{ marginTop: 6 }}>
+                    {a.message}
+                    {a.suggestion ? ` Try: “${a.suggestion}”` : ''}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </>
+      ) : null}
+    </>
+  )
+}
@@ -0,0 +1,215 @@
+import {
+  API_VERSION,
+  type AuthorListResponse,
+  type AuthorResponse,
+  type BatchRequest,
+  type BatchResponse,
+  type CalibrationResponse,
+  type CompareRequest,
+  type CompareResponse,
+  type CorpusUpload,
+  type DetectRequest,
+  type DetectResponse,
+  type DetectStreamEvent,
+  type DocumentListResponse,
+  type DocumentResponse,
+  type ErrorCode,
+  type HallucinationsRequest,
+  type HallucinationsResponse,
+  type PlagiarismRequest,
+  type PlagiarismResponse,
+  type StoredDocument,
+  type WritingRequest,
+  type WritingResponse,
+} from '../../shared/api'
+import { CLIENT_ID_HEADER } from '../../shared/documents'
+
+export type ClientErrorCode = ErrorCode | 'network_error' | 'invalid_response' | 'http_error'
+
+export class ApiClientError extends Error {
+  constructor(
+    readonly code: ClientErrorCode,
+    message: string,
+    readonly status = 0,
+    readonly field?: string
+  ) {
+    super(message)
+    this.name = 'ApiClientError'
+  }
+}
+
+/** Deployments with API keys switched on need one on every request; it is kept in this browser only. */
+const API_KEY_STORAGE = 'upcube-detect.apiKey'
+
+export function getApiKey(): string | null {
+  return localStorage.getItem(API_KEY_STORAGE)
+}
+
+export function setApiKey(key: string | null) {
+  if (key) localStorage.setItem(API_KEY_STORAGE, key)
+  else localStorage.removeItem(API_KEY_STORAGE)
+}
+
+/** Without an API key, this random id is what keeps the browser's saved documents and authors apart from everyone else's. */
+const CLIENT_ID_STORAGE = 'upcube-detect.clientId'
+
+function clientId() {
+  let id = localStorage.getItem(CLIENT_ID_STORAGE)
+  if (!id) {
+    id = crypto.randomUUID()
+    localStorage.setItem(CLIENT_ID_STORAGE, id)
+  }
+  return id
+}
+
+/** Sends the request; a non-2xx status becomes an ApiClientError carrying the API's error code. */
+async function send(method: string, path: string, body?: unknown, signal?: AbortSignal): Promise<Response> {
+  const headers: Record<string, string> = { [CLIENT_ID_HEADER]: clientId() }
+  if (body !== undefined) headers['Content-Type'] = 'application/json'
+  const key = getApiKey()
+  if (key) headers.Authorization = `Bearer ${key}`
+
+  let res: Response
+  try {
+    res = await fetch(`/api/${API_VERSION}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal,
+    })
+  } catch (err: any) {
+    if (err?.name === 'AbortError') throw err
+    throw new ApiClientError('network_error', err?.message || 'Network error.')
+  }
+
+  if (!res.ok) {
+    let data: any
+    try {
+      data = await res.json()
+    } catch {
+      throw new ApiClientError('invalid_response', `Unexpected response (HTTP ${res.status}).`, res.status)
+    }
+    const e = data?.error
+    throw new ApiClientError(
+      e?.code ?? 'http_error',
+      e?.message ?? `Request failed (HTTP ${res.status}).`,
+      res.status,
+      e?.field
+    )
+  }
+  return res
+}
+
+async function request<T>(method: string, path: string, body?: unknown, signal?: AbortSignal): Promise<T> {
+  const res = await send(method, path, body, signal)
+  if (res.status === 204) return undefined as T
+
+  try {
+    return (await res.json()) as T
+  } catch {
+    throw new ApiClientError('invalid_response', `Unexpected response (HTTP ${res.status}).`, res.status)
+  }
+}
+
+function post<T>(path: string, body: unknown, signal?: AbortSignal) {
+  return request<T>('POST', path, body, signal)
+}
+
+export function detect(req: DetectRequest & { mode?: 'detect' }, signal?: AbortSignal) {
+  return post<DetectResponse>('/detect', req, signal)
+}
+
+/**
+ * A scan streamed as NDJSON: `onEvent` sees each detector and timeline window
+ * as the server finishes it, and the result is returned at the end. Aborting
+ * `signal` closes the connection, which stops the work on the server too.
+ */
+export async function detectStream(
+  req: DetectRequest & { mode?: 'detect' },
+  onEvent: (event: DetectStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<DetectResponse> {
+  const res = await send('POST', '/detect', { ...req, options: { ...req.options, stream: 'ndjson' } }, signal)
+  if (!res.body) throw new ApiClientError('invalid_response', 'The response has no body.', res.status)
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffered = ''
+  for (;;) {
+    let chunk: ReadableStreamReadResult<string>
+    try {
+      chunk = await reader.read()
+    } catch (err: any) {
+      if (err?.name === 'AbortError') throw err
+      throw new ApiClientError('network_error', err?.message || 'The connection closed during the scan.')
+    }
+    if (chunk.done) break
+
+    const lines = (buffered + chunk.value).split('\n')
+    buffered = lines.pop()!
+    for (const line of lines) {
+      if (!line.trim()) continue
+      const event = JSON.parse(line) as DetectStreamEvent
+      if (event.type === 'error') throw new ApiClientError(event.error.code, event.error.message, res.status, event.error.field)
+      if (event.type === 'result') return event.result
+      onEvent(event)
+    }
+  }
+  throw new ApiClientError('invalid_response', 'The scan ended without a result.', res.status)
+}
+
+export function calibrate(req: DetectRequest & { mode: 'calibration' }, signal?: AbortSignal) {
+  return post<CalibrationResponse>('/detect', req, signal)
+}
+
+export function detectBatch(req: BatchRequest, signal?: AbortSignal) {
+  return post<BatchResponse>('/detect/batch', req, signal)
+}
+
+export function compare(req: CompareRequest, signal?: AbortSignal) {
+  return post<CompareResponse>('/compare', req, signal)
+}
+
+export function writing(req: WritingRequest, signal?: AbortSignal) {
+  return post<WritingResponse>('/writing', req, signal)
+}
+
+export function plagiarism(req: PlagiarismRequest, signal?: AbortSignal) {
+  return post<PlagiarismResponse>('/plagiarism', req, signal)
+}
+
+export function hallucinations(req: HallucinationsRequest, signal?: AbortSignal) {
+  return post<HallucinationsResponse>('/hallucinations', req, signal)
+}
+
+export async function listDocuments(signal?: AbortSignal) {
+  return (await request<DocumentListResponse>('GET', '/documents', undefined, signal)).documents
+}
+
+export async function getDocument(id: string, signal?: AbortSignal) {
+  return (await request<DocumentResponse>('GET', `/documents/${encodeURIComponent(id)}`, undefined, signal)).document
+}
+
+export async function putDocument(doc: StoredDocument, signal?: AbortSignal) {
+  return (await request<DocumentResponse>('PUT', `/documents/${encodeURIComponent(doc.id)}`, doc, signal)).document
+}
+
+export function deleteDocument(id: string, signal?: AbortSignal) {
+  return request<void>('DELETE', `/documents/${encodeURIComponent(id)}`, undefined, signal)
+}
+
+export async function listAuthors(signal?: AbortSignal) {
+  return (await request<AuthorListResponse>('GET', '/authors', undefined, signal)).authors
+}
+
+export async function putAuthor(id: string, name: string, signal?: AbortSignal) {
+  return (await request<AuthorResponse>('PUT', `/authors/${encodeURIComponent(id)}`, { name }, signal)).author
+}
+
+export async function putAuthorSample(id: string, sample: string, body: CorpusUpload, signal?: AbortSignal) {
+  const path = `/authors/${encodeURIComponent(id)}/samples/${encodeURIComponent(sample)}`
+  return (await request<AuthorResponse>('PUT', path, body, signal)).author
+}
+
+export function deleteAuthor(id: string, signal?: AbortSignal) {
+  return request<void>('DELETE', `/authors/${encodeURIComponent(id)}`, undefined, signal)
+}
@@ -0,0 +1,25 @@
+/** Save `content` as a file through a temporary object URL. */
+export function downloadFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = name
+  a.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/** Open an HTML document in a new window and bring up the print dialog, where it can be saved as PDF. */
+export function printHtml(html: string) {
+  const win = window.open('', '_blank')
+  if (!win) throw new Error('Allow pop-ups to print the report.')
+  win.document.open()
+  win.document.write(html)
+  win.document.close()
+  win.focus()
+  win.print()
+}
+
+/** A file-name-safe version of a title, e.g. "Essay #2 (draft)" → "essay-2-draft". */
+export function fileSlug(title: string) {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'report'
+}
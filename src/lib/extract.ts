@@ -0,0 +1,159 @@
+/**
+ * Turn an uploaded file into plain prose before it is sent to /api/detect.
+ * Heavy parsers (mammoth, pdf.js) are loaded on demand.
+ */
+
+export type ExtractKind = 'text' | 'markdown' | 'html' | 'docx' | 'pdf'
+
+export type Extraction = {
+  name: string
+  kind: ExtractKind
+  text: string
+  warnings: string[]
+}
+
+export const ACCEPTED_EXTENSIONS = ['.txt', '.md', '.markdown', '.html', '.htm', '.docx', '.pdf']
+export const ACCEPT_ATTR = ACCEPTED_EXTENSIONS.join(',')
+
+/** Below this many characters per PDF page we assume there is no real text layer. */
+const MIN_PDF_CHARS_PER_PAGE = 20
+
+function kindOf(file: File): ExtractKind | null {
+  const ext = file.name.toLowerCase().match(/\.[^.]+$/)?.[0] ?? ''
+  if (ext === '.txt') return 'text'
+  if (ext === '.md' || ext === '.markdown') return 'markdown'
+  if (ext === '.html' || ext === '.htm') return 'html'
+  if (ext === '.docx') return 'docx'
+  if (ext === '.pdf') return 'pdf'
+  if (file.type.startsWith('text/')) return 'text'
+  return null
+}
+
+/** Collapse runs of blank lines and trailing spaces left behind by the parsers. */
+function tidy(text: string) {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/* =======================
+   MARKUP
+======================= */
+
+export function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  doc.querySelectorAll('script, style, noscript, template, nav, header, footer, aside, svg').forEach(el => el.remove())
+
+  // Give block elements a line break so paragraphs don't run together.
+  doc.querySelectorAll('p, div, section, article, li, h1, h2, h3, h4, h5, h6, blockquote, pre, tr, br').forEach(el => {
+    el.append(doc.createTextNode('\n'))
+  })
+
+  return tidy((doc.body?.textContent ?? '').replace(/[ \t\u00a0]+/g, ' '))
+}
+
+export function markdownToText(md: string): string {
+  return tidy(
+    md
+      .replace(/^---\n[\s\S]*?\n---\n/, '') // front matter
+      .replace(/```[\s\S]*?```/g, '') // fenced code
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // images
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // links
+      .replace(/<[^>]+>/g, '') // inline html
+      .replace(/^[ \t]{0,3}#{1,6}\s+/gm, '') // headings
+      .replace(/^[ \t]{0,3}>\s?/gm, '') // blockquotes
+      .replace(/^[ \t]*[-*+]\s+/gm, '') // bullets
+      .replace(/^[ \t]*\d+[.)]\s+/gm, '') // numbered lists
+      .replace(/^[ \t]*([-*_])(\s*\1){2,}\s*$/gm, '') // horizontal rules
+      .replace(/(\*\*|__)(.*?)\1/g, '$2')
+      .replace(/\*(.*?)\*/g, '$1')
+      .replace(/\b_(.+?)_\b/g, '$1')
+      .replace(/~~(.*?)~~/g, '$1')
+      .replace(/^\|.*\|$/gm, line => line.replace(/\|/g, ' ').replace(/\s*:?-{3,}:?\s*/g, ' '))
+  )
+}
+
+/* =======================
+   BINARY FORMATS
+======================= */
+
+async function docxToText(file: File, warnings: string[]) {
+  const mammoth = await import('mammoth')
+  const { value, messages } = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() })
+  for (const m of messages) if (m.type === 'error') warnings.push(`DOCX: ${m.message}`)
+  return value
+}
+
+async function pdfToText(file: File, warnings: string[]) {
+  const pdfjs = await import('pdfjs-dist')
+  const { default: workerSrc } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise
+  const pages: string[] = []
+  let emptyPages = 0
+
+  for (let n = 1; n <= pdf.numPages; n++) {
+    const content = await (await pdf.getPage(n)).getTextContent()
+    let page = ''
+    for (const item of content.items) {
+      if (!('str' in item)) continue
+      page += item.str + (item.hasEOL ? '\n' : ' ')
+    }
+    if (page.replace(/\s/g, '').length < MIN_PDF_CHARS_PER_PAGE) emptyPages++
+    pages.push(page)
+  }
+
+  if (emptyPages === pdf.numPages) {
+    warnings.push('This PDF has no text layer (likely a scan). Run OCR first or paste the text.')
+  } else if (emptyPages) {
+    warnings.push(`${emptyPages} of ${pdf.numPages} PDF pages had no extractable text.`)
+  }
+
+  // Re-join words hyphenated across line breaks.
+  return pages.join('\n\n').replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2')
+}
+
+/* =======================
+   ENTRY POINT
+======================= */
+
+export async function extractText(file: File): Promise<Extraction> {
+  const kind = kindOf(file)
+  const warnings: string[] = []
+
+  if (!kind) {
+    return { name: file.name, kind: 'text', text: '', warnings: [`Unsupported file type: ${file.name}`] }
+  }
+
+  let text: string
+  try {
+    switch (kind) {
+      case 'docx':
+        text = await docxToText(file, warnings)
+        break
+      case 'pdf':
+        text = await pdfToText(file, warnings)
+        break
+      case 'html':
+        text = htmlToText(await file.text())
+        break
+      case 'markdown':
+        text = markdownToText(await file.text())
+        break
+      default:
+        text = await file.text()
+    }
+  } catch (err: any) {
+    return { name: file.name, kind, text: '', warnings: [`Could not read ${file.name}: ${err?.message || 'unknown error'}`] }
+  }
+
+  text = tidy(text)
+  if (!text) warnings.push(`No text found in ${file.name}.`)
+  else if (text.includes('�')) warnings.push('Some characters could not be decoded; check the file encoding.')
+
+  return { name: file.name, kind, text, warnings }
+}
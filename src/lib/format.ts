@@ -0,0 +1,18 @@
+export function clamp(n: number, min = 0, max = 1) {
+  return Math.max(min, Math.min(max, n))
+}
+
+export function pct(n: number) {
+  return `${Math.round(clamp(n) * 100)}%`
+}
+
+/** Whitespace-separated words, counting each Chinese/Japanese character as one. */
+export function wordCount(text: string) {
+  return text.match(/[\p{scx=Han}\p{scx=Hiragana}\p{scx=Katakana}]|[^\s\p{scx=Han}\p{scx=Hiragana}\p{scx=Katakana}]+/gu)?.length ?? 0
+}
+
+/** A signed change in percentage points, e.g. "+4 pts" / "−12 pts". */
+export function deltaPts(n: number) {
+  const v = Math.round(n * 100)
+  return v === 0 ? '±0 pts' : `${v > 0 ? '+' : '−'}${Math.abs(v)} pts`
+}
@@ -0,0 +1,92 @@
+import type { DocumentSummary, StoredDocument } from '../../shared/api'
+import { byUpdated, summarizeDocument } from '../../shared/documents'
+import * as api from './api'
+
+/**
+ * Where saved documents live. The server store is used when the deployment
+ * has a HISTORY KV binding; otherwise documents stay in this browser's IndexedDB.
+ */
+export interface DocumentStore {
+  kind: 'server' | 'browser'
+  list(): Promise<DocumentSummary[]>
+  get(id: string): Promise<StoredDocument | null>
+  put(doc: StoredDocument): Promise<StoredDocument>
+  remove(id: string): Promise<void>
+}
+
+/* =======================
+   INDEXEDDB
+======================= */
+
+const DB_NAME = 'upcube-detect'
+const DB_VERSION = 1
+const STORE = 'documents'
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function openDb(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, DB_VERSION)
+  req.onupgradeneeded = () => {
+    if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE, { keyPath: 'id' })
+  }
+  return promisify(req)
+}
+
+export function browserStore(): DocumentStore {
+  const db = openDb()
+  const tx = async (mode: IDBTransactionMode) => (await db).transaction(STORE, mode).objectStore(STORE)
+
+  return {
+    kind: 'browser',
+    async list() {
+      const docs = await promisify((await tx('readonly')).getAll() as IDBRequest<StoredDocument[]>)
+      return docs.map(summarizeDocument).sort(byUpdated)
+    },
+    async get(id) {
+      return (await promisify((await tx('readonly')).get(id) as IDBRequest<StoredDocument | undefined>)) ?? null
+    },
+    async put(doc) {
+      await promisify((await tx('readwrite')).put(doc))
+      return doc
+    },
+    async remove(id) {
+      await promisify((await tx('readwrite')).delete(id))
+    },
+  }
+}
+
+/* =======================
+   SERVER (KV)
+======================= */
+
+export function serverStore(): DocumentStore {
+  return {
+    kind: 'server',
+    list: () => api.listDocuments(),
+    async get(id) {
+      try {
+        return await api.getDocument(id)
+      } catch (err) {
+        if (err instanceof api.ApiClientError && err.code === 'not_found') return null
+        throw err
+      }
+    },
+    put: doc => api.putDocument(doc),
+    remove: id => api.deleteDocument(id),
+  }
+}
+
+/** Prefer the server when it has storage configured; fall back to the browser otherwise. */
+export async function openStore(): Promise<DocumentStore> {
+  try {
+    await api.listDocuments()
+    return serverStore()
+  } catch {
+    return browserStore()
+  }
+}
@@ -0,0 +1,60 @@
+import { CONFIDENCE_THRESHOLDS, DETECTORS, type Detector, type ScanProfile } from '../../shared/api'
+
+/**
+ * Custom scan profiles live in this browser's localStorage. They are small,
+ * and the server never stores them: each detect request carries the whole
+ * profile and the server validates it there.
+ */
+const STORAGE_KEY = 'upcube-detect.profiles'
+
+export const DETECTOR_LABELS: Record<Detector, string> = {
+  heuristic: 'Heuristic signals',
+  zippy: 'Compression (Zippy)',
+  detectgpt: 'DetectGPT stability',
+  lm: 'Language model',
+}
+
+/** Starts from the shipped ensemble weights and confidence cut-offs. */
+export function newProfile(name = 'Custom scan'): ScanProfile {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    detectors: { heuristic: 0.35, zippy: 0.25, detectgpt: 0.25, lm: 0.15 },
+    thresholds: { ...CONFIDENCE_THRESHOLDS },
+    rules: [],
+  }
+}
+
+function isProfile(v: any): v is ScanProfile {
+  return typeof v?.id === 'string' && typeof v.name === 'string' && typeof v.detectors === 'object' &&
+    typeof v.thresholds === 'object' && Array.isArray(v.rules)
+}
+
+export function loadProfiles(): ScanProfile[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    return Array.isArray(parsed) ? parsed.filter(isProfile) : []
+  } catch {
+    return []
+  }
+}
+
+function store(profiles: ScanProfile[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles))
+  return profiles
+}
+
+/** Insert or replace by id, keeping the list in name order. */
+export function saveProfile(profile: ScanProfile): ScanProfile[] {
+  const rest = loadProfiles().filter(p => p.id !== profile.id)
+  return store([...rest, profile].sort((a, b) => a.name.localeCompare(b.name)))
+}
+
+export function removeProfile(id: string): ScanProfile[] {
+  return store(loadProfiles().filter(p => p.id !== id))
+}
+
+/** Detectors the profile runs, in ensemble order. */
+export function enabledDetectors(profile: ScanProfile): Detector[] {
+  return DETECTORS.filter(d => (profile.detectors[d] ?? 0) > 0)
+}
@@ -0,0 +1,80 @@
+import { readFileSync } from 'node:fs'
+import { beforeAll, describe, expect, it } from 'vitest'
+
+import { MAX_WINDOWS, MIN_TIMELINE_WORDS, WINDOW_WORDS, chunkText } from '../functions/_lib/chunk'
+import { detectText } from '../functions/_lib/detect'
+import type { LanguageModel } from '../functions/_lib/lm'
+import { readModel } from '../scripts/lib/lm'
+
+const MOBY = readFileSync(new URL('golden/texts/moby-dick.txt', import.meta.url), 'utf8')
+
+/** `n` ten-word sentences, numbered so none repeat. */
+function sentences(n: number, from = 0) {
+  return Array.from({ length: n }, (_, i) => `Line${from + i} has a steady rhythm and exactly ten words here.`)
+}
+
+describe('chunkText', () => {
+  it('leaves texts under MIN_TIMELINE_WORDS whole', () => {
+    expect(chunkText(sentences(MIN_TIMELINE_WORDS / 10 - 1).join(' '), 'en')).toBeNull()
+    expect(chunkText(sentences(MIN_TIMELINE_WORDS / 10).join(' '), 'en')).not.toBeNull()
+  })
+
+  it('slides windows of whole sentences half a window at a time, covering the text', () => {
+    const text = sentences(100).join(' ')
+    const { windows, size, stride } = chunkText(text, 'en')!
+
+    expect(size).toBe(WINDOW_WORDS)
+    expect(stride).toBe(WINDOW_WORDS / 2)
+    expect(windows[0].start).toBe(0)
+    expect(windows[windows.length - 1].end).toBe(text.length)
+    for (const [i, w] of windows.entries()) {
+      expect(text.slice(w.start, w.end)).toMatch(/^Line\d+ .*here\.$/)
+      if (i < windows.length - 1) expect(w.words).toBe(WINDOW_WORDS)
+      if (i) expect(w.start - windows[i - 1].start).toBe(text.indexOf(`Line${15 * i} `) - text.indexOf(`Line${15 * (i - 1)} `))
+    }
+  })
+
+  it('closes a window early at a paragraph break once it is mostly full', () => {
+    const text = `${sentences(25).join(' ')}\n\n${sentences(40, 25).join(' ')}`
+    const { windows } = chunkText(text, 'en')!
+    expect(windows[0]).toMatchObject({ start: 0, words: 250 })
+    expect(text.slice(windows[0].end, windows[0].end + 2)).toBe('\n\n')
+  })
+
+  it('widens the windows instead of making more than MAX_WINDOWS', () => {
+    const { windows, size } = chunkText(sentences(2000).join(' '), 'en')!
+    expect(size).toBeGreaterThan(WINDOW_WORDS)
+    expect(windows.length).toBeLessThanOrEqual(MAX_WINDOWS)
+  })
+
+  it('gives a sentence longer than a window a window of its own', () => {
+    const long = `${Array.from({ length: WINDOW_WORDS + 50 }, (_, i) => `w${i}`).join(' ')}.`
+    const text = [...sentences(20), long, ...sentences(20, 20)].join(' ')
+    const { windows } = chunkText(text, 'en')!
+    expect(windows.some(w => text.slice(w.start, w.end) === long)).toBe(true)
+  })
+})
+
+describe('detectText timeline', () => {
+  let model: LanguageModel
+  beforeAll(async () => {
+    model = await readModel()
+  })
+
+  it('scores each window and summarises them', async () => {
+    const r = await detectText(MOBY, model)
+    const timeline = r.timeline!
+    const probs = timeline.windows.map(w => w.ai_probability)
+
+    expect(timeline.windows.length).toBeGreaterThan(1)
+    expect(timeline.stats.max).toBe(Math.max(...probs))
+    expect(timeline.stats.mean).toBeCloseTo(probs.reduce((a, b) => a + b, 0) / probs.length, 10)
+    expect(timeline.stats.above_threshold).toBe(probs.filter(p => p >= timeline.stats.threshold).length / probs.length)
+
+    const first = timeline.windows[0]
+    const alone = await detectText(MOBY.slice(first.start, first.end), model, { language: r.language.code, timeline: false })
+    expect(first.ai_probability).toBeCloseTo(alone.ai_probability, 10)
+
+    expect((await detectText(MOBY, model, { timeline: false })).timeline).toBeUndefined()
+  })
+})
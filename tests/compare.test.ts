@@ -0,0 +1,75 @@
+import { readFileSync } from 'node:fs'
+import { beforeAll, describe, expect, it } from 'vitest'
+
+import { compareDrafts, diffWords } from '../functions/_lib/compare'
+import { detectText } from '../functions/_lib/detect'
+import type { LanguageModel } from '../functions/_lib/lm'
+import { readModel } from '../scripts/lib/lm'
+
+const ESSAY = readFileSync(new URL('golden/texts/ai-essay.txt', import.meta.url), 'utf8')
+const HUMAN = 'I missed the bus again, so I walked. It rained the whole way and my shoes are still wet. Honestly? Worth it for the coffee.'
+
+describe('diffWords', () => {
+  it('merges neighbouring pieces with the same op and ignores changed spacing', () => {
+    expect(diffWords('the big  red dog', 'the small red dog barked')).toEqual([
+      { op: 'equal', text: 'the ' },
+      { op: 'delete', text: 'big' },
+      { op: 'insert', text: 'small' },
+      { op: 'equal', text: ' red dog' },
+      { op: 'insert', text: ' barked' },
+    ])
+  })
+
+  it('diffs CJK text character by character', () => {
+    expect(diffWords('自由である', '自由だ')).toEqual([
+      { op: 'equal', text: '自由' },
+      { op: 'delete', text: 'である' },
+      { op: 'insert', text: 'だ' },
+    ])
+  })
+})
+
+describe('compareDrafts', () => {
+  let model: LanguageModel
+  beforeAll(async () => {
+    model = await readModel()
+  })
+
+  it('scores both drafts as the detect endpoint does and reports the change', async () => {
+    const after = `${ESSAY.trim()}\n\n${HUMAN}`
+    const res = await compareDrafts(ESSAY, after, model, { timeline: false })
+    const detect = await detectText(after, model, { language: res.language.code, timeline: false })
+
+    expect(res.after.ai_probability).toBeCloseTo(detect.ai_probability, 10)
+    expect(res.delta.ai_probability).toBeCloseTo(res.after.ai_probability - res.before.ai_probability, 10)
+    expect(res.delta.signals.burstiness).toBeCloseTo(res.after.signals.burstiness - res.before.signals.burstiness, 10)
+
+    expect(res.changes).toHaveLength(1)
+    const [change] = res.changes
+    expect(change).toMatchObject({ kind: 'added', before: null })
+    expect(after.slice(change.after!.start, change.after!.end)).toBe(HUMAN)
+    expect(change.words).toEqual([{ op: 'insert', text: HUMAN }])
+    expect(change.sentence_score.before).toBeNull()
+    expect(change.sentence_score.after).not.toBeNull()
+    expect(change.effect).not.toBeNull()
+  })
+
+  it('pairs an edited sentence with its old version and finds nothing to report when only spacing differs', async () => {
+    const before = 'The weather was bad. We stayed inside all day. Nobody complained.'
+    const after = 'The weather was bad. We played cards inside all day. Nobody complained.'
+    const res = await compareDrafts(before, after, model)
+
+    expect(res.changes.map(c => c.kind)).toEqual(['edited'])
+    const [change] = res.changes
+    expect(before.slice(change.before!.start, change.before!.end)).toBe('We stayed inside all day.')
+    expect(change.words.filter(w => w.op !== 'equal')).toEqual([
+      { op: 'delete', text: 'stayed' },
+      { op: 'insert', text: 'played cards' },
+    ])
+
+    const same = await compareDrafts(before, before, model)
+    expect(same.changes).toEqual([])
+    expect(same.delta.ai_probability).toBe(0)
+    expect((await compareDrafts(before, before.replace(/ /g, '  '), model)).changes).toEqual([])
+  })
+})
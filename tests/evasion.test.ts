@@ -0,0 +1,103 @@
+import { readFileSync } from 'node:fs'
+import { beforeAll, describe, expect, it } from 'vitest'
+
+import { detectText } from '../functions/_lib/detect'
+import { applyEvasion, normalizeText } from '../functions/_lib/evasion'
+import type { LanguageModel } from '../functions/_lib/lm'
+import { withEvasionHighlights } from '../shared/highlights'
+import { readModel } from '../scripts/lib/lm'
+
+const ESSAY = readFileSync(new URL('golden/texts/ai-essay.txt', import.meta.url), 'utf8')
+
+/** Every `n`th Latin a, e, o swapped for its Cyrillic look-alike. */
+function cyrillicize(s: string, n = 5) {
+  let i = 0
+  return s.replace(/[aeo]/g, ch => (i++ % n ? ch : ({ a: 'а', e: 'е', o: 'о' } as Record<string, string>)[ch]))
+}
+
+describe('normalizeText', () => {
+  it('maps look-alike letters back to Latin and reports where they were', () => {
+    const { text, evasion } = normalizeText('The cаt sаt оn the mаt.')
+    expect(text).toBe('The cat sat on the mat.')
+    expect(evasion.homoglyphs).toBe(4)
+    expect(evasion.mixed_script_words).toBe(4)
+    expect(evasion.findings[1]).toEqual({ kind: 'homoglyph', start: 5, end: 6, text: 'а', replacement: 'a' })
+    expect(evasion.score).toBeGreaterThan(0.5)
+  })
+
+  it('strips invisible characters and plain-spaces odd ones', () => {
+    const { text, evasion } = normalizeText('Zero\u200Bwidth\u2060joins\u2009and\u2009thin\u202Fspaces everywhere.')
+    expect(text).toBe('Zerowidthjoins and thin spaces everywhere.')
+    expect(evasion.invisible).toBe(2)
+    expect(evasion.unusual_whitespace).toBe(3)
+    expect(evasion.findings.map(f => f.start)).toEqual([4, 10, 16, 20, 25])
+  })
+
+  it('leaves ordinary text in other scripts and typography alone', () => {
+    for (const s of [
+      'Москва — столица России, а Волга течёт в Каспийское море.',
+      'Η Αθήνα είναι η πρωτεύουσα της Ελλάδας.',
+      'Il a dit\u00A0: «\u00A0bonjour\u00A0» et payé 1\u00A0000 euros.',
+      '\uFEFFA family: \u{1F468}\u200D\u{1F469}\u200D\u{1F467}.',
+    ]) {
+      const { evasion } = normalizeText(s)
+      expect(evasion.score, s).toBe(0)
+      expect(evasion.findings, s).toEqual([])
+    }
+  })
+
+  it('leaves standalone Greek and maths symbols in Latin prose alone', () => {
+    const { text, evasion } = normalizeText(
+      'The protein folds into an α helix and a β sheet. Binding changes the α subunit, and the κ light chain stays in the α form.'
+    )
+    expect(evasion.score).toBe(0)
+    expect(evasion.homoglyphs).toBe(0)
+    expect(text).toContain('the κ light chain')
+    expect(normalizeText('Mix 𝑥 and 𝑦 well.').evasion.score).toBe(0)
+    expect(normalizeText('The cat sat on а mat.').evasion.homoglyphs).toBe(1)
+  })
+
+  it('only reads all-look-alike words as Latin inside Latin text', () => {
+    expect(normalizeText('The word сар is here.').text).toBe('The word cap is here.')
+    expect(normalizeText('Он сказал сар').evasion.homoglyphs).toBe(0)
+  })
+
+  it('raises a probability toward 1 by the evasion score', () => {
+    const none = normalizeText('Plain text.').evasion
+    const full = { ...none, score: 1 }
+    expect(applyEvasion(0.3, none)).toBe(0.3)
+    expect(applyEvasion(0.3, full)).toBeCloseTo(0.3 + 0.7 * 0.8, 10)
+  })
+})
+
+describe('withEvasionHighlights', () => {
+  it('splits the sentence bands around each finding', () => {
+    const { evasion } = normalizeText('A cаt.')
+    expect(withEvasionHighlights([{ start: 0, end: 6, className: 'hlHigh' }], evasion.findings)).toEqual([
+      { start: 0, end: 2, className: 'hlHigh' },
+      { start: 2, end: 5, className: 'hlEvasion' },
+      { start: 3, end: 4, className: 'hlEvasion' },
+      { start: 5, end: 6, className: 'hlHigh' },
+    ])
+  })
+})
+
+describe('detectText evasion', () => {
+  let model: LanguageModel
+  beforeAll(async () => {
+    model = await readModel()
+  })
+
+  it('scores doctored text as the clean text, then raises it', async () => {
+    const clean = await detectText(ESSAY, model, { timeline: false })
+    const doctored = await detectText(`  ${cyrillicize(ESSAY)}`, model, { timeline: false })
+
+    expect(doctored.signals).toEqual(clean.signals)
+    expect(doctored.evasion.homoglyphs).toBeGreaterThan(20)
+    expect(doctored.evasion.findings[0].start).toBeGreaterThanOrEqual(2)
+    expect(doctored.ai_probability).toBeGreaterThan(clean.ai_probability)
+    expect(doctored.explanation.contributions.some(c => c.kind === 'evasion')).toBe(true)
+    expect(doctored.explanation.reasons.some(r => r.key === 'evasion')).toBe(true)
+    expect(clean.evasion.score).toBe(0)
+  })
+})
@@ -0,0 +1,64 @@
+import { readFileSync } from 'node:fs'
+import { beforeAll, describe, expect, it } from 'vitest'
+
+import type { ScanProfile } from '../shared/api'
+import { detectText, type DetectResult } from '../functions/_lib/detect'
+import type { LanguageModel } from '../functions/_lib/lm'
+import { HEURISTIC_COMPONENTS } from '../functions/_lib/weights'
+import { readModel } from '../scripts/lib/lm'
+
+const ESSAY = readFileSync(new URL('golden/texts/ai-essay.txt', import.meta.url), 'utf8')
+const JAPANESE = readFileSync(new URL('golden/texts/udhr-japanese.txt', import.meta.url), 'utf8')
+
+const sum = (r: DetectResult) => r.explanation.contributions.reduce((n, c) => n + c.contribution, 0)
+
+describe('explain', () => {
+  let model: LanguageModel
+  beforeAll(async () => {
+    model = await readModel()
+  })
+
+  it('splits ai_probability into contributions that add up to it', async () => {
+    const r = await detectText(ESSAY, model, { timeline: false })
+    const { contributions } = r.explanation
+
+    expect(sum(r)).toBeCloseTo(r.ai_probability, 2)
+    expect(contributions.filter(c => c.kind === 'heuristic').map(c => c.key).sort()).toEqual([...HEURISTIC_COMPONENTS].sort())
+    const sizes = contributions.map(c => Math.abs(c.contribution))
+    expect(sizes).toEqual([...sizes].sort((a, b) => b - a))
+    expect(r.explanation.length_factor).toBeGreaterThan(0.8)
+  })
+
+  it('explains rule hits and puts the reasons in the order of their contributions', async () => {
+    const profile: ScanProfile = {
+      id: 'essays',
+      name: 'Essays',
+      detectors: { heuristic: 1, zippy: 1 },
+      thresholds: { high: 0.8, medium: 0.55 },
+      rules: [{ label: 'Technology', kind: 'phrase', pattern: 'technology', weight: -0.05 }],
+    }
+    const r = await detectText(ESSAY, model, { timeline: false, profile })
+
+    expect(r.explanation.contributions).toContainEqual({ key: 'rule:Technology', kind: 'rule', label: 'Technology', value: 1, weight: -0.05, contribution: -0.05 })
+    expect(r.explanation.contributions.filter(c => c.kind === 'detector' && c.weight > 0).map(c => c.key)).toEqual(['zippy'])
+    expect(sum(r)).toBeCloseTo(r.ai_probability, 2)
+
+    const rule = r.explanation.reasons.find(x => x.key === 'rule:Technology')
+    expect(rule).toMatchObject({ direction: 'human' })
+    expect(rule!.text).toMatch(/^Rule "Technology" matched 3 times \(-5 points\)\.$/)
+
+    const ranks = r.explanation.reasons.map(x => r.explanation.contributions.findIndex(c => c.key === x.key)).filter(i => i >= 0)
+    expect(ranks.length).toBeGreaterThan(1)
+    expect(ranks).toEqual([...ranks].sort((a, b) => a - b))
+  })
+
+  it('says when the text is short or a detector does not cover the language', async () => {
+    const short = await detectText('The meeting moved to Tuesday. Please bring the draft.', model)
+    expect(short.explanation.length_factor).toBeLessThan(0.9)
+    expect(short.explanation.reasons.find(x => x.key === 'length')).toMatchObject({ direction: 'neutral' })
+
+    const ja = await detectText(JAPANESE, model, { timeline: false })
+    expect(ja.explanation.reasons.find(x => x.key === 'language')?.text).toMatch(/only covers English, so it was left out for Japanese\.$/)
+    expect(ja.explanation.contributions.find(c => c.key === 'lm')?.contribution ?? 0).toBe(0)
+  })
+})
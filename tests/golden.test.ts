@@ -0,0 +1,65 @@
+/**
+ * Golden files: fixed texts whose full detect results are checked in under
+ * golden/expected/. Any change to a signal, coefficient, weight or the model
+ * that moves a score fails here. When the change is intended, regenerate with
+ * `npm run test:update`, bump weights.json's version if scores moved, and
+ * review the diff.
+ */
+import { readFileSync, readdirSync } from 'node:fs'
+import { basename } from 'node:path'
+import { beforeAll, describe, expect, it } from 'vitest'
+
+import type { DetectOptions } from '../shared/api'
+import { detectText } from '../functions/_lib/detect'
+import type { LanguageModel } from '../functions/_lib/lm'
+import { DEFAULT_WEIGHTS } from '../functions/_lib/weights'
+import { readModel } from '../scripts/lib/lm'
+
+const TEXTS = new URL('golden/texts/', import.meta.url)
+
+const OPTIONS: DetectOptions = { highlightSentences: true }
+
+/** Extra cases on top of one default scan per text. */
+const CASES: { name: string; text: string; options: DetectOptions }[] = [
+  {
+    name: 'ai-essay.profile',
+    text: 'ai-essay.txt',
+    options: {
+      ...OPTIONS,
+      profile: {
+        id: 'golden',
+        name: 'Golden',
+        detectors: { heuristic: 0.5, zippy: 0.5 },
+        thresholds: { high: 0.6, medium: 0.3 },
+        rules: [
+          { label: 'Stock opener', kind: 'phrase', pattern: "in today's fast-paced world", weight: 0.1 },
+          { label: 'Transitions', kind: 'regex', pattern: '\\b(furthermore|moreover|additionally)\\b', weight: 0.05 },
+        ],
+      },
+    },
+  },
+]
+
+/** Six decimals: enough to catch any real drift, not last-bit float noise across platforms. */
+function rounded(value: unknown) {
+  return JSON.stringify(value, (_, v) => (typeof v === 'number' && !Number.isInteger(v) ? Math.round(v * 1e6) / 1e6 : v), 2) + '\n'
+}
+
+describe('golden detect results', () => {
+  let model: LanguageModel
+  beforeAll(async () => {
+    model = await readModel()
+  })
+
+  const files = readdirSync(TEXTS).filter(f => f.endsWith('.txt')).sort()
+  const cases = [
+    ...files.map(f => ({ name: basename(f, '.txt'), text: f, options: OPTIONS })),
+    ...CASES,
+  ]
+
+  it.each(cases)('$name', async ({ name, text, options }) => {
+    const raw = readFileSync(new URL(text, TEXTS), 'utf8')
+    const result = await detectText(raw, model, options, DEFAULT_WEIGHTS)
+    await expect(rounded(result)).toMatchFileSnapshot(`golden/expected/${name}.json`)
+  })
+})
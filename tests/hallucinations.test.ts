@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+
+import { extractFacts, knownNames } from '../functions/_lib/hallucinations/claims'
+import { checkClaims } from '../functions/_lib/hallucinations'
+import { splitSentenceSpans } from '../functions/_lib/scoring'
+
+const SOURCE =
+  'Acme Corp was founded in 1998 by Jane Doe in Portland. The company has 1,200 employees and reported revenue of $4.5 million in 2022. ' +
+  'At the launch, Jane Doe said "we build tools for small farms" to the press.'
+
+function facts(text: string) {
+  const spans = splitSentenceSpans(text, 'en')
+  const known = knownNames([{ raw: text, sentences: spans }])
+  return spans.flatMap(s => extractFacts(text, s, known)).map(f => [f.kind, f.text])
+}
+
+describe('extractFacts', () => {
+  it('finds numbers, dates, names and quotes', () => {
+    expect(facts('On March 3, 2019, Jane Doe told Reuters that "sales were up sharply" and hired 40 engineers.')).toEqual([
+      ['date', 'March 3, 2019'],
+      ['entity', 'Jane Doe'],
+      ['entity', 'Reuters'],
+      ['quote', '"sales were up sharply"'],
+      ['number', '40'],
+    ])
+  })
+
+  it('reads scales, currencies and percentages', () => {
+    const spans = splitSentenceSpans('Revenue was $4.5 million, up 12% on 3,000 orders.', 'en')
+    const found = extractFacts('Revenue was $4.5 million, up 12% on 3,000 orders.', spans[0], new Set())
+    expect(found.map(f => [f.key, f.unit])).toEqual([['4500000', '$'], ['12', '%'], ['3000', 'order']])
+  })
+
+  it('only takes a sentence-initial word as a name when it is capitalised elsewhere', () => {
+    expect(facts('Yesterday Acme shipped. Acme is based in Ohio.')).toEqual([
+      ['entity', 'Acme'],
+      ['entity', 'Acme'],
+      ['entity', 'Ohio'],
+    ])
+    expect(facts('Honestly the weather was fine.')).toEqual([])
+  })
+
+  it('skips ordinals and leaves "may" the verb alone', () => {
+    expect(facts('She may finish 3rd, they said.')).toEqual([])
+  })
+})
+
+describe('checkClaims', () => {
+  it('marks claims the source backs as supported', () => {
+    const r = checkClaims('Acme Corp was founded in 1998 by Jane Doe in Portland.', SOURCE, 'en')
+    expect(r.claims).toHaveLength(1)
+    expect(r.claims[0]).toMatchObject({ status: 'supported', evidence: { start: 0 } })
+    expect(r.claims[0].facts.every(f => f.in_source)).toBe(true)
+  })
+
+  it('flags facts missing from the source', () => {
+    const r = checkClaims('Acme Corp opened an office in Berlin with 300 staff.', SOURCE, 'en')
+    expect(r.claims[0].status).toBe('unsupported')
+    expect(r.claims[0].facts.filter(f => !f.in_source).map(f => f.text)).toEqual(['Berlin', '300'])
+  })
+
+  it('flags a different number or date in the matching source sentence', () => {
+    const r = checkClaims('Acme Corp was founded in 1997 by Jane Doe in Portland. The company has 1,500 employees.', SOURCE, 'en')
+    expect(r.claims.map(c => c.status)).toEqual(['contradicted', 'contradicted'])
+    expect(r.claims[0].conflicts[0]).toMatchObject({ in: 'source', text: '1998' })
+    expect(SOURCE.slice(r.claims[1].conflicts[0].start, r.claims[1].conflicts[0].end)).toBe('1,200')
+  })
+
+  it('finds a name given two different amounts without a source', () => {
+    const r = checkClaims('Acme has 1,200 employees. Its products sell well. Acme has 3,000 employees in Europe.', undefined, 'en')
+    expect(r.has_source).toBe(false)
+    expect(r.counts).toEqual({ supported: 0, unsupported: 0, contradicted: 2, unverified: 0 })
+    expect(r.claims[0].conflicts).toEqual([{ in: 'text', start: 59, end: 64, text: '3,000' }])
+  })
+
+  it('does not compare amounts given for different dates', () => {
+    const r = checkClaims('In 2020 Acme had 1,200 employees. In 2023 Acme had 3,000 employees.', undefined, 'en')
+    expect(r.claims.map(c => c.status)).toEqual(['unverified', 'unverified'])
+  })
+
+  it('checks numbers in Japanese text', () => {
+    const r = checkClaims('東京の人口は1400万人です。', '東京の人口は1300万人です。', 'ja')
+    expect(r.claims[0]).toMatchObject({ status: 'contradicted', conflicts: [{ in: 'source', text: '1300' }] })
+  })
+})
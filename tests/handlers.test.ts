@@ -0,0 +1,428 @@
+import { readFileSync } from 'node:fs'
+import type { Miniflare } from 'miniflare'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import {
+  MAX_DOCUMENT_CHARS,
+  type ApiKeyCreatedResponse,
+  type AuthorResponse,
+  type BatchResponse,
+  type CompareResponse,
+  type DetectResponse,
+  type DetectStreamEvent,
+  type HallucinationsResponse,
+  type PlagiarismResponse,
+  type WritingResponse,
+} from '../shared/api'
+import { readModel } from '../scripts/lib/lm'
+import { scanDocument } from '../scripts/lib/scan'
+import { json, postJson, startWorker } from './lib/worker'
+
+const ESSAY = readFileSync(new URL('golden/texts/ai-essay.txt', import.meta.url), 'utf8')
+const MOBY = readFileSync(new URL('golden/texts/moby-dick.txt', import.meta.url), 'utf8')
+const GOLDEN = JSON.parse(readFileSync(new URL('golden/expected/ai-essay.json', import.meta.url), 'utf8'))
+
+describe('detect', () => {
+  let mf: Miniflare
+  beforeAll(() => {
+    mf = startWorker()
+  })
+  afterAll(() => mf.dispose())
+
+  it('scores a text the same as the golden run in Node', async () => {
+    const res = await postJson(mf, '/api/v1/detect', { text: ESSAY, options: { highlightSentences: true } })
+    expect(res.status).toBe(200)
+    const body = await json<DetectResponse>(res)
+    expect(body.api_version).toBe('v1')
+    expect(body.ai_probability).toBeCloseTo(GOLDEN.ai_probability, 6)
+    expect(body.confidence).toBe(GOLDEN.confidence)
+    expect(body.sentences).toHaveLength(GOLDEN.sentences.length)
+  })
+
+  it('returns the same bytes as the scan CLI', async () => {
+    const model = await readModel()
+    for (const settings of [{ options: { language: 'en' as const } }, { mode: 'calibration' as const, label: 'ai' as const }]) {
+      const res = await postJson(mf, '/api/v1/detect', { text: MOBY, ...settings })
+      const scanned = await scanDocument({ id: 'moby-dick.txt', text: MOBY }, model, settings)
+      expect(scanned.ok).toBe(true)
+      expect(await res.text()).toBe(JSON.stringify(scanned.ok && scanned.response, null, 2))
+    }
+  })
+
+  it('answers on the unversioned alias', async () => {
+    const [a, b] = await Promise.all([
+      postJson(mf, '/api/detect', { text: ESSAY }).then(r => json<DetectResponse>(r)),
+      postJson(mf, '/api/v1/detect', { text: ESSAY }).then(r => json<DetectResponse>(r)),
+    ])
+    expect(a).toEqual(b)
+  })
+
+  it('rejects malformed requests with a stable code', async () => {
+    const cases: [unknown, number, string, string?][] = [
+      ['{not json', 400, 'invalid_json'],
+      [{}, 400, 'missing_text', 'text'],
+      [{ text: '   ' }, 400, 'missing_text', 'text'],
+      [{ text: 'hello', mode: 'advanced' }, 400, 'unsupported_mode', 'mode'],
+      [{ text: 'a'.repeat(MAX_DOCUMENT_CHARS + 1) }, 413, 'text_too_long', 'text'],
+    ]
+    for (const [body, status, code, field] of cases) {
+      const res = await postJson(mf, '/api/v1/detect', body)
+      expect(res.status).toBe(status)
+      const { error } = await json<{ error: { code: string; field?: string } }>(res)
+      expect(error.code).toBe(code)
+      expect(error.field).toBe(field)
+    }
+  })
+
+  it('refuses bodies over the size limit before parsing', async () => {
+    const res = await postJson(mf, '/api/v1/detect', `{"text":"${'a'.repeat(1_000_001)}"}`)
+    expect(res.status).toBe(413)
+    expect((await json<{ error: { code: string } }>(res)).error.code).toBe('body_too_large')
+  })
+
+  it('reports per-document errors in a batch', async () => {
+    const res = await postJson(mf, '/api/v1/detect/batch', {
+      documents: [{ id: 'a', text: ESSAY }, { id: 'a', text: ESSAY }, { id: 'b' }],
+    })
+    expect(res.status).toBe(200)
+    const body = await json<BatchResponse>(res)
+    expect(body.results.map(r => r.ok)).toEqual([true, false, false])
+    expect(body.stats).toMatchObject({ total: 3, scored: 1, failed: 2 })
+  })
+
+  it('streams detectors, timeline windows and the result as NDJSON', async () => {
+    const text = MOBY.repeat(2)
+    const [plain, streamed] = await Promise.all([
+      postJson(mf, '/api/v1/detect', { text }).then(r => json<DetectResponse>(r)),
+      postJson(mf, '/api/v1/detect', { text, options: { stream: 'ndjson' } }),
+    ])
+    expect(streamed.headers.get('Content-Type')).toContain('application/x-ndjson')
+
+    const events = (await streamed.text()).trim().split('\n').map(line => JSON.parse(line) as DetectStreamEvent)
+    expect(events.map(e => e.type)).toEqual([
+      ...plain.detectors.map(() => 'detector'),
+      ...plain.timeline!.windows.map(() => 'window'),
+      'result',
+    ])
+    expect(events.flatMap(e => (e.type === 'detector' ? [e.detector] : []))).toEqual(plain.detectors)
+    expect(events.at(-1)).toEqual({ type: 'result', result: plain })
+  })
+
+  it('frames streamed events as Server-Sent Events', async () => {
+    const res = await postJson(mf, '/api/detect', { text: ESSAY, options: { stream: 'sse', timeline: false } })
+    expect(res.headers.get('Content-Type')).toContain('text/event-stream')
+    const frames = (await res.text()).trim().split('\n\n')
+    expect(frames[0]).toMatch(/^event: detector\ndata: \{"type":"detector"/)
+    expect(frames.at(-1)).toMatch(/^event: result\ndata: /)
+
+    const bad = await postJson(mf, '/api/detect', { text: ESSAY, options: { stream: 'json' } })
+    expect((await json<{ error: { field: string } }>(bad)).error.field).toBe('options.stream')
+  })
+
+  it('checks claims against a source', async () => {
+    const res = await postJson(mf, '/api/v1/hallucinations', {
+      text: 'Acme was founded in 1997 in Portland.',
+      source: 'Acme was founded in 1998 in Portland, Oregon.',
+    })
+    expect(res.status).toBe(200)
+    const body = await json<HallucinationsResponse>(res)
+    expect(body.has_source).toBe(true)
+    expect(body.claims.map(c => c.status)).toEqual(['contradicted'])
+
+    const bad = await postJson(mf, '/api/hallucinations', { text: 'Acme', source: 42 })
+    expect((await json<{ error: { field: string } }>(bad)).error.field).toBe('source')
+  })
+
+  it('compares two drafts', async () => {
+    const res = await postJson(mf, '/api/v1/compare', { before: ESSAY, after: `${ESSAY}\n\nI wrote this last bit myself, honestly.` })
+    expect(res.status).toBe(200)
+    const body = await json<CompareResponse>(res)
+    expect(body.before.ai_probability).toBeCloseTo(GOLDEN.ai_probability, 6)
+    expect(body.changes.map(c => c.kind)).toEqual(['added'])
+
+    const bad = await postJson(mf, '/api/compare', { before: ESSAY, after: ' ' })
+    expect(bad.status).toBe(400)
+    expect((await json<{ error: { code: string; field: string } }>(bad)).error).toMatchObject({ code: 'missing_text', field: 'after' })
+  })
+
+  it('returns writing feedback in the detected or requested language', async () => {
+    const res = await postJson(mf, '/api/v1/writing', { text: 'It is important to note that the plan was approved. Really.' })
+    expect(res.status).toBe(200)
+    const body = await json<WritingResponse>(res)
+    expect(body.language.code).toBe('en')
+    expect(body.readability).not.toBeNull()
+    expect(body.counts).toMatchObject({ filler: 2, passive: 1, short_sentence: 1 })
+
+    const es = await json<WritingResponse>(await postJson(mf, '/api/writing', { text: 'It is important.', options: { language: 'es' } }))
+    expect(es).toMatchObject({ language: { code: 'es' }, readability: null })
+  })
+
+  it('needs a HISTORY binding for documents and a CORPUS binding for plagiarism', async () => {
+    expect((await mf.dispatchFetch('http://localhost/api/v1/documents')).status).toBe(501)
+    expect((await postJson(mf, '/api/v1/plagiarism', { text: ESSAY })).status).toBe(501)
+  })
+})
+
+describe('documents', () => {
+  let mf: Miniflare
+  beforeAll(() => {
+    mf = startWorker({ kv: ['HISTORY'] })
+  })
+  afterAll(() => mf.dispose())
+
+  const alice = { 'X-Client-Id': 'alice-0123456789abcdef' }
+  const bob = { 'X-Client-Id': 'bob-0123456789abcdef' }
+  const call = (path: string, headers: Record<string, string>, init: { method?: string; body?: string } = {}) =>
+    mf.dispatchFetch(`http://localhost/api/v1/documents${path}`, { ...init, headers })
+
+  it('stores, lists and deletes a document', async () => {
+    const now = new Date().toISOString()
+    const doc = { id: 'doc-1', title: 'Essay', text: ESSAY, created_at: now, updated_at: now, scans: [] }
+    const put = await call('/doc-1', alice, { method: 'PUT', body: JSON.stringify(doc) })
+    expect(put.status).toBe(200)
+
+    const list = await json<{ documents: { id: string }[] }>(await call('', alice))
+    expect(list.documents.map(d => d.id)).toEqual(['doc-1'])
+
+    const del = await call('/doc-1', alice, { method: 'DELETE' })
+    expect(del.status).toBe(204)
+    expect((await call('/doc-1', alice)).status).toBe(404)
+  })
+
+  it("keeps each caller's documents to themselves", async () => {
+    const now = new Date().toISOString()
+    const doc = { id: 'mine', title: 'Mine', text: 'Private notes.', created_at: now, updated_at: now, scans: [] }
+    expect((await call('/mine', alice, { method: 'PUT', body: JSON.stringify(doc) })).status).toBe(200)
+
+    expect((await json<{ documents: unknown[] }>(await call('', bob))).documents).toEqual([])
+    expect((await call('/mine', bob)).status).toBe(404)
+    expect((await call('/mine', bob, { method: 'DELETE' })).status).toBe(404)
+    expect((await call('/mine', alice)).status).toBe(200)
+
+    for (const headers of [{}, { 'X-Client-Id': 'short' }] as Record<string, string>[]) {
+      const res = await call('', headers)
+      expect(res.status).toBe(401)
+      expect((await json<{ error: { code: string } }>(res)).error.code).toBe('unauthorized')
+    }
+  })
+})
+
+describe('corpus', () => {
+  let mf: Miniflare
+  beforeAll(() => {
+    mf = startWorker({ kv: ['CORPUS', 'API_KEYS'], bindings: { ADMIN_KEY: 'test-admin', REQUIRE_API_KEY: 'false' } })
+  })
+  afterAll(() => mf.dispose())
+
+  const write = (method: string, headers: Record<string, string> = {}) =>
+    mf.dispatchFetch('http://localhost/api/v1/corpus/moby.txt', { method, headers, body: method === 'PUT' ? JSON.stringify({ text: MOBY }) : undefined })
+
+  it('takes writes only with the admin key', async () => {
+    expect((await write('PUT')).status).toBe(401)
+    expect((await write('PUT', { Authorization: 'Bearer wrong' })).status).toBe(401)
+    expect((await write('PUT', { Authorization: 'Bearer test-admin' })).status).toBe(200)
+    expect((await write('DELETE')).status).toBe(401)
+
+    const list = await json<{ sources: { id: string }[] }>(await mf.dispatchFetch('http://localhost/api/v1/corpus'))
+    expect(list.sources.map(s => s.id)).toEqual(['moby.txt'])
+    expect((await write('DELETE', { Authorization: 'Bearer test-admin' })).status).toBe(204)
+  })
+
+  it('follows a copied passage from the occurrence of its opening that it continues', async () => {
+    const copied = 'the quick brown fox jumps over the lazy dog while everyone in the village watched'
+    const source = `The quick brown fox jumps over something else entirely. Later on, ${copied}.`
+    const admin = { Authorization: 'Bearer test-admin' }
+    await mf.dispatchFetch('http://localhost/api/v1/corpus/fable', { method: 'PUT', headers: admin, body: JSON.stringify({ text: source }) })
+
+    const body = await json<PlagiarismResponse>(await postJson(mf, '/api/v1/plagiarism', { text: `${copied}.` }))
+    expect(body.coverage).toBe(1)
+    expect(body.matches[0].passages).toEqual([
+      { start: 0, end: copied.length, source_start: source.indexOf(copied), source_end: source.length - 1, words: 15 },
+    ])
+  })
+
+  it('reports each source a text copies from, with its share of the text', async () => {
+    const admin = { Authorization: 'Bearer test-admin' }
+    await mf.dispatchFetch('http://localhost/api/v1/corpus/moby', { method: 'PUT', headers: admin, body: JSON.stringify({ title: 'Moby-Dick', text: MOBY }) })
+
+    const copied = MOBY.slice(0, MOBY.indexOf('.', 400) + 1)
+    const body = await json<PlagiarismResponse>(await postJson(mf, '/api/v1/plagiarism', { text: `${ESSAY}\n\n${copied}` }))
+    const moby = body.matches.find(m => m.source_id === 'moby')!
+    expect(moby).toMatchObject({ title: 'Moby-Dick' })
+    expect(moby.coverage).toBeGreaterThan(0)
+    expect(moby.coverage).toBeLessThan(1)
+    expect(moby.coverage).toBeCloseTo(body.coverage, 10)
+    expect(moby.passages[0]).toMatchObject({ start: ESSAY.length + 2, source_start: 0 })
+
+    const clean = await json<PlagiarismResponse>(await postJson(mf, '/api/v1/plagiarism', { text: ESSAY }))
+    expect(clean).toMatchObject({ coverage: 0, matches: [] })
+  })
+
+  it('refuses writes when there is no ADMIN_KEY', async () => {
+    const open = startWorker({ kv: ['CORPUS'] })
+    const res = await open.dispatchFetch('http://localhost/api/v1/corpus/x', { method: 'PUT', body: JSON.stringify({ text: 'Some text.' }) })
+    expect(res.status).toBe(403)
+    await open.dispose()
+  })
+})
+
+describe('authors', () => {
+  let mf: Miniflare
+  beforeAll(() => {
+    mf = startWorker({ kv: ['AUTHORS'] })
+  })
+  afterAll(() => mf.dispose())
+
+  const client = { 'X-Client-Id': 'teacher-0123456789abcdef' }
+  const put = (path: string, body: unknown, headers = client) =>
+    mf.dispatchFetch(`http://localhost/api/v1/authors/${path}`, { method: 'PUT', body: JSON.stringify(body), headers })
+
+  it('compares a scan with an author profile', async () => {
+    expect((await put('ishmael', { name: 'Ishmael' })).status).toBe(200)
+    const added = await json<AuthorResponse>(await put('ishmael/samples/ch-1', { title: 'Chapter 1', text: MOBY }))
+    expect(added.author.samples).toMatchObject([{ id: 'ch-1', title: 'Chapter 1', weights_version: GOLDEN.weights_version }])
+    expect(added.author.samples[0]).not.toHaveProperty('text')
+
+    const res = await postJson(mf, '/api/detect', { text: ESSAY, options: { author: 'ishmael' } }, client)
+    const body = await json<DetectResponse>(res)
+    expect(body.ai_probability).toBeCloseTo(GOLDEN.ai_probability, 6)
+    expect(body.author).toMatchObject({ author: { id: 'ishmael', name: 'Ishmael' }, samples: 1, verdict: 'inconsistent' })
+  })
+
+  it('refuses unknown authors and authors without samples', async () => {
+    await put('empty', { name: 'Nobody yet' })
+    for (const [author, status] of [['missing', 404], ['empty', 400]] as const) {
+      const res = await postJson(mf, '/api/v1/detect', { text: ESSAY, options: { author } }, client)
+      expect(res.status).toBe(status)
+      expect((await json<{ error: { field: string } }>(res)).error.field).toBe('options.author')
+    }
+  })
+
+  it("keeps each caller's authors to themselves", async () => {
+    const other = { 'X-Client-Id': 'student-0123456789abcdef' }
+    await put('melville', { name: 'Herman' })
+    await put('melville/samples/ch-1', { text: MOBY })
+
+    const listed = await json<{ authors: unknown[] }>(await mf.dispatchFetch('http://localhost/api/v1/authors', { headers: other }))
+    expect(listed.authors).toEqual([])
+    expect((await put('melville/samples/ch-2', { text: MOBY }, other)).status).toBe(404)
+    expect((await mf.dispatchFetch('http://localhost/api/v1/authors/melville', { method: 'DELETE', headers: other })).status).toBe(404)
+    expect((await postJson(mf, '/api/v1/detect', { text: ESSAY, options: { author: 'melville' } }, other)).status).toBe(404)
+    expect((await postJson(mf, '/api/v1/detect', { text: ESSAY, options: { author: 'melville' } })).status).toBe(401)
+  })
+})
+
+describe('CORS', () => {
+  let mf: Miniflare
+  beforeAll(() => {
+    mf = startWorker({ bindings: { ALLOWED_ORIGINS: 'https://app.example' } })
+  })
+  afterAll(() => mf.dispose())
+
+  it('answers preflights for allowed origins only', async () => {
+    const preflight = (origin: string) =>
+      mf.dispatchFetch('http://localhost/api/v1/detect', { method: 'OPTIONS', headers: { Origin: origin } })
+
+    const ok = await preflight('https://app.example')
+    expect(ok.status).toBe(204)
+    expect(ok.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example')
+    expect(ok.headers.get('Access-Control-Allow-Headers')).toContain('Authorization')
+
+    const other = await preflight('https://evil.example')
+    expect(other.headers.get('Access-Control-Allow-Origin')).toBeNull()
+  })
+})
+
+describe('API keys', () => {
+  let mf: Miniflare
+  const admin = { Authorization: 'Bearer test-admin' }
+  beforeAll(() => {
+    mf = startWorker({ kv: ['API_KEYS', 'HISTORY'], bindings: { ADMIN_KEY: 'test-admin', IP_RATE_LIMIT: '100' } })
+  })
+  afterAll(() => mf.dispose())
+
+  async function createKey(body: object) {
+    const res = await postJson(mf, '/api/v1/admin/keys', body, admin)
+    expect(res.status).toBe(201)
+    return json<ApiKeyCreatedResponse>(res)
+  }
+
+  it('requires a key', async () => {
+    const res = await postJson(mf, '/api/v1/detect', { text: 'hello' })
+    expect(res.status).toBe(401)
+    expect(res.headers.get('WWW-Authenticate')).toBe('Bearer')
+    expect((await postJson(mf, '/api/v1/detect', { text: 'hello' }, { 'X-API-Key': 'ucd_nope' })).status).toBe(401)
+  })
+
+  it('guards the admin routes with ADMIN_KEY', async () => {
+    const res = await postJson(mf, '/api/v1/admin/keys', { name: 'x' }, { Authorization: 'Bearer wrong' })
+    expect(res.status).toBe(401)
+    const bad = await postJson(mf, '/api/v1/admin/keys', { name: 'x', rate_limit: 0 }, admin)
+    expect((await json<{ error: { field: string } }>(bad)).error.field).toBe('rate_limit')
+  })
+
+  it('limits each key per minute with Retry-After', async () => {
+    const { key, secret } = await createKey({ name: 'limited', rate_limit: 2 })
+    const call = () => postJson(mf, '/api/v1/detect', { text: 'hello there' }, { Authorization: `Bearer ${secret}` })
+
+    const first = await call()
+    expect(first.status).toBe(200)
+    expect(first.headers.get('X-RateLimit-Remaining')).toBe('1')
+    expect((await call()).status).toBe(200)
+
+    const limited = await call()
+    expect(limited.status).toBe(429)
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0)
+    expect((await json<{ error: { code: string } }>(limited)).error.code).toBe('rate_limited')
+
+    const listed = await json<{ keys: { id: string }[] }>(await mf.dispatchFetch('http://localhost/api/v1/admin/keys', { headers: admin }))
+    expect(listed.keys.map(k => k.id)).toContain(key.id)
+  })
+
+  it('enforces daily quotas', async () => {
+    const { secret } = await createKey({ name: 'quota', daily_quota: 1 })
+    const call = () => postJson(mf, '/api/v1/detect', { text: 'hello there' }, { Authorization: `Bearer ${secret}` })
+    expect((await call()).status).toBe(200)
+    const res = await call()
+    expect(res.status).toBe(429)
+    expect((await json<{ error: { code: string } }>(res)).error.code).toBe('quota_exceeded')
+  })
+
+  it('stops accepting a revoked key', async () => {
+    const { key, secret } = await createKey({ name: 'revoked' })
+    const del = await mf.dispatchFetch(`http://localhost/api/v1/admin/keys/${key.id}`, { method: 'DELETE', headers: admin })
+    expect((await json<ApiKeyCreatedResponse>(del)).key.revoked_at).not.toBeNull()
+    expect((await postJson(mf, '/api/v1/detect', { text: 'hello' }, { Authorization: `Bearer ${secret}` })).status).toBe(401)
+  })
+
+  it("keeps each key's documents to itself, whatever client id it sends", async () => {
+    const [a, b] = await Promise.all([createKey({ name: 'a' }), createKey({ name: 'b' })])
+    const client = { 'X-Client-Id': 'shared-0123456789abcdef' }
+    const call = (secret: string, path = '', init: { method?: string; body?: string } = {}) =>
+      mf.dispatchFetch(`http://localhost/api/v1/documents${path}`, { ...init, headers: { ...client, Authorization: `Bearer ${secret}` } })
+
+    const now = new Date().toISOString()
+    const doc = { id: 'report', title: 'Report', text: 'Quarterly report.', created_at: now, updated_at: now, scans: [] }
+    expect((await call(a.secret, '/report', { method: 'PUT', body: JSON.stringify(doc) })).status).toBe(200)
+    expect((await json<{ documents: { id: string }[] }>(await call(a.secret))).documents.map(d => d.id)).toEqual(['report'])
+    expect((await json<{ documents: unknown[] }>(await call(b.secret))).documents).toEqual([])
+    expect((await call(b.secret, '/report')).status).toBe(404)
+  })
+})
+
+describe('per-IP limits without a key', () => {
+  let mf: Miniflare
+  beforeAll(() => {
+    mf = startWorker({ kv: ['API_KEYS'], bindings: { REQUIRE_API_KEY: 'false', IP_RATE_LIMIT: '2' } })
+  })
+  afterAll(() => mf.dispose())
+
+  it('lets anonymous requests through up to the IP limit', async () => {
+    const call = () => postJson(mf, '/api/v1/detect', { text: 'hello there' }, { 'CF-Connecting-IP': '203.0.113.7' })
+    expect((await call()).status).toBe(200)
+    expect((await call()).status).toBe(200)
+    expect((await call()).status).toBe(429)
+    const other = await postJson(mf, '/api/v1/detect', { text: 'hello there' }, { 'CF-Connecting-IP': '203.0.113.8' })
+    expect(other.status).toBe(200)
+  })
+})
@@ -0,0 +1,42 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+
+import { baselineFor, detectLanguage, sentenceBoundary } from '../functions/_lib/lang'
+import { splitSentences, tokenizeWords } from '../functions/_lib/scoring'
+
+const text = (name: string) => readFileSync(new URL(`golden/texts/${name}`, import.meta.url), 'utf8')
+
+describe('detectLanguage', () => {
+  it('tells Latin-script languages apart by their trigrams', () => {
+    expect(detectLanguage(text('moby-dick.txt'))).toMatchObject({ code: 'en', name: 'English' })
+    const es = detectLanguage(text('udhr-spanish.txt'))
+    expect(es.code).toBe('es')
+    expect(es.confidence).toBeGreaterThan(0.9)
+    expect(detectLanguage('Die Würde des Menschen ist unantastbar. Sie zu achten und zu schützen ist Verpflichtung aller staatlichen Gewalt.').code).toBe('de')
+    expect(detectLanguage('Tous les êtres humains naissent libres et égaux en dignité et en droits.').code).toBe('fr')
+  })
+
+  it('tells Japanese from Chinese by kana', () => {
+    expect(detectLanguage(text('udhr-japanese.txt')).code).toBe('ja')
+    expect(detectLanguage('人人生而自由，在尊严和权利上一律平等。他们赋有理性和良心，并应以兄弟关系的精神相对待。').code).toBe('zh')
+  })
+
+  it('falls back to English with no confidence when there is too little to go on', () => {
+    expect(detectLanguage('Hola.')).toMatchObject({ code: 'en', confidence: 0 })
+    expect(detectLanguage('')).toMatchObject({ code: 'en', confidence: 0 })
+  })
+})
+
+describe('per-language text handling', () => {
+  it('splits Japanese sentences on full stops and counts characters as words', () => {
+    const ja = 'すべての人間は、生まれながらにして自由である。人間は、理性と良心とを授けられている。'
+    expect(splitSentences(ja, 'ja')).toHaveLength(2)
+    expect(sentenceBoundary('ja').test('。')).toBe(true)
+    expect(tokenizeWords('自由である')).toEqual(['自', '由', 'で', 'あ', 'る'])
+  })
+
+  it('has its own baseline for each language', () => {
+    expect(baselineFor('es')).not.toEqual(baselineFor('en'))
+    expect(baselineFor()).toEqual(baselineFor('en'))
+  })
+})
@@ -0,0 +1,27 @@
+/**
+ * Compiles functions/ into a Pages Worker once per test run, the same way
+ * `wrangler pages dev` does, so handler tests exercise the deployed bundle.
+ */
+import { execFileSync } from 'node:child_process'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+import type { GlobalSetupContext } from 'vitest/node'
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    workerDir: string
+  }
+}
+
+export default async function setup({ provide }: GlobalSetupContext) {
+  const dir = await mkdtemp(join(tmpdir(), 'functions-'))
+  execFileSync('npx', ['wrangler', 'pages', 'functions', 'build', 'functions', '--outdir', dir], {
+    cwd: resolve(import.meta.dirname, '../..'),
+    env: { ...process.env, WRANGLER_SEND_METRICS: 'false' },
+    stdio: 'pipe',
+  })
+  provide('workerDir', dir)
+
+  return () => rm(dir, { recursive: true, force: true })
+}
@@ -0,0 +1,37 @@
+import { join } from 'node:path'
+import { Miniflare } from 'miniflare'
+import { inject } from 'vitest'
+
+export type WorkerOptions = {
+  /** KV namespaces to bind, emulated in memory by Miniflare. */
+  kv?: string[]
+  bindings?: Record<string, string>
+}
+
+/** The compiled Pages Functions in a local workerd, with no static assets behind them. */
+export function startWorker({ kv = [], bindings = {} }: WorkerOptions = {}) {
+  const dir = inject('workerDir')
+  return new Miniflare({
+    modules: true,
+    scriptPath: join(dir, 'index.js'),
+    modulesRoot: dir,
+    modulesRules: [{ type: 'Data', include: ['**/*.bin'] }],
+    compatibilityDate: '2025-01-01',
+    kvNamespaces: kv,
+    bindings,
+    serviceBindings: { ASSETS: () => new Response('Not found', { status: 404 }) },
+  })
+}
+
+export function postJson(mf: Miniflare, path: string, body: unknown, headers: Record<string, string> = {}) {
+  return mf.dispatchFetch(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  })
+}
+
+/** Miniflare's Response.json() is untyped. */
+export async function json<T>(res: { json(): Promise<unknown> }): Promise<T> {
+  return (await res.json()) as T
+}
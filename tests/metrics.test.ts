@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+
+import { rocCurve } from '../scripts/lib/metrics'
+
+describe('rocCurve', () => {
+  it('runs from (0,0) to (1,1) with thresholds that survive JSON', () => {
+    const points = rocCurve([0.9, 0.7, 0.4, 0.2], [1, 0, 1, 0])
+    expect(points[0]).toEqual({ tpr: 0, fpr: 0 })
+    expect(points.at(-1)).toMatchObject({ tpr: 1, fpr: 1 })
+    expect(JSON.parse(JSON.stringify(points))).toEqual(points)
+  })
+
+  it('gives a score of exactly 1 its own point after the origin', () => {
+    const points = rocCurve([1, 0.6, 0.3], [1, 1, 0])
+    expect(points.slice(0, 2)).toEqual([{ tpr: 0, fpr: 0 }, { threshold: 1, tpr: 0.5, fpr: 0 }])
+    expect(points.filter(p => p.threshold === 1)).toHaveLength(1)
+  })
+})
@@ -0,0 +1,70 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+
+import { MIN_PERTURB_WORDS, deltaStats, mulberry32, perturbText } from '../functions/_lib/perturb'
+import { tokenizeWords } from '../functions/_lib/scoring'
+
+const TEXT = readFileSync(new URL('golden/texts/ai-essay.txt', import.meta.url), 'utf8')
+
+describe('mulberry32', () => {
+  it('is reproducible and in [0, 1)', () => {
+    const a = mulberry32(42)
+    const b = mulberry32(42)
+    for (let i = 0; i < 100; i++) {
+      const x = a()
+      expect(x).toBe(b())
+      expect(x).toBeGreaterThanOrEqual(0)
+      expect(x).toBeLessThan(1)
+    }
+  })
+})
+
+describe('perturbText', () => {
+  it('leaves texts under MIN_PERTURB_WORDS unchanged', () => {
+    const short = Array.from({ length: MIN_PERTURB_WORDS - 1 }, () => 'very').join(' ')
+    expect(perturbText(short, mulberry32(1))).toBe(short)
+    expect(perturbText('', mulberry32(1))).toBe('')
+  })
+
+  it('is the same for the same seed and differs across seeds', () => {
+    expect(perturbText(TEXT, mulberry32(7))).toBe(perturbText(TEXT, mulberry32(7)))
+    expect(perturbText(TEXT, mulberry32(7))).not.toBe(perturbText(TEXT, mulberry32(8)))
+    expect(perturbText(TEXT, mulberry32(7))).not.toBe(TEXT)
+  })
+
+  it('keeps punctuation and paragraph breaks', () => {
+    const out = perturbText(TEXT, mulberry32(3))
+    const marks = (s: string) => s.replace(/[^.,;:!?\n]/g, '')
+    expect(marks(out)).toBe(marks(TEXT))
+  })
+
+  it('touches about `rate` of the words', () => {
+    const before = tokenizeWords(TEXT)
+    const after = tokenizeWords(perturbText(TEXT, mulberry32(5), 0.15))
+    expect(after.length).toBeGreaterThan(before.length * 0.85)
+    expect(after.length).toBeLessThanOrEqual(before.length)
+  })
+
+  it('keeps sentence-initial capitals', () => {
+    const out = perturbText(TEXT, mulberry32(11), 0.5)
+    for (const m of out.matchAll(/[.!?]\s+(\S)/g)) expect(m[1]).toMatch(/[A-Z]/)
+  })
+
+  it('handles CJK text', () => {
+    const ja = '今日は晴れです。明日は雨が降るかもしれません。週末は友達と京都へ行きます。'
+    expect(perturbText(ja, mulberry32(1))).toBe(perturbText(ja, mulberry32(1)))
+  })
+})
+
+describe('deltaStats', () => {
+  it('is zeros for no deltas', () => {
+    expect(deltaStats([])).toEqual({ mean: 0, meanAbs: 0, variance: 0 })
+  })
+
+  it('gives the mean, mean absolute value and sample variance', () => {
+    const s = deltaStats([0.1, -0.1, 0.3])
+    expect(s.mean).toBeCloseTo(0.1)
+    expect(s.meanAbs).toBeCloseTo(0.5 / 3)
+    expect(s.variance).toBeCloseTo(0.04)
+  })
+})
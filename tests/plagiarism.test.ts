@@ -0,0 +1,69 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+
+import {
+  MIN_PASSAGE_WORDS,
+  MINHASH_SIZE,
+  SHINGLE,
+  estimateJaccard,
+  fingerprint,
+  minhash,
+  shingleHashes,
+  winnow,
+} from '../functions/_lib/plagiarism/fingerprint'
+import { wordSpans } from '../functions/_lib/scoring'
+
+const MOBY = readFileSync(new URL('golden/texts/moby-dick.txt', import.meta.url), 'utf8')
+const ESSAY = readFileSync(new URL('golden/texts/ai-essay.txt', import.meta.url), 'utf8')
+
+describe('shingleHashes', () => {
+  it('hashes every run of SHINGLE words, ignoring case and punctuation', () => {
+    const words = wordSpans('One two three four five six seven.')
+    expect(shingleHashes(words)).toHaveLength(words.length - SHINGLE + 1)
+    expect(shingleHashes(wordSpans('ONE, two; three four five!'))).toEqual(shingleHashes(wordSpans('one two three four five')))
+    expect(shingleHashes(wordSpans('too short'))).toHaveLength(0)
+  })
+})
+
+describe('winnow', () => {
+  it('keeps the rightmost minimum of each window once', () => {
+    expect(winnow(Uint32Array.from([5, 3, 3, 9, 7, 8, 1, 4]), 3)).toEqual([3, 7, 1])
+    expect(winnow(Uint32Array.from([4, 2]), 3)).toEqual([2])
+    expect(winnow(new Uint32Array(0))).toEqual([])
+  })
+
+  it('shares a fingerprint with any text that copies MIN_PASSAGE_WORDS words', () => {
+    const source = fingerprint(MOBY)
+    const kept = new Set(source.winnowed)
+    for (let at = 0; at + MIN_PASSAGE_WORDS <= source.words.length; at += 37) {
+      const words = source.words.slice(at, at + MIN_PASSAGE_WORDS)
+      const copied = `Unrelated opening words here. ${MOBY.slice(words[0].start, words[words.length - 1].end)} And then something else entirely.`
+      expect(fingerprint(copied).winnowed.some(h => kept.has(h)), copied).toBe(true)
+    }
+  })
+
+  it('stores only a fraction of the shingles', () => {
+    const { shingles, winnowed } = fingerprint(MOBY)
+    expect(winnowed.length).toBeLessThan(shingles.length * 0.6)
+  })
+})
+
+describe('minhash', () => {
+  it('estimates the Jaccard similarity of the shingle sets', () => {
+    const moby = fingerprint(MOBY).minhash
+    expect(moby).toHaveLength(MINHASH_SIZE)
+    expect(estimateJaccard(moby, moby)).toBe(1)
+    expect(estimateJaccard(moby, fingerprint(ESSAY).minhash)).toBeLessThan(0.1)
+
+    const words = MOBY.split(' ')
+    const half = words.slice(0, Math.floor(words.length / 2)).join(' ')
+    expect(estimateJaccard(moby, fingerprint(half).minhash)).toBeGreaterThan(0.25)
+    expect(estimateJaccard(moby, fingerprint(half).minhash)).toBeLessThan(0.75)
+  })
+
+  it('gives 0 when either text has no shingles', () => {
+    const empty = minhash(new Uint32Array(0))
+    expect(estimateJaccard(empty, empty)).toBe(0)
+    expect(estimateJaccard(fingerprint(MOBY).minhash, fingerprint('Hi there.').minhash)).toBe(0)
+  })
+})
@@ -0,0 +1,57 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+
+import type { BatchItemResult, DetectResponse } from '../shared/api'
+import { batchCsv, csvField, escapeHtml, renderScanReport } from '../shared/report'
+
+const RESULT: DetectResponse = JSON.parse(readFileSync(new URL('golden/expected/ai-essay.profile.json', import.meta.url), 'utf8'))
+const TEXT = readFileSync(new URL('golden/texts/ai-essay.txt', import.meta.url), 'utf8')
+
+describe('renderScanReport', () => {
+  const html = renderScanReport({ title: 'Essay <draft>', text: TEXT, result: RESULT, generated_at: '2026-01-01T00:00:00Z' })
+
+  it('escapes the title and text', () => {
+    expect(html).toContain('<h1>Essay &#60;draft&#62;</h1>')
+    expect(html).not.toContain('<draft>')
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&#60;a href=&#34;x&#34;&#62;&#39;&#38;&#39;&#60;/a&#62;')
+  })
+
+  it('highlights rule matches in the text', () => {
+    expect(html).toContain('<mark class="hlRule">In today&#39;s fast-paced world</mark>')
+  })
+
+  it('is self-contained', () => {
+    expect(html).not.toMatch(/<script|<link|src=/)
+  })
+})
+
+describe('csvField', () => {
+  it('quotes commas, quotes and line breaks', () => {
+    expect(csvField('plain')).toBe('plain')
+    expect(csvField('a,b')).toBe('"a,b"')
+    expect(csvField('say "hi"')).toBe('"say ""hi"""')
+    expect(csvField('two\nlines')).toBe('"two\nlines"')
+  })
+
+  it('defuses spreadsheet formulas in text but not numbers', () => {
+    expect(csvField('=SUM(A1)')).toBe("'=SUM(A1)")
+    expect(csvField('@cmd')).toBe("'@cmd")
+    expect(csvField(-0.5)).toBe('-0.5')
+    expect(csvField(null)).toBe('')
+  })
+})
+
+describe('batchCsv', () => {
+  it('writes one CRLF row per result, failures included', () => {
+    const results: BatchItemResult[] = [
+      { id: 'essay.txt', ok: true, ...RESULT },
+      { id: 'empty.txt', ok: false, error: { code: 'missing_text', message: 'Missing text' } },
+    ]
+    const rows = batchCsv(results).split('\r\n')
+    expect(rows).toHaveLength(4)
+    expect(rows[0]).toMatch(/^id,ok,words,ai_probability,confidence,/)
+    expect(rows[1]).toMatch(/^essay\.txt,true,\d+,0\.669,high,en,/)
+    expect(rows[2]).toMatch(/^empty\.txt,false,.*,Missing text$/)
+    expect(rows[3]).toBe('')
+  })
+})
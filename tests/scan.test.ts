@@ -0,0 +1,61 @@
+import { readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { describe, expect, it } from 'vitest'
+
+import type { DetectResponse } from '../shared/api'
+import { expandInputs, globToRegExp } from '../scripts/lib/inputs'
+import { formatScan, type ScanResult } from '../scripts/lib/scan'
+
+const TEXTS = fileURLToPath(new URL('golden/texts', import.meta.url))
+const ESSAY: DetectResponse = {
+  api_version: 'v1',
+  ...JSON.parse(readFileSync(new URL('golden/expected/ai-essay.json', import.meta.url), 'utf8')),
+}
+
+describe('globToRegExp', () => {
+  it('keeps * within a directory and lets ** cross them', () => {
+    expect(globToRegExp('*.md').test('notes.md')).toBe(true)
+    expect(globToRegExp('*.md').test('a/notes.md')).toBe(false)
+    expect(globToRegExp('**/*.md').test('notes.md')).toBe(true)
+    expect(globToRegExp('**/*.md').test('a/b/notes.md')).toBe(true)
+    expect(globToRegExp('essay-?.[tm][xd]*').test('essay-1.txt')).toBe(true)
+    expect(globToRegExp('[!a]*.txt').test('a.txt')).toBe(false)
+  })
+})
+
+describe('expandInputs', () => {
+  it('lists directories and globs once each, in order', async () => {
+    const all = await expandInputs([TEXTS, `${TEXTS}/**/udhr-*.txt`])
+    expect(all).toHaveLength(7)
+    expect(all[0]).toMatch(/ai-essay\.txt$/)
+    await expect(expandInputs([`${TEXTS}/*.pdf`])).rejects.toThrow('no files match')
+  })
+
+  it('keeps stdin where "-" is among the arguments', async () => {
+    const essay = `${TEXTS}/ai-essay.txt`
+    const all = await expandInputs([essay, '-', `${TEXTS}/udhr-*.txt`])
+    expect(all.slice(0, 2)).toEqual([essay, '-'])
+    expect(all.length).toBeGreaterThan(2)
+  })
+})
+
+describe('formatScan', () => {
+  const results: ScanResult[] = [
+    { id: 'essay.txt', ok: true, response: ESSAY },
+    { id: 'empty.txt', ok: false, error: { code: 'missing_text', message: 'Missing text', field: 'text' } },
+  ]
+
+  it('marks documents at or above the threshold in the table', () => {
+    const table = formatScan('table', { results, threshold: ESSAY.ai_probability })
+    expect(table).toMatch(/essay\.txt .* FLAGGED\n/)
+    expect(table).toContain('error: Missing text')
+    expect(table).toContain('2 documents · 1 at or above')
+  })
+
+  it('writes the batch export columns for detect results', () => {
+    const [head, row, failed] = formatScan('csv', { results, threshold: 0.8 }).split('\r\n')
+    expect(head.startsWith('id,ok,words,ai_probability,confidence')).toBe(true)
+    expect(row.startsWith(`essay.txt,true,${ESSAY.signals.length},`)).toBe(true)
+    expect(failed.endsWith(',Missing text')).toBe(true)
+  })
+})
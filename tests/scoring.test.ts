@@ -0,0 +1,248 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+
+import { analyze } from '../functions/_lib/analyze'
+import type { LanguageModel } from '../functions/_lib/lm'
+import {
+  compressionRatio,
+  computeSignals,
+  confidenceLabel,
+  heuristicScore,
+  lengthFactor,
+  scoreSentences,
+  splitSentenceSpans,
+  splitSentences,
+  stddev,
+  tokenizeWords,
+  zipPyScore,
+} from '../functions/_lib/scoring'
+import { DEFAULT_WEIGHTS, applyCalibration } from '../functions/_lib/weights'
+import { readModel } from '../scripts/lib/lm'
+
+const HUMAN = 'I missed the bus again, so I walked. It rained the whole way and my shoes are still wet. Honestly? Worth it for the coffee.'
+
+function words(n: number) {
+  return Array.from({ length: n }, (_, i) => `word${i % 37}`).join(' ') + '.'
+}
+
+describe('tokenizeWords', () => {
+  it('returns nothing for empty or punctuation-only text', () => {
+    expect(tokenizeWords('')).toEqual([])
+    expect(tokenizeWords(' ... !? ')).toEqual([])
+  })
+
+  it('lower-cases and keeps inner apostrophes and hyphens', () => {
+    expect(tokenizeWords("Don't STOP the well-known 'quote' -dash-")).toEqual(["don't", 'stop', 'the', 'well-known', 'quote', 'dash'])
+  })
+
+  it('keeps accented letters and digits inside words', () => {
+    expect(tokenizeWords('Él comió 3 piñas en 2024.')).toEqual(['él', 'comió', '3', 'piñas', 'en', '2024'])
+  })
+
+  it('makes every CJK character its own token', () => {
+    expect(tokenizeWords('東京は大きい')).toEqual(['東', '京', 'は', '大', 'き', 'い'])
+  })
+})
+
+describe('splitSentences', () => {
+  it('returns nothing for empty text', () => {
+    expect(splitSentences('')).toEqual([])
+    expect(splitSentenceSpans('   ')).toEqual([])
+  })
+
+  it('keeps a text without terminal punctuation as one sentence', () => {
+    expect(splitSentences('just one line with no stop')).toEqual(['just one line with no stop'])
+  })
+
+  it('splits on . ! ? and collapses whitespace', () => {
+    expect(splitSentences('One.  Two!\nThree?   Four')).toEqual(['One.', 'Two!', 'Three?', 'Four'])
+  })
+
+  it('splits Japanese on 。！？', () => {
+    expect(splitSentences('今日は晴れ。明日は雨！本当？', 'ja')).toHaveLength(3)
+  })
+
+  it('gives offsets that slice back to each sentence', () => {
+    const text = '  First one.\n\nSecond   one!  Third'
+    for (const s of splitSentenceSpans(text)) expect(text.slice(s.start, s.end)).toBe(s.text)
+  })
+})
+
+describe('stddev', () => {
+  it('is 0 for fewer than two values', () => {
+    expect(stddev([])).toBe(0)
+    expect(stddev([5])).toBe(0)
+  })
+
+  it('is the sample standard deviation', () => {
+    expect(stddev([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(2.138, 3)
+    expect(stddev([3, 3, 3])).toBe(0)
+  })
+})
+
+describe('computeSignals', () => {
+  it('is all zeros for empty text', () => {
+    expect(computeSignals('')).toEqual({
+      length: 0,
+      burstiness: 0,
+      repetition: 0,
+      punctuation_rate: 0,
+      avg_word_len: 0,
+      unique_word_ratio: 0,
+    })
+  })
+
+  it('has no burstiness for a single sentence', () => {
+    const s = computeSignals('The cat sat on the mat.')
+    expect(s.length).toBe(6)
+    expect(s.burstiness).toBe(0)
+    expect(s.repetition).toBeCloseTo(1 / 6)
+    expect(s.unique_word_ratio).toBeCloseTo(5 / 6)
+  })
+
+  it('keeps every signal in range', () => {
+    for (const text of [HUMAN, words(200), '東京は大きい。京都は古い。', 'a a a a a a a a']) {
+      const s = computeSignals(text)
+      for (const k of ['burstiness', 'repetition', 'punctuation_rate', 'unique_word_ratio'] as const) {
+        expect(s[k]).toBeGreaterThanOrEqual(0)
+        expect(s[k]).toBeLessThanOrEqual(1)
+      }
+    }
+  })
+
+  it('counts CJK punctuation', () => {
+    expect(computeSignals('今日は晴れ。明日は雨、たぶん。', 'ja').punctuation_rate).toBeGreaterThan(0)
+  })
+})
+
+describe('heuristicScore', () => {
+  it('stays within 0..1 on degenerate input', () => {
+    for (const text of ['', 'a', 'a a a a a a a a a a a a a a a a a a a a.', words(400)]) {
+      const h = heuristicScore(computeSignals(text))
+      expect(h).toBeGreaterThanOrEqual(0)
+      expect(h).toBeLessThanOrEqual(1)
+    }
+  })
+
+  it('damps short texts', () => {
+    expect(lengthFactor(computeSignals(words(30)))).toBe(0)
+    expect(lengthFactor(computeSignals(words(400)))).toBe(1)
+    const short = computeSignals(words(30))
+    expect(heuristicScore(short)).toBeLessThan(heuristicScore({ ...short, length: 400 }))
+  })
+
+  it('scores uniform, repetitive text above varied text', () => {
+    const uniform = Array.from({ length: 12 }, () => 'The system helps the team improve the process quickly.').join(' ')
+    expect(heuristicScore(computeSignals(uniform))).toBeGreaterThan(heuristicScore(computeSignals(HUMAN)))
+  })
+})
+
+describe('zipPyScore', () => {
+  it('maps compression ratios onto 0..1, clamped', () => {
+    expect(zipPyScore(0.28)).toBe(1)
+    expect(zipPyScore(0.68)).toBe(0)
+    expect(zipPyScore(0.48)).toBeCloseTo(0.5)
+    expect(zipPyScore(0.1)).toBe(1)
+    expect(zipPyScore(2)).toBe(0)
+  })
+
+  it('rates repetitive text as more compressible', async () => {
+    const repetitive = await compressionRatio('the same words again and again '.repeat(40))
+    const varied = await compressionRatio(HUMAN)
+    expect(repetitive).toBeLessThan(varied)
+  })
+})
+
+describe('confidenceLabel', () => {
+  it('bands on the default cut-offs, inclusive', () => {
+    expect(confidenceLabel(0.8)).toBe('high')
+    expect(confidenceLabel(0.79)).toBe('medium')
+    expect(confidenceLabel(0.55)).toBe('medium')
+    expect(confidenceLabel(0.54)).toBe('low')
+  })
+
+  it('takes a profile’s cut-offs', () => {
+    expect(confidenceLabel(0.5, { high: 0.5, medium: 0.2 })).toBe('high')
+  })
+})
+
+describe('analyze', () => {
+  let model: LanguageModel
+  beforeAll(async () => {
+    model = await readModel()
+  })
+
+  it('skips Zippy under 60 words', async () => {
+    const short = await analyze(words(59), model)
+    expect(short.scores.zippy).toBe(0)
+    const long = await analyze(words(60), model)
+    expect(long.scores.zippy).toBeGreaterThan(0)
+  })
+
+  it('leaves the language model out for other languages and renormalises', async () => {
+    const es = await analyze('El gato duerme en la casa. La casa es grande y tiene un jardín con muchas flores.', model, undefined, undefined, 'es')
+    expect(es.language.code).toBe('es')
+    expect(es.scores.lm).toBe(0)
+    expect(es.shares.lm).toBe(0)
+    expect(es.shares.heuristic + es.shares.zippy + es.shares.detectgpt).toBeCloseTo(1)
+  })
+
+  it('scores Japanese without splitting on spaces', async () => {
+    const ja = await analyze('今日は晴れです。明日は雨が降るかもしれません。週末は友達と京都へ行きます。', model)
+    expect(ja.language.code).toBe('ja')
+    expect(ja.signals.length).toBeGreaterThan(20)
+    expect(ja.scores.calibrated).toBeGreaterThanOrEqual(0)
+    expect(ja.scores.calibrated).toBeLessThanOrEqual(1)
+  })
+
+  it('runs only the detectors it is given', async () => {
+    const a = await analyze(HUMAN, model, undefined, undefined, 'en', ['heuristic'])
+    expect(a.scores.zippy).toBe(0)
+    expect(a.scores.detectgpt).toBe(0)
+    expect(a.curvature.samples).toBe(0)
+  })
+
+  it('reports every registered detector with its status', async () => {
+    const short = await analyze(words(30), model, undefined, undefined, 'en', ['heuristic', 'zippy', 'lm'])
+    expect(short.detectors.map(d => [d.id, d.status])).toEqual([
+      ['heuristic', 'scored'],
+      ['zippy', 'too_short'],
+      ['detectgpt', 'disabled'],
+      ['lm', 'scored'],
+    ])
+    expect(short.detectors.every(d => d.version >= 1)).toBe(true)
+
+    const es = await analyze(words(30), model, undefined, undefined, 'es')
+    expect(es.detectors.find(d => d.id === 'lm')).toMatchObject({ status: 'unsupported_language', weight: 0 })
+  })
+
+  it('is deterministic', async () => {
+    expect(await analyze(words(120), model)).toEqual(await analyze(words(120), model))
+  })
+})
+
+describe('scoreSentences', () => {
+  it('has no Zippy score for sentences under 60 words', async () => {
+    const scored = await scoreSentences(`${HUMAN} ${words(70)}`)
+    expect(scored.at(0)!.zippy).toBeNull()
+    expect(scored.at(-1)!.zippy).not.toBeNull()
+  })
+
+  it('only counts the detectors the scan profile runs', async () => {
+    const text = `${HUMAN} ${words(70)}`
+    const lmOnly = await scoreSentences(text, undefined, 'en', ['lm'])
+    expect(lmOnly.map(s => s.ai_probability)).toEqual(lmOnly.map(() => null))
+    expect(lmOnly.every(s => s.heuristic == null && s.zippy == null)).toBe(true)
+
+    const zippyOnly = await scoreSentences(text, undefined, 'en', ['zippy', 'lm'])
+    expect(zippyOnly.at(0)!.ai_probability).toBeNull()
+    expect(zippyOnly.at(-1)!.heuristic).toBeNull()
+    expect(zippyOnly.at(-1)!.ai_probability).toBeCloseTo(applyCalibration(zippyOnly.at(-1)!.zippy!, DEFAULT_WEIGHTS.calibration), 10)
+  })
+
+  it('scores the normalised text of each sentence', async () => {
+    const [clean] = await scoreSentences(HUMAN)
+    const [doctored] = await scoreSentences(HUMAN.replace(/a/g, 'а'))
+    expect(doctored.heuristic).toBe(clean.heuristic)
+    expect(doctored.ai_probability!).toBeGreaterThan(clean.ai_probability!)
+  })
+})
@@ -0,0 +1,88 @@
+import { readFileSync } from 'node:fs'
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+
+import type { DetectorReport } from '../shared/api'
+import { detectText } from '../functions/_lib/detect'
+import type { LanguageModel } from '../functions/_lib/lm'
+import { streamResponse } from '../functions/_lib/stream'
+import { readModel } from '../scripts/lib/lm'
+
+const ESSAY = readFileSync(new URL('golden/texts/ai-essay.txt', import.meta.url), 'utf8')
+
+function context(request = new Request('http://localhost/api/v1/detect', { method: 'POST' })) {
+  const pending: Promise<unknown>[] = []
+  return { request, waitUntil: (p: Promise<unknown>) => void pending.push(p), pending }
+}
+
+describe('detectText progress', () => {
+  let model: LanguageModel
+  beforeAll(async () => {
+    model = await readModel()
+  })
+
+  it('reports each detector as it finishes, with the final weights', async () => {
+    const seen: DetectorReport[] = []
+    const result = await detectText(ESSAY, model, { timeline: false }, undefined, undefined, {
+      detector: async d => void seen.push(d),
+    })
+    expect(seen).toEqual(result.detectors)
+  })
+
+  it('stops when the signal is aborted', async () => {
+    const abort = new AbortController()
+    const run = detectText(ESSAY, model, {}, undefined, undefined, {
+      signal: abort.signal,
+      detector: async () => abort.abort(),
+    })
+    await expect(run).rejects.toThrow()
+  })
+})
+
+describe('streamResponse', () => {
+  it('stops the work once the client cancels the body', async () => {
+    const ctx = context()
+    let sent = 0
+    let stopped: unknown = null
+    const res = streamResponse(ctx, 'ndjson', async (emit, signal) => {
+      try {
+        for (;;) {
+          await emit({ type: 'error', error: { code: 'invalid_request', message: String(sent++) } })
+        }
+      } finally {
+        stopped = signal.reason ?? true
+      }
+    })
+
+    const reader = res.body!.getReader()
+    await reader.read()
+    await reader.cancel()
+    await Promise.all(ctx.pending)
+    expect(stopped).not.toBeNull()
+    expect(sent).toBeLessThan(5)
+  })
+
+  it('stops the work when the request is aborted', async () => {
+    const abort = new AbortController()
+    const ctx = context(new Request('http://localhost/', { method: 'POST', signal: abort.signal }))
+    const res = streamResponse(ctx, 'sse', async (emit) => {
+      await emit({ type: 'error', error: { code: 'invalid_request', message: 'first' } })
+      abort.abort()
+      await emit({ type: 'error', error: { code: 'invalid_request', message: 'second' } })
+    })
+
+    const reader = res.body!.getReader()
+    const first = new TextDecoder().decode((await reader.read()).value)
+    expect(first).toBe('event: error\ndata: {"type":"error","error":{"code":"invalid_request","message":"first"}}\n\n')
+    await expect(reader.read()).rejects.toThrow()
+    await Promise.all(ctx.pending)
+  })
+
+  it('turns a failure into an error event', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const ctx = context()
+    const res = streamResponse(ctx, 'ndjson', async () => {
+      throw new Error('boom')
+    })
+    expect(JSON.parse(await res.text())).toEqual({ type: 'error', error: { code: 'internal_error', message: 'The scan failed' } })
+  })
+})
@@ -0,0 +1,79 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+
+import type { Author } from '../shared/api'
+import { compareToAuthor } from '../functions/_lib/style'
+import { DEFAULT_WEIGHTS } from '../functions/_lib/weights'
+
+const text = (name: string) => readFileSync(new URL(`golden/texts/${name}.txt`, import.meta.url), 'utf8')
+
+/** Consecutive runs of `n` words. */
+function chunks(s: string, n: number) {
+  const words = s.split(/\s+/)
+  const out: string[] = []
+  for (let i = 0; i + n <= words.length; i += n) out.push(words.slice(i, i + n).join(' '))
+  return out
+}
+
+function author(samples: string[], weights_version = DEFAULT_WEIGHTS.version): Author {
+  return {
+    id: 'melville',
+    name: 'Melville',
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    samples: samples.map((t, i) => ({
+      id: `s${i}`,
+      title: `Sample ${i}`,
+      text: t,
+      added_at: '2026-01-01T00:00:00.000Z',
+      words: t.split(/\s+/).length,
+      ai_probability: 0.1 * (i + 1),
+      weights_version,
+    })),
+  }
+}
+
+const MOBY = chunks(text('moby-dick'), 150)
+const PROFILE = author(MOBY.slice(0, -1))
+
+describe('compareToAuthor', () => {
+  it('scores the author closer to their samples than other writers', () => {
+    const own = compareToAuthor(MOBY[MOBY.length - 1], 'en', PROFILE)
+    const speech = compareToAuthor(text('sotu-1790'), 'en', PROFILE)
+    const essay = compareToAuthor(text('ai-essay'), 'en', PROFILE)
+
+    expect(own.verdict).toBe('consistent')
+    expect(own.delta).toBeLessThan(speech.delta)
+    expect(speech.delta).toBeLessThan(essay.delta)
+    expect(essay.verdict).toBe('inconsistent')
+  })
+
+  it('measures the baseline with each sample left out', () => {
+    const r = compareToAuthor(text('ai-essay'), 'en', PROFILE)
+    expect(r.samples).toBe(MOBY.length - 1)
+    expect(r.baseline_delta).toBeGreaterThan(0)
+    expect(r.baseline_delta!).toBeLessThan(r.delta)
+    expect(r.features.length).toBeGreaterThan(0)
+    expect(r.features.map(f => Math.abs(f.z))).toEqual([...r.features.map(f => Math.abs(f.z))].sort((a, b) => b - a))
+  })
+
+  it('splits a single sample in half for its baseline', () => {
+    const one = author([MOBY.slice(0, 3).join(' ')])
+    expect(compareToAuthor(MOBY.slice(3).join(' '), 'en', one).verdict).toBe('consistent')
+    expect(compareToAuthor(text('ai-essay'), 'en', one).verdict).toBe('inconsistent')
+    expect(compareToAuthor(MOBY[1], 'en', author(['Call me Ishmael.'])).baseline_delta).toBeNull()
+  })
+
+  it('reads duplicate samples against a floored baseline', () => {
+    const r = compareToAuthor(text('ai-essay'), 'en', author([text('ai-essay'), text('ai-essay')]))
+    expect(r.baseline_delta).toBe(0)
+    expect(r.delta).toBe(0)
+    expect(r.verdict).toBe('consistent')
+    expect(compareToAuthor(text('moby-dick'), 'en', author([text('ai-essay'), text('ai-essay')])).verdict).toBe('inconsistent')
+  })
+
+  it('only averages sample scores from the current weights', () => {
+    expect(compareToAuthor(MOBY[0], 'en', PROFILE).baseline_ai_probability).toBeCloseTo(0.3, 6)
+    expect(compareToAuthor(MOBY[0], 'en', author(MOBY.slice(0, 2), -1)).baseline_ai_probability).toBeNull()
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+
+import { MAX_DOCUMENT_CHARS, type ScanProfile } from '../shared/api'
+import { parseBatchRequest, parseDetectRequest, parseProfile, unsafeRegex } from '../shared/validate'
+import { matchRules } from '../functions/_lib/profile'
+
+function profile(pattern: string): unknown {
+  return {
+    id: 'p',
+    name: 'Profile',
+    detectors: { heuristic: 1 },
+    thresholds: { high: 0.8, medium: 0.55 },
+    rules: [{ label: 'Rule', kind: 'regex', pattern, weight: 0.1 }],
+  }
+}
+
+describe('rule regexes', () => {
+  it('rejects patterns that can backtrack without bound', () => {
+    for (const p of ['(a|aa)+$', '(a+)+b', '(\\w*)*x', '((ab)*c){2,}', '(?:x|y?)*z', '(a)\\1', '(?<q>a)\\k<q>']) {
+      expect(unsafeRegex(p), p).not.toBeNull()
+      const parsed = parseProfile(profile(p))
+      expect(parsed.ok, p).toBe(false)
+      if (!parsed.ok) expect(parsed.error.field).toBe('options.profile.rules.0.pattern')
+    }
+  })
+
+  it('rejects more than one unbounded quantifier, nested or side by side', () => {
+    for (const p of ['[\\s\\S]*[\\s\\S]*z', '\\w*\\w*\\w*!', 'a+b{2,}', '(a+)b*', '(?:x+y)+']) {
+      expect(unsafeRegex(p), p).toMatch(/unbounded|repeat/)
+      expect(parseProfile(profile(p)).ok, p).toBe(false)
+    }
+    expect(unsafeRegex('[\\s\\S]*[\\s\\S]*z')).toBe('only one unbounded quantifier (*, + or {n,}) is allowed')
+  })
+
+  it('accepts alternation and repeats that do not nest', () => {
+    for (const p of ['\\b(furthermore|moreover|additionally)\\b', 'delve[sd]?\\s+into', '(a|b)?c+', '[(+*]+', '\\d{3}-\\d{4}', '(?:in conclusion),?']) {
+      expect(unsafeRegex(p), p).toBeNull()
+      expect(parseProfile(profile(p)).ok, p).toBe(true)
+    }
+  })
+
+  it('stops counting matches at the cap', () => {
+    const parsed = parseProfile(profile('a'))
+    expect(parsed.ok).toBe(true)
+    const [hit] = matchRules('a'.repeat(5000), (parsed as { value: ScanProfile }).value.rules)
+    expect(hit.hits).toBe(1000)
+    expect(hit.spans).toHaveLength(50)
+  })
+})
+
+describe('parseDetectRequest', () => {
+  it('refuses texts over the document limit like the other endpoints', () => {
+    expect(parseDetectRequest({ text: 'a'.repeat(MAX_DOCUMENT_CHARS) }).ok).toBe(true)
+    const parsed = parseDetectRequest({ text: 'a'.repeat(MAX_DOCUMENT_CHARS + 1) })
+    expect(parsed.ok).toBe(false)
+    if (!parsed.ok) expect(parsed.error).toMatchObject({ code: 'text_too_long', field: 'text' })
+  })
+})
+
+describe('parseBatchRequest', () => {
+  it('refuses options.stream instead of ignoring it', () => {
+    const documents = [{ id: 'a', text: 'Some text.' }]
+    expect(parseBatchRequest({ documents, options: { timeline: false } }).ok).toBe(true)
+    const parsed = parseBatchRequest({ documents, options: { stream: 'ndjson' } })
+    expect(parsed.ok).toBe(false)
+    if (!parsed.ok) expect(parsed.error).toMatchObject({ code: 'invalid_request', field: 'options.stream' })
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+
+import { detectLanguage, languageInfo } from '../functions/_lib/lang'
+import { LONG_SENTENCE_WORDS, analyzeWriting, readability, syllables } from '../functions/_lib/writing'
+
+const EN = languageInfo('en')
+
+describe('syllables', () => {
+  it('counts vowel groups with the silent-e corrections', () => {
+    expect(['cat', 'table', 'hopped', 'readability', 'the', 'simple'].map(syllables)).toEqual([1, 2, 1, 5, 1, 2])
+  })
+})
+
+describe('readability', () => {
+  it('scores plain short sentences as easier than long polysyllabic ones', () => {
+    const plain = readability('The cat sat on the mat. It was warm. We had tea.')
+    const dense = readability('Institutional considerations necessitate comprehensive evaluation of organisational capabilities, particularly regarding interdepartmental communication.')
+    expect(plain).toMatchObject({ words: 12, sentences: 3 })
+    expect(plain.flesch_reading_ease).toBeGreaterThan(dense.flesch_reading_ease)
+    expect(plain.flesch_kincaid_grade).toBeLessThan(dense.flesch_kincaid_grade)
+    expect(dense.complex_word_ratio).toBeGreaterThan(0.5)
+  })
+
+  it('does not count capitalised names as complex words', () => {
+    expect(readability('Alexandria met Valentina today.').complex_word_ratio).toBe(0)
+  })
+})
+
+describe('analyzeWriting', () => {
+  it('flags stock phrases, filler and passive voice with offsets into the text', () => {
+    const text = "In today's fast-paced world, we delve into the results. The report was written in order to help."
+    const { annotations, counts } = analyzeWriting(text, EN)
+
+    for (const a of annotations) expect(text.slice(a.start, a.end)).toBe(a.text)
+    expect(annotations.filter(a => a.kind !== 'short_sentence').map(a => [a.kind, a.text])).toEqual([
+      ['stock_phrase', "In today's fast-paced world"],
+      ['stock_phrase', 'delve into'],
+      ['passive', 'was written'],
+      ['filler', 'in order to'],
+    ])
+    expect(annotations.find(a => a.kind === 'filler')).toMatchObject({ suggestion: 'to' })
+    expect(counts).toMatchObject({ stock_phrase: 2, passive: 1, filler: 1 })
+  })
+
+  it('keeps the longest and most important finding where phrases overlap', () => {
+    const { annotations } = analyzeWriting("In today's digital age, things change quickly for everyone here.", EN)
+    expect(annotations.map(a => a.text)).toEqual(["In today's digital age"])
+  })
+
+  it('flags long sentences and fragments', () => {
+    const long = `${Array.from({ length: LONG_SENTENCE_WORDS + 5 }, (_, i) => `word${i}`).join(' ')}.`
+    const { annotations, counts } = analyzeWriting(`${long} Yes. That is all there is to say about it.`, EN)
+    expect(counts).toMatchObject({ long_sentence: 1, short_sentence: 1 })
+    expect(annotations.find(a => a.kind === 'long_sentence')?.message).toBe(`${LONG_SENTENCE_WORDS + 5} words; consider splitting it.`)
+    expect(annotations.find(a => a.kind === 'short_sentence')?.text).toBe('Yes.')
+  })
+
+  it('lists overused content words but not stopwords', () => {
+    const text = 'The project matters. The project team met. The project plan slipped, and the project budget grew.'
+    const { overused, annotations } = analyzeWriting(text, EN)
+    expect(overused).toEqual([{ word: 'project', count: 4 }])
+    expect(annotations.filter(a => a.kind === 'overused')).toHaveLength(4)
+  })
+
+  it('leaves readability and the English lists out for other languages', () => {
+    const text = 'Es importante señalar que el proyecto fue realizado por el equipo. El equipo trabajó mucho.'
+    const res = analyzeWriting(text, detectLanguage(text))
+    expect(res.readability).toBeNull()
+    expect(res.counts).toMatchObject({ stock_phrase: 0, filler: 0, passive: 0 })
+  })
+})
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    globalSetup: ['tests/lib/build-functions.ts'],
+    // Handler tests score real texts in workerd; the model loads once per worker.
+    testTimeout: 30_000,
+    hookTimeout: 60_000,
+  },
+})